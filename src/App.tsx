@@ -1,14 +1,54 @@
-import { useState } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { isDemoMode } from './lib/supabase';
 import Auth from './components/Auth';
 import Feed from './components/Feed';
 import Friends from './components/Friends';
-import { Home, Users, User, LogOut, Beaker } from 'lucide-react';
+import Messages from './components/Messages';
+import NotificationBell from './components/NotificationBell';
+import { NotificationGroup } from './lib/notifications';
+import { useUnreadMessageCount } from './lib/messages';
+import { navigate, paths, useRoute } from './lib/router';
+import Avatar from './components/Avatar';
+import MyProfile from './components/MyProfile';
+import UserProfile from './components/UserProfile';
+import PostPage from './components/PostPage';
+import SearchBar from './components/SearchBar';
+import SearchResults from './components/SearchResults';
+import TagFeed from './components/TagFeed';
+import SettingsPage from './components/SettingsPage';
+import ModerationDashboard from './components/ModerationDashboard';
+import StoryArchive from './components/StoryArchive';
+import { isModerator, isSuspended, suspensionEnd } from './lib/moderation';
+import { Home, Users, User, LogOut, Beaker, MessageSquare, Settings, Shield, Ban } from 'lucide-react';
 
 function MainApp() {
-  const [activeTab, setActiveTab] = useState<'feed' | 'friends' | 'profile'>('feed');
+  const route = useRoute();
   const { user, profile, signOut, loading } = useAuth();
+  const unreadMessages = useUnreadMessageCount(user?.id);
+
+  const openNotification = (group: NotificationGroup) => {
+    const { latest } = group;
+    switch (group.type) {
+      case 'reaction':
+      case 'comment':
+      case 'reply':
+        if (latest.post_id) navigate(paths.post(latest.post_id));
+        break;
+      case 'follow':
+      case 'follow_accept':
+      case 'friend_accept':
+        if (group.actors[0]) navigate(paths.user(group.actors[0].username));
+        break;
+      case 'friend_request':
+      case 'follow_request':
+        navigate(paths.friends('requests'));
+        break;
+      case 'story_view':
+      case 'story_reply':
+        navigate(paths.story(latest.user_id));
+        break;
+    }
+  };
 
   if (loading) {
     return (
@@ -25,6 +65,9 @@ function MainApp() {
     return <Auth />;
   }
 
+  // Usernames are unique regardless of case, so /u/Alice is alice's profile
+  const isMyProfile = route.name === 'user' && route.username.toLowerCase() === profile.username.toLowerCase();
+
   return (
     <div className="min-h-screen bg-gray-100">
       {isDemoMode && (
@@ -41,9 +84,9 @@ function MainApp() {
 
               <div className="flex gap-1">
                 <button
-                  onClick={() => setActiveTab('feed')}
+                  onClick={() => navigate(paths.feed())}
                   className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
-                    activeTab === 'feed'
+                    route.name === 'feed' || route.name === 'story'
                       ? 'bg-blue-600 text-white'
                       : 'text-gray-600 hover:bg-gray-100'
                   }`}
@@ -52,9 +95,9 @@ function MainApp() {
                   Feed
                 </button>
                 <button
-                  onClick={() => setActiveTab('friends')}
+                  onClick={() => navigate(paths.friends())}
                   className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
-                    activeTab === 'friends'
+                    route.name === 'friends'
                       ? 'bg-blue-600 text-white'
                       : 'text-gray-600 hover:bg-gray-100'
                   }`}
@@ -63,9 +106,25 @@ function MainApp() {
                   Friends
                 </button>
                 <button
-                  onClick={() => setActiveTab('profile')}
+                  onClick={() => navigate(paths.messages())}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors relative ${
+                    route.name === 'messages'
+                      ? 'bg-blue-600 text-white'
+                      : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  <MessageSquare size={20} />
+                  Messages
+                  {unreadMessages > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
+                      {unreadMessages > 99 ? '99+' : unreadMessages}
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => navigate(paths.user(profile.username))}
                   className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
-                    activeTab === 'profile'
+                    isMyProfile || route.name === 'archive'
                       ? 'bg-blue-600 text-white'
                       : 'text-gray-600 hover:bg-gray-100'
                   }`}
@@ -77,13 +136,37 @@ function MainApp() {
             </div>
 
             <div className="flex items-center gap-4">
+              <SearchBar />
+              <NotificationBell onSelect={openNotification} />
               <div className="text-right">
                 <p className="font-semibold text-gray-900">{profile.username}</p>
                 {profile.full_name && <p className="text-sm text-gray-500">{profile.full_name}</p>}
               </div>
-              <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-blue-600 rounded-full flex items-center justify-center text-white font-bold">
-                {profile.username[0].toUpperCase()}
-              </div>
+              <Avatar profile={profile} className="w-10 h-10" />
+              {isModerator(profile) && (
+                <button
+                  onClick={() => navigate(paths.moderation())}
+                  className={`p-2 rounded-lg transition-colors ${
+                    route.name === 'moderation'
+                      ? 'bg-blue-600 text-white'
+                      : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'
+                  }`}
+                  title="Moderation"
+                >
+                  <Shield size={20} />
+                </button>
+              )}
+              <button
+                onClick={() => navigate(paths.settings())}
+                className={`p-2 rounded-lg transition-colors ${
+                  route.name === 'settings'
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'
+                }`}
+                title="Settings"
+              >
+                <Settings size={20} />
+              </button>
               <button
                 onClick={signOut}
                 className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -96,35 +179,33 @@ function MainApp() {
         </div>
       </nav>
 
-      <main className="max-w-7xl mx-auto px-4 py-8">
-        {activeTab === 'feed' && <Feed />}
-        {activeTab === 'friends' && <Friends />}
-        {activeTab === 'profile' && (
-          <div className="max-w-2xl mx-auto">
-            <div className="bg-white rounded-xl shadow-md p-8">
-              <div className="flex items-center gap-6 mb-6">
-                <div className="w-24 h-24 bg-gradient-to-br from-blue-500 to-blue-600 rounded-full flex items-center justify-center text-white font-bold text-4xl">
-                  {profile.username[0].toUpperCase()}
-                </div>
-                <div>
-                  <h2 className="text-3xl font-bold text-gray-900">{profile.username}</h2>
-                  {profile.full_name && <p className="text-xl text-gray-600">{profile.full_name}</p>}
-                </div>
-              </div>
-
-              {profile.bio && (
-                <div className="mb-6">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-2">Bio</h3>
-                  <p className="text-gray-700">{profile.bio}</p>
-                </div>
-              )}
+      {isSuspended(profile) && (
+        <div className="bg-red-600 text-white text-center py-2 px-4 text-sm font-medium flex items-center justify-center gap-2">
+          <Ban size={16} />
+          Your account is suspended {suspensionEnd(profile)}
+          {profile.suspension_reason && ` (${profile.suspension_reason})`}.
+          You can still browse, but you can't post, comment, react, follow, add friends or send messages.
+        </div>
+      )}
 
-              <div className="border-t pt-6">
-                <p className="text-sm text-gray-500">
-                  Member since {new Date(profile.created_at).toLocaleDateString()}
-                </p>
-              </div>
-            </div>
+      <main className="max-w-7xl mx-auto px-4 py-8">
+        {/* Opening a story keeps the same Feed mounted underneath the viewer */}
+        {(route.name === 'feed' || route.name === 'story') && (
+          <Feed openStoryUserId={route.name === 'story' ? route.userId : null} />
+        )}
+        {route.name === 'friends' && <Friends tab={route.tab} />}
+        {route.name === 'messages' && <Messages conversationId={route.conversationId} />}
+        {isMyProfile && <MyProfile />}
+        {route.name === 'user' && !isMyProfile && <UserProfile key={route.username} username={route.username} />}
+        {route.name === 'archive' && <StoryArchive />}
+        {route.name === 'post' && <PostPage key={route.postId} postId={route.postId} />}
+        {route.name === 'search' && <SearchResults query={route.query} />}
+        {route.name === 'tag' && <TagFeed key={route.tag} tag={route.tag} />}
+        {route.name === 'settings' && <SettingsPage />}
+        {route.name === 'moderation' && <ModerationDashboard />}
+        {route.name === 'notFound' && (
+          <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+            This page doesn't exist.
           </div>
         )}
       </main>
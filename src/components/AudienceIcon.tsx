@@ -0,0 +1,21 @@
+import { PostVisibility } from '../lib/supabase';
+import { Globe, UserCheck, Users, ListChecks, Lock, LucideIcon } from 'lucide-react';
+
+const ICONS: Record<PostVisibility, LucideIcon> = {
+  public: Globe,
+  followers: UserCheck,
+  friends: Users,
+  custom: ListChecks,
+  only_me: Lock,
+};
+
+interface AudienceIconProps {
+  visibility: PostVisibility;
+  size?: number;
+  className?: string;
+}
+
+export default function AudienceIcon({ visibility, size = 14, className }: AudienceIconProps) {
+  const Icon = ICONS[visibility] ?? Globe;
+  return <Icon size={size} className={className} />;
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { validateUsername } from '../lib/profiles';
 import { UserPlus, LogIn } from 'lucide-react';
 
 export default function Auth() {
@@ -24,7 +25,9 @@ export default function Auth() {
         if (!username.trim()) {
           throw new Error('Username is required');
         }
-        await signUp(email, password, username, fullName);
+        const usernameProblem = validateUsername(username.trim());
+        if (usernameProblem) throw new Error(usernameProblem);
+        await signUp(email, password, username.trim(), fullName);
       }
     } catch (err: any) {
       setError(err.message || 'An error occurred');
@@ -0,0 +1,26 @@
+import { Profile } from '../lib/supabase';
+
+interface AvatarProps {
+  profile?: Pick<Profile, 'username' | 'avatar_url'> | null;
+  // Size and text size classes, e.g. "w-12 h-12 text-lg"
+  className?: string;
+}
+
+// A user's uploaded avatar, or their initial on the default gradient.
+export default function Avatar({ profile, className = 'w-10 h-10' }: AvatarProps) {
+  if (profile?.avatar_url) {
+    return (
+      <img
+        src={profile.avatar_url}
+        alt={profile.username}
+        className={`${className} rounded-full object-cover`}
+      />
+    );
+  }
+
+  return (
+    <div className={`${className} bg-gradient-to-br from-blue-500 to-blue-600 rounded-full flex items-center justify-center text-white font-bold`}>
+      {profile?.username[0]?.toUpperCase() || '?'}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Profile } from '../lib/supabase';
+import { imageFromDataTransfer, useImageUpload } from '../lib/uploads';
+import Avatar from './Avatar';
+import { Camera } from 'lucide-react';
+
+interface AvatarUploadProps {
+  profile: Pick<Profile, 'username' | 'avatar_url'>;
+  onChange: (url: string) => void;
+  className?: string;
+}
+
+// An avatar that uploads a replacement when clicked or when an image is
+// dropped on it, then reports the new URL.
+export default function AvatarUpload({ profile, onChange, className = 'w-24 h-24 text-4xl' }: AvatarUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
+  const { upload, progress, uploading, error } = useImageUpload('avatars', user?.id);
+
+  const handleFile = async (file: File) => {
+    const url = await upload(file);
+    if (url) onChange(url);
+  };
+
+  return (
+    <div className="flex flex-col items-center">
+      <button
+        type="button"
+        onClick={() => !uploading && inputRef.current?.click()}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          const file = imageFromDataTransfer(e.dataTransfer);
+          if (file && !uploading) handleFile(file);
+        }}
+        className="relative group rounded-full"
+        title="Change avatar"
+      >
+        <Avatar profile={profile} className={className} />
+        <div
+          className={`absolute inset-0 rounded-full bg-black/50 flex items-center justify-center text-white transition-opacity ${
+            uploading ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+          }`}
+        >
+          {uploading ? <span className="text-sm font-semibold">{progress}%</span> : <Camera size={24} />}
+        </div>
+      </button>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) handleFile(file);
+        }}
+      />
+
+      {error && <p className="text-xs text-red-600 mt-2 max-w-[10rem] text-center">{error}</p>}
+    </div>
+  );
+}
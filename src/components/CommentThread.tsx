@@ -0,0 +1,407 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Comment as CommentType, FEED_PREVIEW_COMMENTS } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { feedStore } from '../lib/feed';
+import Avatar from './Avatar';
+import UserLink from './UserLink';
+import RichText from './RichText';
+import MentionInput from './MentionInput';
+import ReportDialog from './ReportDialog';
+import { Heart, Trash2, Send, Pencil, CornerDownRight, ChevronDown, ChevronUp, Flag } from 'lucide-react';
+
+// Replies nest visually up to this depth; deeper replies line up with it.
+const MAX_INDENT_DEPTH = 3;
+
+interface CommentThreadProps {
+  postId: string;
+  commentCount: number;
+}
+
+export default function CommentThread({ postId, commentCount }: CommentThreadProps) {
+  const [comments, setComments] = useState<CommentType[] | null>(null);
+  const [likeCounts, setLikeCounts] = useState<Map<string, number>>(new Map());
+  const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
+  const [commentText, setCommentText] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+
+  const loadComments = useCallback(async () => {
+    const { data } = await supabase
+      .from('comments')
+      .select('*, profiles(*)')
+      .eq('post_id', postId)
+      .order('created_at', { ascending: true });
+
+    if (!data) return;
+
+    const { data: likes } = await supabase
+      .from('comment_likes')
+      .select('comment_id, user_id')
+      .in('comment_id', data.map(c => c.id));
+
+    const counts = new Map<string, number>();
+    const mine = new Set<string>();
+    likes?.forEach(like => {
+      counts.set(like.comment_id, (counts.get(like.comment_id) || 0) + 1);
+      if (like.user_id === user?.id) mine.add(like.comment_id);
+    });
+
+    setComments(data as CommentType[]);
+    setLikeCounts(counts);
+    setLikedIds(mine);
+    feedStore.update(postId, p => ({
+      ...p,
+      comment_count: data.length,
+      recent_comments: data.filter(c => !c.parent_id).slice(0, FEED_PREVIEW_COMMENTS),
+    }));
+  }, [postId, user]);
+
+  useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  // A realtime comment from someone else changes the count; refetch so it
+  // shows up in the open thread.
+  const loadedCount = comments?.length;
+  useEffect(() => {
+    if (loadedCount !== undefined && loadedCount !== commentCount) loadComments();
+  }, [commentCount, loadedCount, loadComments]);
+
+  const addComment = async (content: string, parentId: string | null) => {
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from('comments')
+      .insert({
+        post_id: postId,
+        user_id: user.id,
+        parent_id: parentId,
+        content,
+      });
+
+    if (error) {
+      console.error('Error adding comment:', error);
+      return false;
+    }
+
+    await loadComments();
+    return true;
+  };
+
+  const handleComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!commentText.trim() || loading) return;
+
+    setLoading(true);
+    if (await addComment(commentText.trim(), null)) setCommentText('');
+    setLoading(false);
+  };
+
+  const handleDelete = async (commentId: string) => {
+    const { error } = await supabase
+      .from('comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (!error) await loadComments();
+  };
+
+  const handleEdit = async (commentId: string, content: string) => {
+    const { error } = await supabase
+      .from('comments')
+      .update({ content })
+      .eq('id', commentId);
+
+    if (error) {
+      console.error('Error editing comment:', error);
+      return false;
+    }
+
+    setComments(prev => prev?.map(c =>
+      c.id === commentId ? { ...c, content, updated_at: new Date().toISOString() } : c
+    ) ?? null);
+    return true;
+  };
+
+  const handleLike = async (commentId: string) => {
+    if (!user) return;
+
+    const wasLiked = likedIds.has(commentId);
+    const applyLike = (liked: boolean) => {
+      setLikedIds(prev => {
+        const next = new Set(prev);
+        if (liked) next.add(commentId);
+        else next.delete(commentId);
+        return next;
+      });
+      setLikeCounts(prev => new Map(prev).set(commentId, Math.max(0, (prev.get(commentId) || 0) + (liked ? 1 : -1))));
+    };
+
+    applyLike(!wasLiked);
+
+    const { error } = wasLiked
+      ? await supabase
+          .from('comment_likes')
+          .delete()
+          .eq('comment_id', commentId)
+          .eq('user_id', user.id)
+      : await supabase
+          .from('comment_likes')
+          .insert({ comment_id: commentId, user_id: user.id });
+
+    if (error) {
+      console.error('Error updating comment like:', error);
+      applyLike(wasLiked);
+    }
+  };
+
+  if (comments === null) {
+    return (
+      <div className="text-center py-4">
+        <div className="inline-block w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const childrenOf = new Map<string | null, CommentType[]>();
+  for (const comment of comments) {
+    const key = comment.parent_id ?? null;
+    if (!childrenOf.has(key)) childrenOf.set(key, []);
+    childrenOf.get(key)!.push(comment);
+  }
+
+  const countReplies = (commentId: string): number =>
+    (childrenOf.get(commentId) || []).reduce((sum, reply) => sum + 1 + countReplies(reply.id), 0);
+
+  const renderComment = (comment: CommentType, depth: number) => (
+    <CommentItem
+      key={comment.id}
+      comment={comment}
+      depth={depth}
+      replies={childrenOf.get(comment.id) || []}
+      replyCount={countReplies(comment.id)}
+      likeCount={likeCounts.get(comment.id) || 0}
+      liked={likedIds.has(comment.id)}
+      isOwn={user?.id === comment.user_id}
+      onLike={() => handleLike(comment.id)}
+      onReply={(content) => addComment(content, comment.id)}
+      onEdit={(content) => handleEdit(comment.id, content)}
+      onDelete={() => handleDelete(comment.id)}
+      renderReply={(reply) => renderComment(reply, depth + 1)}
+    />
+  );
+
+  return (
+    <>
+      <form onSubmit={handleComment} className="mb-4">
+        <div className="flex gap-2">
+          <MentionInput
+            value={commentText}
+            onChange={setCommentText}
+            placeholder="Write a comment..."
+            wrapperClassName="flex-1"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={loading}
+          />
+          <button
+            type="submit"
+            disabled={!commentText.trim() || loading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Send size={20} />
+          </button>
+        </div>
+      </form>
+
+      <div className="space-y-3">
+        {(childrenOf.get(null) || []).map(comment => renderComment(comment, 0))}
+      </div>
+    </>
+  );
+}
+
+interface CommentItemProps {
+  comment: CommentType;
+  depth: number;
+  replies: CommentType[];
+  replyCount: number;
+  likeCount: number;
+  liked: boolean;
+  isOwn: boolean;
+  onLike: () => void;
+  onReply: (content: string) => Promise<boolean>;
+  onEdit: (content: string) => Promise<boolean>;
+  onDelete: () => void;
+  renderReply: (reply: CommentType) => React.ReactNode;
+}
+
+function CommentItem({
+  comment, depth, replies, replyCount, likeCount, liked, isOwn,
+  onLike, onReply, onEdit, onDelete, renderReply,
+}: CommentItemProps) {
+  const [showReplies, setShowReplies] = useState(false);
+  const [replying, setReplying] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [editText, setEditText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [reporting, setReporting] = useState(false);
+
+  const isEdited = !!comment.updated_at &&
+    new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+
+  const submitReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!replyText.trim() || busy) return;
+
+    setBusy(true);
+    if (await onReply(replyText.trim())) {
+      setReplyText('');
+      setReplying(false);
+      setShowReplies(true);
+    }
+    setBusy(false);
+  };
+
+  const submitEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editText.trim() || busy) return;
+
+    setBusy(true);
+    if (editText.trim() === comment.content || await onEdit(editText.trim())) {
+      setEditing(false);
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'ml-8' : ''}>
+      <div className="flex items-start gap-3 bg-white p-3 rounded-lg">
+        <Avatar profile={comment.profiles} className="w-8 h-8 text-sm flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <UserLink username={comment.profiles?.username} className="font-semibold text-sm text-gray-900">
+            {comment.profiles?.username || 'Unknown'}
+          </UserLink>
+
+          {editing ? (
+            <form onSubmit={submitEdit} className="flex gap-2 mt-1">
+              <input
+                type="text"
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={busy}
+                autoFocus
+              />
+              <button
+                type="button"
+                onClick={() => setEditing(false)}
+                className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!editText.trim() || busy}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </form>
+          ) : (
+            <p className="text-gray-700 text-sm break-words">
+              <RichText text={comment.content} />
+              {isEdited && <span className="text-xs text-gray-400 ml-1">(edited)</span>}
+            </p>
+          )}
+
+          <div className="flex items-center gap-4 mt-1.5 text-xs font-medium text-gray-500">
+            <button
+              onClick={onLike}
+              className={`flex items-center gap-1 transition-colors ${liked ? 'text-red-500' : 'hover:text-red-500'}`}
+            >
+              <Heart size={14} fill={liked ? 'currentColor' : 'none'} />
+              {likeCount > 0 && likeCount}
+            </button>
+            <button
+              onClick={() => setReplying(!replying)}
+              className="flex items-center gap-1 hover:text-blue-600 transition-colors"
+            >
+              <CornerDownRight size={14} />
+              Reply
+            </button>
+            <span className="text-gray-400">{new Date(comment.created_at).toLocaleDateString()}</span>
+          </div>
+        </div>
+        {isOwn && !editing && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <button
+              onClick={() => {
+                setEditText(comment.content);
+                setEditing(true);
+              }}
+              className="text-gray-400 hover:text-blue-500 transition-colors"
+              title="Edit comment"
+            >
+              <Pencil size={14} />
+            </button>
+            <button
+              onClick={onDelete}
+              className="text-gray-400 hover:text-red-500 transition-colors"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        )}
+        {!isOwn && (
+          <button
+            onClick={() => setReporting(true)}
+            className="text-gray-300 hover:text-red-500 transition-colors flex-shrink-0"
+            title="Report comment"
+          >
+            <Flag size={14} />
+          </button>
+        )}
+      </div>
+
+      {reporting && <ReportDialog targetType="comment" targetId={comment.id} onClose={() => setReporting(false)} />}
+
+      {replying && (
+        <form onSubmit={submitReply} className="flex gap-2 mt-2 ml-8">
+          <MentionInput
+            value={replyText}
+            onChange={setReplyText}
+            placeholder={`Reply to ${comment.profiles?.username || 'comment'}...`}
+            wrapperClassName="flex-1"
+            className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={busy}
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={!replyText.trim() || busy}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Send size={16} />
+          </button>
+        </form>
+      )}
+
+      {replyCount > 0 && (
+        <button
+          onClick={() => setShowReplies(!showReplies)}
+          className="flex items-center gap-1 mt-2 ml-8 text-xs font-semibold text-blue-600 hover:text-blue-700 transition-colors"
+        >
+          {showReplies ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          {showReplies ? 'Hide replies' : `View ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`}
+        </button>
+      )}
+
+      {showReplies && replies.length > 0 && (
+        <div className="space-y-2 mt-2">
+          {replies.map(renderReply)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
-import { useState } from 'react';
-import { supabase } from '../lib/supabase';
+import { useState, useEffect } from 'react';
+import { supabase, PostVisibility, Profile } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { POST_AUDIENCES, addPostAudienceMembers } from '../lib/audience';
+import { fetchFriendProfiles } from '../lib/social';
+import AudienceIcon from './AudienceIcon';
+import Avatar from './Avatar';
+import ImageDropzone from './ImageDropzone';
+import MentionInput from './MentionInput';
 import { Send, Image } from 'lucide-react';
 
 interface CreatePostProps {
@@ -11,24 +17,63 @@ export default function CreatePost({ onPostCreated }: CreatePostProps) {
   const [content, setContent] = useState('');
   const [imageUrl, setImageUrl] = useState('');
   const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
   const [showImageInput, setShowImageInput] = useState(false);
+  const [visibility, setVisibility] = useState<PostVisibility>('public');
+  const [friends, setFriends] = useState<Profile[] | null>(null);
+  const [audience, setAudience] = useState<Set<string>>(new Set());
   const { user } = useAuth();
 
+  // Friends are only needed to pick a custom audience
+  useEffect(() => {
+    if (visibility !== 'custom' || friends || !user) return;
+    fetchFriendProfiles(user.id)
+      .then(setFriends)
+      .catch(err => {
+        console.error('Error loading friends:', err);
+        setFriends([]);
+      });
+  }, [visibility, friends, user]);
+
+  const toggleAudienceMember = (userId: string) => {
+    setAudience(prev => {
+      const next = new Set(prev);
+      if (next.has(userId)) next.delete(userId);
+      else next.add(userId);
+      return next;
+    });
+  };
+
+  const audienceMissing = visibility === 'custom' && audience.size === 0;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!content.trim() || !user) return;
+    if (!content.trim() || !user || uploading || audienceMissing) return;
 
     setLoading(true);
     try {
+      // The id is chosen here so a custom audience can be attached to it
+      const postId = crypto.randomUUID();
       const { error } = await supabase
         .from('posts')
         .insert({
+          id: postId,
           user_id: user.id,
           content: content.trim(),
           image_url: imageUrl.trim(),
+          visibility,
         });
 
       if (error) throw error;
+      if (visibility === 'custom') {
+        try {
+          await addPostAudienceMembers(postId, [...audience]);
+        } catch (audienceError) {
+          // Don't leave a custom post behind that nobody was added to
+          await supabase.from('posts').delete().eq('id', postId);
+          throw audienceError;
+        }
+      }
 
       setContent('');
       setImageUrl('');
@@ -45,42 +90,92 @@ export default function CreatePost({ onPostCreated }: CreatePostProps) {
   return (
     <div className="bg-white rounded-xl shadow-md p-6 mb-6">
       <form onSubmit={handleSubmit}>
-        <textarea
+        <MentionInput
+          multiline
           value={content}
-          onChange={(e) => setContent(e.target.value)}
-          placeholder="What's on your mind?"
+          onChange={setContent}
+          placeholder="What's on your mind? Use #tags and @mentions"
           className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
           rows={3}
           disabled={loading}
         />
 
+        {visibility === 'custom' && (
+          <div className="mt-3 p-3 bg-gray-50 rounded-lg">
+            <p className="text-sm font-medium text-gray-700 mb-2">Who can see this post?</p>
+            {friends === null ? (
+              <p className="text-sm text-gray-500">Loading friends...</p>
+            ) : friends.length === 0 ? (
+              <p className="text-sm text-gray-500">Add some friends to share with a custom list.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {friends.map(friend => (
+                  <button
+                    key={friend.id}
+                    type="button"
+                    onClick={() => toggleAudienceMember(friend.id)}
+                    className={`flex items-center gap-2 pl-1 pr-3 py-1 rounded-full text-sm border transition-colors ${
+                      audience.has(friend.id)
+                        ? 'bg-blue-50 border-blue-500 text-blue-700'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    <Avatar profile={friend} className="w-6 h-6 text-xs" />
+                    {friend.username}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {showImageInput && (
-          <input
-            type="url"
-            value={imageUrl}
-            onChange={(e) => setImageUrl(e.target.value)}
-            placeholder="Image URL (optional)"
-            className="w-full px-4 py-2 mt-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          />
+          <div className="mt-3">
+            <ImageDropzone
+              kind="posts"
+              value={imageUrl}
+              onChange={setImageUrl}
+              onUploadingChange={setUploading}
+            />
+          </div>
         )}
 
         <div className="flex items-center justify-between mt-4">
           <button
             type="button"
-            onClick={() => setShowImageInput(!showImageInput)}
+            onClick={() => {
+              if (showImageInput) setImageUrl('');
+              setShowImageInput(!showImageInput);
+            }}
+            disabled={uploading}
             className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
           >
             <Image size={20} />
             {showImageInput ? 'Remove Image' : 'Add Image'}
           </button>
 
+          <label className="ml-auto mr-3 flex items-center gap-2 text-sm text-gray-600">
+            <AudienceIcon visibility={visibility} size={16} />
+            <select
+              value={visibility}
+              onChange={(e) => setVisibility(e.target.value as PostVisibility)}
+              disabled={loading}
+              className="py-1.5 pl-2 pr-8 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              title={POST_AUDIENCES.find(a => a.value === visibility)?.description}
+            >
+              {POST_AUDIENCES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
           <button
             type="submit"
-            disabled={!content.trim() || loading}
+            disabled={!content.trim() || loading || uploading || audienceMissing}
             className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Send size={20} />
-            {loading ? 'Posting...' : 'Post'}
+            {uploading ? 'Uploading...' : loading ? 'Posting...' : 'Post'}
           </button>
         </div>
       </form>
@@ -1,7 +1,15 @@
 import { useState } from 'react';
-import { supabase } from '../lib/supabase';
+import { supabase, StoryAudience } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { X, Image, Type, Send } from 'lucide-react';
+import { STORY_AUDIENCES } from '../lib/audience';
+import ImageDropzone from './ImageDropzone';
+import { X, Image, Type, Send, Globe, Users, Star } from 'lucide-react';
+
+const AUDIENCE_ICONS = {
+  everyone: Globe,
+  friends: Users,
+  close_friends: Star,
+};
 
 const BG_COLORS = [
   '#3B82F6', '#8B5CF6', '#EC4899', '#EF4444',
@@ -19,14 +27,16 @@ export default function CreateStory({ onClose, onCreated }: CreateStoryProps) {
   const [imageUrl, setImageUrl] = useState('');
   const [caption, setCaption] = useState('');
   const [bgColor, setBgColor] = useState('#3B82F6');
+  const [audience, setAudience] = useState<StoryAudience>('everyone');
   const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
   const [error, setError] = useState('');
   const { user } = useAuth();
 
   const handleSubmit = async () => {
     if (!user) return;
     if (mode === 'image' && !imageUrl.trim()) {
-      setError('Please provide an image URL');
+      setError('Please add a photo');
       return;
     }
 
@@ -38,6 +48,7 @@ export default function CreateStory({ onClose, onCreated }: CreateStoryProps) {
         image_url: mode === 'image' ? imageUrl.trim() : '',
         caption: caption.trim(),
         background_color: bgColor,
+        audience,
       });
 
       if (insertError) throw insertError;
@@ -91,18 +102,25 @@ export default function CreateStory({ onClose, onCreated }: CreateStoryProps) {
         </div>
 
         <div className="p-5 space-y-4">
-          {/* Preview */}
-          <div className="relative w-full aspect-[9/16] max-h-[280px] rounded-xl overflow-hidden">
-            {mode === 'image' && imageUrl ? (
-              <img
-                src={imageUrl}
-                alt="Preview"
-                className="w-full h-full object-cover"
-                onError={(e) => {
-                  (e.target as HTMLImageElement).style.display = 'none';
-                }}
-              />
-            ) : (
+          {/* Preview (the upload area itself in photo mode) */}
+          {mode === 'image' ? (
+            <ImageDropzone
+              kind="stories"
+              value={imageUrl}
+              onChange={setImageUrl}
+              onUploadingChange={setUploading}
+              className="aspect-[9/16] max-h-[280px]"
+            >
+              {caption && (
+                <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent flex items-end p-4">
+                  <p className="text-white font-medium text-center w-full drop-shadow-lg">
+                    {caption}
+                  </p>
+                </div>
+              )}
+            </ImageDropzone>
+          ) : (
+            <div className="relative w-full aspect-[9/16] max-h-[280px] rounded-xl overflow-hidden">
               <div
                 className="w-full h-full flex items-center justify-center"
                 style={{ backgroundColor: bgColor }}
@@ -115,30 +133,6 @@ export default function CreateStory({ onClose, onCreated }: CreateStoryProps) {
                   <p className="text-white/50 text-sm">Preview</p>
                 )}
               </div>
-            )}
-            {/* Caption overlay on image */}
-            {mode === 'image' && caption && imageUrl && (
-              <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent flex items-end p-4">
-                <p className="text-white font-medium text-center w-full drop-shadow-lg">
-                  {caption}
-                </p>
-              </div>
-            )}
-          </div>
-
-          {/* Image URL input */}
-          {mode === 'image' && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Image URL
-              </label>
-              <input
-                type="url"
-                value={imageUrl}
-                onChange={(e) => setImageUrl(e.target.value)}
-                placeholder="https://example.com/photo.jpg"
-                className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-              />
             </div>
           )}
 
@@ -181,6 +175,36 @@ export default function CreateStory({ onClose, onCreated }: CreateStoryProps) {
             <p className="text-xs text-gray-400 mt-1">{caption.length}/200</p>
           </div>
 
+          {/* Audience */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Share with
+            </label>
+            <div className="flex gap-2">
+              {STORY_AUDIENCES.map((option) => {
+                const Icon = AUDIENCE_ICONS[option.value];
+                const selected = audience === option.value;
+                return (
+                  <button
+                    key={option.value}
+                    onClick={() => setAudience(option.value)}
+                    title={option.description}
+                    className={`flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      selected
+                        ? option.value === 'close_friends'
+                          ? 'bg-green-600 text-white'
+                          : 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    <Icon size={16} />
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
           {error && (
             <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
               {error}
@@ -189,7 +213,7 @@ export default function CreateStory({ onClose, onCreated }: CreateStoryProps) {
 
           <button
             onClick={handleSubmit}
-            disabled={loading || (mode === 'image' && !imageUrl.trim())}
+            disabled={loading || uploading || (mode === 'image' && !imageUrl.trim())}
             className="w-full flex items-center justify-center gap-2 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Send size={18} />
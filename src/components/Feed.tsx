@@ -1,41 +1,271 @@
-import { useState, useEffect } from 'react';
-import { supabase, Post as PostType } from '../lib/supabase';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { FeedPost, Comment, Reaction } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  FEED_MODES,
+  FEED_PAGE_SIZE,
+  FeedMode,
+  fetchCommentCounts,
+  fetchFeedPage,
+  feedStore,
+  loadFeedMode,
+  saveFeedMode,
+} from '../lib/feed';
+import { subscribeToTables } from '../lib/realtime';
+import { fetchReactionTotals, withReaction } from '../lib/reactions';
+import { ArrowUp } from 'lucide-react';
 import Post from './Post';
 import CreatePost from './CreatePost';
 import StoriesBar from './StoriesBar';
+import TrendingTags from './TrendingTags';
 
-export default function Feed() {
-  const [posts, setPosts] = useState<PostType[]>([]);
+interface FeedProps {
+  openStoryUserId?: string | null;
+}
+
+export default function Feed({ openStoryUserId = null }: FeedProps) {
+  const { user } = useAuth();
+  const [mode, setMode] = useState<FeedMode>(() => (user ? loadFeedMode(user.id) : 'everyone'));
+  const [posts, setPosts] = useState<FeedPost[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [pendingPosts, setPendingPosts] = useState<FeedPost[]>([]);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const postsRef = useRef(posts);
+  postsRef.current = posts;
 
-  useEffect(() => {
-    loadPosts();
-  }, []);
-
-  const loadPosts = async () => {
+  const loadInitial = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const { data, error } = await supabase
-        .from('posts')
-        .select('*, profiles(*)')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setPosts(data || []);
-    } catch (err: any) {
+      const page = await fetchFeedPage({ mode });
+      feedStore.upsert(page);
+      setPosts(page);
+      setPendingPosts([]);
+      setHasMore(page.length === FEED_PAGE_SIZE);
+    } catch (err) {
       console.error('Error loading posts:', err);
-      setError(err.message || 'Failed to load posts');
+      setError(err instanceof Error ? err.message : 'Failed to load posts');
     } finally {
       setLoading(false);
     }
+  }, [mode]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMore || !hasMore || posts.length === 0) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchFeedPage({ mode, before: posts[posts.length - 1] });
+      feedStore.upsert(page);
+      setPosts(prev => {
+        const seen = new Set(prev.map(p => p.id));
+        return [...prev, ...page.filter(p => !seen.has(p.id))];
+      });
+      setHasMore(page.length === FEED_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading more posts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load more posts');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [mode, loadingMore, hasMore, posts]);
+
+  // Prepend anything newer than the top of the feed without touching the
+  // rows that are already rendered.
+  const loadNewer = async () => {
+    if (posts.length === 0) {
+      await loadInitial();
+      return;
+    }
+
+    try {
+      const newer = await fetchFeedPage({ mode, newerThan: posts[0], limit: 50 });
+      feedStore.upsert(newer);
+      setPosts(prev => {
+        const seen = new Set(prev.map(p => p.id));
+        return [...newer.filter(p => !seen.has(p.id)), ...prev];
+      });
+      setPendingPosts([]);
+    } catch (err) {
+      console.error('Error loading new posts:', err);
+    }
+  };
+
+  const showPendingPosts = () => {
+    feedStore.upsert(pendingPosts);
+    setPosts(prev => {
+      const seen = new Set(prev.map(p => p.id));
+      return [...pendingPosts.filter(p => !seen.has(p.id)), ...prev];
+    });
+    setPendingPosts([]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const changeMode = (next: FeedMode) => {
+    if (next === mode) return;
+    if (user) saveFeedMode(user.id, next);
+    setMode(next);
+  };
+
+  const removePost = (postId: string) => {
+    feedStore.remove(postId);
+    setPosts(prev => prev.filter(p => p.id !== postId));
+    setPendingPosts(prev => prev.filter(p => p.id !== postId));
   };
 
+  useEffect(() => {
+    loadInitial();
+  }, [loadInitial]);
+
+  // Live updates. Other people's new posts are collected behind a banner
+  // instead of being inserted above what the reader is looking at; reactions
+  // and comments patch the counts in place. Our own actions are skipped
+  // because they're already applied locally.
+  useEffect(() => {
+    if (!user) return;
+
+    let fetchTimer: ReturnType<typeof setTimeout> | undefined;
+    const collectNewPosts = () => {
+      clearTimeout(fetchTimer);
+      fetchTimer = setTimeout(async () => {
+        const top = postsRef.current[0];
+        try {
+          const newer = await fetchFeedPage({ mode, newerThan: top, limit: 50 });
+          const seen = new Set(postsRef.current.map(p => p.id));
+          setPendingPosts(newer.filter(p => !seen.has(p.id)));
+        } catch (err) {
+          console.error('Error loading new posts:', err);
+        }
+      }, 500);
+    };
+
+    // Deletes only carry the comment's id, so the posts on screen are
+    // recounted instead, once per burst of deletes.
+    let recountTimer: ReturnType<typeof setTimeout> | undefined;
+    const recountComments = (deletedId: string) => {
+      for (const post of postsRef.current) {
+        if (post.recent_comments?.some(c => c.id === deletedId)) {
+          feedStore.update(post.id, p => ({ ...p, recent_comments: p.recent_comments.filter(c => c.id !== deletedId) }));
+        }
+      }
+      clearTimeout(recountTimer);
+      recountTimer = setTimeout(async () => {
+        const ids = postsRef.current.map(p => p.id);
+        try {
+          const counts = await fetchCommentCounts(ids);
+          for (const id of ids) feedStore.update(id, p => ({ ...p, comment_count: counts[id] || 0 }));
+        } catch (err) {
+          console.error('Error recounting comments:', err);
+        }
+      }, 500);
+    };
+
+    // Reaction changes and removals only carry the reaction's id, so
+    // those recount the posts on screen too.
+    let reactionTimer: ReturnType<typeof setTimeout> | undefined;
+    const recountReactions = () => {
+      clearTimeout(reactionTimer);
+      reactionTimer = setTimeout(async () => {
+        const ids = postsRef.current.map(p => p.id);
+        try {
+          const totals = await fetchReactionTotals(ids, user.id);
+          for (const id of ids) feedStore.update(id, p => ({ ...p, ...totals[id] }));
+        } catch (err) {
+          console.error('Error recounting reactions:', err);
+        }
+      }, 500);
+    };
+
+    const unsubscribe = subscribeToTables({
+      posts: ({ eventType, new: row, old }) => {
+        if (eventType === 'INSERT' && row.user_id !== user.id) collectNewPosts();
+        if (eventType === 'DELETE' && old.id) removePost(old.id as string);
+        if (eventType === 'UPDATE') {
+          const edited = row as Partial<FeedPost>;
+          feedStore.update(edited.id!, p => ({
+            ...p,
+            content: edited.content ?? p.content,
+            image_url: edited.image_url ?? p.image_url,
+            updated_at: edited.updated_at ?? p.updated_at,
+          }));
+        }
+      },
+      reactions: ({ eventType, new: row }) => {
+        if (eventType !== 'INSERT') {
+          recountReactions();
+          return;
+        }
+        const added = row as Partial<Reaction>;
+        if (!added.post_id || !added.type || added.user_id === user.id) return;
+        feedStore.update(added.post_id, p => withReaction(p, null, added.type!, false));
+      },
+      comments: ({ eventType, new: row, old }) => {
+        if (eventType === 'DELETE' && old.id) recountComments(old.id as string);
+        if (eventType !== 'INSERT') return;
+        const comment = row as Partial<Comment>;
+        if (!comment.post_id || comment.user_id === user.id) return;
+        feedStore.update(comment.post_id, p => ({ ...p, comment_count: p.comment_count + 1 }));
+      },
+    });
+
+    return () => {
+      clearTimeout(fetchTimer);
+      clearTimeout(recountTimer);
+      clearTimeout(reactionTimer);
+      unsubscribe();
+    };
+  }, [user, mode]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
   return (
     <div className="max-w-2xl mx-auto">
-      <StoriesBar />
-      <CreatePost onPostCreated={loadPosts} />
+      <StoriesBar openUserId={openStoryUserId} />
+      <CreatePost onPostCreated={loadNewer} />
+      <TrendingTags />
+
+      <div className="bg-white rounded-xl shadow-md p-2 mb-6 flex gap-1">
+        {FEED_MODES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => changeMode(value)}
+            className={`flex-1 px-4 py-2 rounded-lg font-medium transition-colors ${
+              mode === value
+                ? 'bg-blue-600 text-white'
+                : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {pendingPosts.length > 0 && (
+        <div className="sticky top-20 z-40 flex justify-center mb-4">
+          <button
+            onClick={showPendingPosts}
+            className="flex items-center gap-2 px-5 py-2 bg-blue-600 text-white rounded-full font-semibold shadow-lg hover:bg-blue-700 transition-colors"
+          >
+            <ArrowUp size={18} />
+            {pendingPosts.length} new {pendingPosts.length === 1 ? 'post' : 'posts'}
+          </button>
+        </div>
+      )}
 
       {error && (
         <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg mb-6">
@@ -50,12 +280,32 @@ export default function Feed() {
         </div>
       ) : posts.length === 0 ? (
         <div className="bg-white rounded-xl shadow-md p-12 text-center">
-          <p className="text-gray-500 text-lg">No posts yet. Be the first to share something!</p>
+          <p className="text-gray-500 text-lg">
+            {mode === 'everyone'
+              ? 'No posts yet. Be the first to share something!'
+              : mode === 'following'
+              ? 'No posts from people you follow yet.'
+              : 'No posts from your friends yet.'}
+          </p>
         </div>
       ) : (
-        posts.map((post) => (
-          <Post key={post.id} post={post} onDelete={loadPosts} />
-        ))
+        <>
+          {posts.map((post) => (
+            <Post key={post.id} post={post} onDelete={() => removePost(post.id)} />
+          ))}
+
+          <div ref={sentinelRef} />
+
+          {loadingMore && (
+            <div className="text-center py-6">
+              <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {!hasMore && (
+            <p className="text-center text-sm text-gray-400 py-6">You're all caught up</p>
+          )}
+        </>
       )}
     </div>
   );
@@ -1,16 +1,54 @@
 import { useState, useEffect } from 'react';
-import { supabase, Profile } from '../lib/supabase';
+import { supabase, Follow, FriendSuggestion, Friendship, Profile } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { UserPlus, UserMinus, Users, UserCheck, X, Check } from 'lucide-react';
+import {
+  acceptFollowRequest,
+  acceptFriendRequest,
+  addCloseFriend,
+  cancelFriendRequest,
+  declineFollowRequest,
+  declineFriendRequest,
+  dismissSuggestion,
+  fetchCloseFriendIds,
+  fetchFollowRequests,
+  fetchFriendSuggestions,
+  followUser,
+  removeCloseFriend,
+  sendFriendRequest,
+  unfollowUser,
+  unfriend,
+} from '../lib/social';
+import { openDirectConversation } from '../lib/messages';
+import { FriendsTab, navigate, paths } from '../lib/router';
+import Avatar from './Avatar';
+import UserLink from './UserLink';
+import { UserPlus, UserMinus, Users, UserCheck, X, Check, MessageSquare, Clock, Star } from 'lucide-react';
+
+// Why someone is suggested, strongest signal first
+function suggestionReason(suggestion: FriendSuggestion) {
+  const { mutual_friend_count: mutual } = suggestion;
+  if (mutual > 0) return `${mutual} mutual ${mutual === 1 ? 'friend' : 'friends'}`;
+  if (suggestion.follows_you) return 'Follows you';
+  if (suggestion.interaction_count > 0) return "You've interacted before";
+  if (suggestion.shared_follow_count > 0) return 'Follows people you follow';
+  return null;
+}
+
+interface FriendsProps {
+  tab: FriendsTab;
+}
 
-export default function Friends() {
-  const [activeTab, setActiveTab] = useState<'discover' | 'friends' | 'following' | 'requests'>('discover');
-  const [users, setUsers] = useState<Profile[]>([]);
+export default function Friends({ tab: activeTab }: FriendsProps) {
+  const [suggestions, setSuggestions] = useState<FriendSuggestion[]>([]);
   const [friends, setFriends] = useState<Profile[]>([]);
   const [following, setFollowing] = useState<Profile[]>([]);
-  const [friendRequests, setFriendRequests] = useState<any[]>([]);
+  const [friendRequests, setFriendRequests] = useState<(Friendship & { profiles: Profile })[]>([]);
+  const [sentRequests, setSentRequests] = useState<(Friendship & { profiles: Profile })[]>([]);
+  const [followRequests, setFollowRequests] = useState<(Follow & { profiles: Profile })[]>([]);
   const [followingIds, setFollowingIds] = useState<Set<string>>(new Set());
+  const [requestedFollowIds, setRequestedFollowIds] = useState<Set<string>>(new Set());
   const [friendIds, setFriendIds] = useState<Set<string>>(new Set());
+  const [closeFriendIds, setCloseFriendIds] = useState<Set<string>>(new Set());
   const [pendingRequestIds, setPendingRequestIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
@@ -27,27 +65,24 @@ export default function Friends() {
       loadFollowing(),
       loadFriends(),
       loadFriendRequests(),
+      loadFollowRequests(),
+      loadCloseFriends(),
     ]);
 
     if (activeTab === 'discover') {
-      await loadUsers();
+      await loadSuggestions();
     } else if (activeTab === 'following') {
       await loadFollowingList();
     }
     setLoading(false);
   };
 
-  const loadUsers = async () => {
-    if (!user) return;
-
-    const { data } = await supabase
-      .from('profiles')
-      .select('*')
-      .neq('id', user.id)
-      .order('created_at', { ascending: false })
-      .limit(20);
-
-    setUsers(data || []);
+  const loadSuggestions = async () => {
+    try {
+      setSuggestions(await fetchFriendSuggestions());
+    } catch (err) {
+      console.error('Error loading suggestions:', err);
+    }
   };
 
   const loadFollowing = async () => {
@@ -55,10 +90,13 @@ export default function Friends() {
 
     const { data } = await supabase
       .from('follows')
-      .select('following_id')
+      .select('following_id, status')
       .eq('follower_id', user.id);
 
-    setFollowingIds(new Set(data?.map(f => f.following_id) || []));
+    const idsWithStatus = (status: Follow['status']) =>
+      new Set(data?.filter(f => f.status === status).map(f => f.following_id) || []);
+    setFollowingIds(idsWithStatus('accepted'));
+    setRequestedFollowIds(idsWithStatus('pending'));
   };
 
   const loadFollowingList = async () => {
@@ -67,7 +105,8 @@ export default function Friends() {
     const { data } = await supabase
       .from('follows')
       .select('following_id, profiles!follows_following_id_fkey(*)')
-      .eq('follower_id', user.id);
+      .eq('follower_id', user.id)
+      .eq('status', 'accepted');
 
     setFollowing((data?.map(f => f.profiles).filter(Boolean) as unknown as Profile[]) || []);
   };
@@ -110,105 +149,152 @@ export default function Friends() {
 
     const { data: sent } = await supabase
       .from('friendships')
-      .select('user_id_2')
+      .select('*, profiles!friendships_user_id_2_fkey(*)')
       .eq('status', 'pending')
       .eq('requested_by', user.id);
 
     setFriendRequests(received || []);
+    setSentRequests(sent || []);
     setPendingRequestIds(new Set(sent?.map(r => r.user_id_2) || []));
   };
 
-  const handleFollow = async (userId: string) => {
+  const loadCloseFriends = async () => {
     if (!user) return;
 
-    if (followingIds.has(userId)) {
-      await supabase
-        .from('follows')
-        .delete()
-        .eq('follower_id', user.id)
-        .eq('following_id', userId);
-
-      setFollowingIds(prev => {
-        const next = new Set(prev);
-        next.delete(userId);
-        return next;
-      });
-    } else {
-      await supabase
-        .from('follows')
-        .insert({ follower_id: user.id, following_id: userId });
+    try {
+      setCloseFriendIds(new Set(await fetchCloseFriendIds(user.id)));
+    } catch (err) {
+      console.error('Error loading close friends:', err);
+    }
+  };
 
-      setFollowingIds(prev => new Set(prev).add(userId));
+  const toggleCloseFriend = async (friendId: string) => {
+    if (!user) return;
+
+    try {
+      if (closeFriendIds.has(friendId)) {
+        await removeCloseFriend(user.id, friendId);
+      } else {
+        await addCloseFriend(user.id, friendId);
+      }
+    } catch (err) {
+      console.error('Error updating close friends:', err);
     }
+    await loadCloseFriends();
+  };
 
-    if (activeTab === 'following') {
-      await loadFollowingList();
+  const loadFollowRequests = async () => {
+    if (!user) return;
+
+    try {
+      setFollowRequests(await fetchFollowRequests(user.id));
+    } catch (err) {
+      console.error('Error loading follow requests:', err);
     }
   };
 
-  const handleFriendRequest = async (userId: string) => {
+  const handleFollow = async (userId: string) => {
     if (!user) return;
 
-    const { error } = await supabase
-      .from('friendships')
-      .insert({
-        user_id_1: user.id,
-        user_id_2: userId,
-        requested_by: user.id,
-        status: 'pending',
-      });
+    try {
+      if (followingIds.has(userId) || requestedFollowIds.has(userId)) {
+        await unfollowUser(user.id, userId);
+      } else {
+        await followUser(user.id, userId);
+      }
+    } catch (err) {
+      console.error('Error updating follow:', err);
+    }
 
-    if (!error) {
-      setPendingRequestIds(prev => new Set(prev).add(userId));
+    // Following a private account only sends a request, so ask which it was
+    await loadFollowing();
+    if (activeTab === 'following') {
+      await loadFollowingList();
     }
   };
 
-  const handleAcceptRequest = async (requestId: string) => {
-    await supabase
-      .from('friendships')
-      .update({ status: 'accepted' })
-      .eq('id', requestId);
+  const respondToFollowRequest = async (followerId: string, accept: boolean) => {
+    setFollowRequests(prev => prev.filter(r => r.follower_id !== followerId));
+    try {
+      await (accept ? acceptFollowRequest(followerId) : declineFollowRequest(followerId));
+    } catch (err) {
+      console.error('Error responding to follow request:', err);
+      alert(err instanceof Error ? err.message : 'Failed to respond to follow request');
+    }
+    await loadFollowRequests();
+  };
 
-    await loadData();
+  // Friendship RPCs can refuse a change (e.g. re-asking too soon after a
+  // decline), so show their message and reload the real state either way.
+  const changeFriendship = async (change: () => Promise<void>) => {
+    try {
+      await change();
+    } catch (err) {
+      console.error('Error updating friendship:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update friendship');
+    }
+    await Promise.all([loadFriends(), loadFriendRequests()]);
   };
 
-  const handleRejectRequest = async (requestId: string) => {
-    await supabase
-      .from('friendships')
-      .delete()
-      .eq('id', requestId);
+  const handleFriendRequest = (userId: string) => changeFriendship(() => sendFriendRequest(userId));
+
+  const handleCancelRequest = (userId: string) => changeFriendship(() => cancelFriendRequest(userId));
 
-    await loadData();
+  const handleAcceptRequest = (userId: string) => changeFriendship(() => acceptFriendRequest(userId));
+
+  const handleDeclineRequest = (userId: string) => changeFriendship(() => declineFriendRequest(userId));
+
+  const handleUnfriend = (profile: Profile) => {
+    if (!confirm(`Remove ${profile.username} from your friends?`)) return;
+    return changeFriendship(() => unfriend(profile.id));
+  };
+
+  const handleDismiss = async (userId: string) => {
+    if (!user) return;
+
+    setSuggestions(prev => prev.filter(s => s.id !== userId));
+    try {
+      await dismissSuggestion(user.id, userId);
+    } catch (err) {
+      console.error('Error dismissing suggestion:', err);
+      await loadSuggestions();
+    }
   };
 
-  const renderUser = (profile: Profile) => {
+  const renderUser = (profile: Profile | FriendSuggestion) => {
     const isFollowing = followingIds.has(profile.id);
+    const isRequested = requestedFollowIds.has(profile.id);
+    const isCloseFriend = closeFriendIds.has(profile.id);
     const isFriend = friendIds.has(profile.id);
     const isPending = pendingRequestIds.has(profile.id);
+    const suggestion = 'mutual_friend_count' in profile ? profile : null;
 
     return (
       <div key={profile.id} className="flex items-center justify-between p-4 bg-white rounded-lg shadow-sm hover:shadow-md transition-shadow">
         <div className="flex items-center gap-3">
-          <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-blue-600 rounded-full flex items-center justify-center text-white font-bold text-lg">
-            {profile.username[0].toUpperCase()}
-          </div>
+          <Avatar profile={profile} className="w-12 h-12 text-lg" />
           <div>
-            <p className="font-semibold text-gray-900">{profile.username}</p>
+            <UserLink username={profile.username} className="font-semibold text-gray-900">{profile.username}</UserLink>
             {profile.full_name && <p className="text-sm text-gray-500">{profile.full_name}</p>}
+            {suggestion && suggestionReason(suggestion) && (
+              <p className="text-xs text-gray-400 mt-0.5">{suggestionReason(suggestion)}</p>
+            )}
           </div>
         </div>
 
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
           <button
             onClick={() => handleFollow(profile.id)}
             className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
-              isFollowing
+              isFollowing || isRequested
                 ? 'bg-gray-200 text-gray-700 hover:bg-gray-300'
                 : 'bg-blue-600 text-white hover:bg-blue-700'
             }`}
+            title={isRequested ? 'Cancel follow request' : undefined}
           >
-            {isFollowing ? <UserCheck size={18} /> : <UserPlus size={18} />}
-            {isFollowing ? 'Following' : 'Follow'}
+            {isFollowing && <><UserCheck size={18} />Following</>}
+            {isRequested && <><Clock size={18} />Requested</>}
+            {!isFollowing && !isRequested && <><UserPlus size={18} />Follow</>}
           </button>
 
           {!isFriend && !isPending && (
@@ -222,10 +308,14 @@ export default function Friends() {
           )}
 
           {isPending && (
-            <div className="px-4 py-2 bg-gray-100 text-gray-600 rounded-lg font-medium flex items-center gap-2">
-              <UserCheck size={18} />
-              Pending
-            </div>
+            <button
+              onClick={() => handleCancelRequest(profile.id)}
+              className="px-4 py-2 bg-gray-100 text-gray-600 rounded-lg font-medium hover:bg-gray-200 transition-colors flex items-center gap-2"
+              title="Cancel friend request"
+            >
+              <X size={18} />
+              Cancel Request
+            </button>
           )}
 
           {isFriend && (
@@ -234,17 +324,70 @@ export default function Friends() {
               Friends
             </div>
           )}
+
+          {isFriend && (
+            <button
+              onClick={() => openMessages(profile.id)}
+              className="px-4 py-2 bg-blue-50 text-blue-700 rounded-lg font-medium hover:bg-blue-100 transition-colors flex items-center gap-2"
+            >
+              <MessageSquare size={18} />
+              Message
+            </button>
+          )}
+
+          {isFriend && (
+            <button
+              onClick={() => toggleCloseFriend(profile.id)}
+              className={`p-2 rounded-lg transition-colors ${
+                isCloseFriend
+                  ? 'text-green-600 bg-green-50 hover:bg-green-100'
+                  : 'text-gray-400 hover:text-green-600 hover:bg-green-50'
+              }`}
+              title={isCloseFriend ? 'Remove from close friends' : 'Add to close friends'}
+            >
+              <Star size={18} fill={isCloseFriend ? 'currentColor' : 'none'} />
+            </button>
+          )}
+
+          {isFriend && (
+            <button
+              onClick={() => handleUnfriend(profile)}
+              className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              title="Unfriend"
+            >
+              <UserMinus size={18} />
+            </button>
+          )}
+
+          {suggestion && (
+            <button
+              onClick={() => handleDismiss(profile.id)}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Don't suggest again"
+            >
+              <X size={18} />
+            </button>
+          )}
         </div>
       </div>
     );
   };
 
+  const openMessages = async (userId: string) => {
+    try {
+      await openDirectConversation(userId);
+    } catch (err) {
+      console.error('Error opening conversation:', err);
+      alert(err instanceof Error ? err.message : 'Failed to open conversation');
+    }
+  };
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="bg-white rounded-xl shadow-md p-6 mb-6">
         <div className="flex gap-2 border-b pb-4">
           <button
-            onClick={() => setActiveTab('discover')}
+            onClick={() => navigate(paths.friends('discover'))}
             className={`px-4 py-2 rounded-lg font-medium transition-colors ${
               activeTab === 'discover'
                 ? 'bg-blue-600 text-white'
@@ -254,7 +397,7 @@ export default function Friends() {
             Discover
           </button>
           <button
-            onClick={() => setActiveTab('friends')}
+            onClick={() => navigate(paths.friends('friends'))}
             className={`px-4 py-2 rounded-lg font-medium transition-colors ${
               activeTab === 'friends'
                 ? 'bg-blue-600 text-white'
@@ -264,7 +407,7 @@ export default function Friends() {
             Friends ({friends.length})
           </button>
           <button
-            onClick={() => setActiveTab('following')}
+            onClick={() => navigate(paths.friends('following'))}
             className={`px-4 py-2 rounded-lg font-medium transition-colors ${
               activeTab === 'following'
                 ? 'bg-blue-600 text-white'
@@ -274,7 +417,7 @@ export default function Friends() {
             Following ({followingIds.size})
           </button>
           <button
-            onClick={() => setActiveTab('requests')}
+            onClick={() => navigate(paths.friends('requests'))}
             className={`px-4 py-2 rounded-lg font-medium transition-colors relative ${
               activeTab === 'requests'
                 ? 'bg-blue-600 text-white'
@@ -282,9 +425,9 @@ export default function Friends() {
             }`}
           >
             Requests
-            {friendRequests.length > 0 && (
+            {friendRequests.length + followRequests.length > 0 && (
               <span className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
-                {friendRequests.length}
+                {friendRequests.length + followRequests.length}
               </span>
             )}
           </button>
@@ -297,14 +440,28 @@ export default function Friends() {
         </div>
       ) : (
         <div className="space-y-3">
-          {activeTab === 'discover' && users.map(renderUser)}
+          {activeTab === 'discover' && (
+            suggestions.length === 0 ? (
+              <div className="bg-white rounded-lg p-12 text-center">
+                <p className="text-gray-500">No suggestions right now. Check back later!</p>
+              </div>
+            ) : suggestions.map(renderUser)
+          )}
 
           {activeTab === 'friends' && (
             friends.length === 0 ? (
               <div className="bg-white rounded-lg p-12 text-center">
                 <p className="text-gray-500">No friends yet. Start adding friends!</p>
               </div>
-            ) : friends.map(renderUser)
+            ) : (
+              <>
+                <p className="text-sm text-gray-500 flex items-center gap-1.5 px-1">
+                  <Star size={14} className="text-green-600" />
+                  Star friends to add them to your close friends ({friends.filter(f => closeFriendIds.has(f.id)).length}), who can see your close-friends stories.
+                </p>
+                {friends.map(renderUser)}
+              </>
+            )
           )}
 
           {activeTab === 'following' && (
@@ -315,11 +472,9 @@ export default function Friends() {
             ) : following.map(profile => (
               <div key={profile.id} className="flex items-center justify-between p-4 bg-white rounded-lg shadow-sm">
                 <div className="flex items-center gap-3">
-                  <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-blue-600 rounded-full flex items-center justify-center text-white font-bold text-lg">
-                    {profile.username[0].toUpperCase()}
-                  </div>
+                  <Avatar profile={profile} className="w-12 h-12 text-lg" />
                   <div>
-                    <p className="font-semibold text-gray-900">{profile.username}</p>
+                    <UserLink username={profile.username} className="font-semibold text-gray-900">{profile.username}</UserLink>
                     {profile.full_name && <p className="text-sm text-gray-500">{profile.full_name}</p>}
                   </div>
                 </div>
@@ -335,40 +490,78 @@ export default function Friends() {
           )}
 
           {activeTab === 'requests' && (
-            friendRequests.length === 0 ? (
+            friendRequests.length === 0 && sentRequests.length === 0 && followRequests.length === 0 ? (
               <div className="bg-white rounded-lg p-12 text-center">
-                <p className="text-gray-500">No pending friend requests.</p>
+                <p className="text-gray-500">No pending requests.</p>
               </div>
             ) : friendRequests.map(request => (
               <div key={request.id} className="flex items-center justify-between p-4 bg-white rounded-lg shadow-sm">
                 <div className="flex items-center gap-3">
-                  <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-blue-600 rounded-full flex items-center justify-center text-white font-bold text-lg">
-                    {request.profiles.username[0].toUpperCase()}
-                  </div>
+                  <Avatar profile={request.profiles} className="w-12 h-12 text-lg" />
                   <div>
-                    <p className="font-semibold text-gray-900">{request.profiles.username}</p>
+                    <UserLink username={request.profiles.username} className="font-semibold text-gray-900">{request.profiles.username}</UserLink>
                     {request.profiles.full_name && <p className="text-sm text-gray-500">{request.profiles.full_name}</p>}
                   </div>
                 </div>
                 <div className="flex gap-2">
                   <button
-                    onClick={() => handleAcceptRequest(request.id)}
+                    onClick={() => handleAcceptRequest(request.requested_by)}
                     className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors flex items-center gap-2"
                   >
                     <Check size={18} />
                     Accept
                   </button>
                   <button
-                    onClick={() => handleRejectRequest(request.id)}
+                    onClick={() => handleDeclineRequest(request.requested_by)}
                     className="px-4 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors flex items-center gap-2"
                   >
                     <X size={18} />
-                    Reject
+                    Decline
                   </button>
                 </div>
               </div>
             ))
           )}
+
+          {activeTab === 'requests' && followRequests.length > 0 && (
+            <>
+              <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide pt-3">Follow requests</h3>
+              {followRequests.map(request => request.profiles && (
+                <div key={request.id} className="flex items-center justify-between p-4 bg-white rounded-lg shadow-sm">
+                  <div className="flex items-center gap-3">
+                    <Avatar profile={request.profiles} className="w-12 h-12 text-lg" />
+                    <div>
+                      <UserLink username={request.profiles.username} className="font-semibold text-gray-900">{request.profiles.username}</UserLink>
+                      {request.profiles.full_name && <p className="text-sm text-gray-500">{request.profiles.full_name}</p>}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => respondToFollowRequest(request.follower_id, true)}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center gap-2"
+                    >
+                      <Check size={18} />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => respondToFollowRequest(request.follower_id, false)}
+                      className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors flex items-center gap-2"
+                    >
+                      <X size={18} />
+                      Decline
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+
+          {activeTab === 'requests' && sentRequests.length > 0 && (
+            <>
+              <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide pt-3">Sent requests</h3>
+              {sentRequests.map(request => request.profiles && renderUser(request.profiles))}
+            </>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,140 @@
+import { useState, useEffect, useRef, ReactNode } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { UploadKind, imageFromDataTransfer, useImageUpload } from '../lib/uploads';
+import { ImagePlus, X } from 'lucide-react';
+
+interface ImageDropzoneProps {
+  kind: UploadKind;
+  value: string;
+  onChange: (url: string) => void;
+  onUploadingChange?: (uploading: boolean) => void;
+  className?: string;
+  children?: ReactNode;
+}
+
+// Image field that uploads as soon as a file is chosen, dropped onto it or
+// pasted anywhere on the page while it's shown. `children` are drawn over
+// the uploaded image (e.g. a caption preview).
+export default function ImageDropzone({
+  kind,
+  value,
+  onChange,
+  onUploadingChange,
+  className = 'h-48',
+  children,
+}: ImageDropzoneProps) {
+  const [dragging, setDragging] = useState(false);
+  const [preview, setPreview] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
+  const { upload, progress, uploading, error } = useImageUpload(kind, user?.id);
+
+  useEffect(() => {
+    onUploadingChange?.(uploading);
+  }, [uploading, onUploadingChange]);
+
+  const handleFile = async (file: File) => {
+    const localUrl = URL.createObjectURL(file);
+    setPreview(localUrl);
+    const url = await upload(file);
+    setPreview(null);
+    URL.revokeObjectURL(localUrl);
+    if (url) onChange(url);
+  };
+
+  // Paste works from anywhere, so users don't have to focus the field first
+  const handleFileRef = useRef(handleFile);
+  handleFileRef.current = handleFile;
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const file = imageFromDataTransfer(e.clipboardData);
+      if (!file) return;
+      e.preventDefault();
+      handleFileRef.current(file);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const shown = preview || value;
+
+  return (
+    <div>
+      <div
+        onClick={() => !uploading && inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          const file = imageFromDataTransfer(e.dataTransfer);
+          if (file && !uploading) handleFile(file);
+        }}
+        className={`relative w-full rounded-xl overflow-hidden cursor-pointer transition-colors ${className} ${
+          shown
+            ? 'bg-gray-900'
+            : `border-2 border-dashed flex flex-col items-center justify-center text-center px-4 ${
+                dragging ? 'border-blue-500 bg-blue-50 text-blue-600' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+              }`
+        }`}
+      >
+        {shown ? (
+          <>
+            <img src={shown} alt="" className={`w-full h-full object-cover ${preview ? 'opacity-60' : ''}`} />
+            {!preview && children}
+            {!uploading && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onChange('');
+                }}
+                className="absolute top-2 right-2 p-1.5 bg-black/60 text-white rounded-full hover:bg-black/80 transition-colors"
+                title="Remove image"
+              >
+                <X size={16} />
+              </button>
+            )}
+            {dragging && <div className="absolute inset-0 border-4 border-blue-500 rounded-xl" />}
+          </>
+        ) : (
+          <>
+            <ImagePlus size={32} className="mb-2" />
+            <p className="text-sm font-medium">Drop a photo here, paste one, or click to browse</p>
+          </>
+        )}
+
+        {progress !== null && (
+          <div className="absolute inset-x-0 bottom-0 p-3 bg-gradient-to-t from-black/60 to-transparent">
+            <div className="h-1.5 bg-white/30 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-white transition-[width] duration-150"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+            <p className="text-xs text-white mt-1 text-center">Uploading... {progress}%</p>
+          </div>
+        )}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) handleFile(file);
+        }}
+      />
+
+      {error && (
+        <p className="text-sm text-red-600 mt-2">{error}</p>
+      )}
+    </div>
+  );
+}
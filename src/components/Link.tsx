@@ -0,0 +1,26 @@
+import { ReactNode, MouseEvent } from 'react';
+import { navigate } from '../lib/router';
+
+interface LinkProps {
+  to: string;
+  children: ReactNode;
+  className?: string;
+  title?: string;
+}
+
+// An in-app link: a real anchor, so it can be opened in a new tab or
+// copied, that navigates without a page load on a plain click.
+export default function Link({ to, children, className, title }: LinkProps) {
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    e.stopPropagation();
+    navigate(to);
+  };
+
+  return (
+    <a href={to} onClick={handleClick} className={className} title={title}>
+      {children}
+    </a>
+  );
+}
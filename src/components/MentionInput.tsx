@@ -0,0 +1,136 @@
+import { useState, useEffect, useRef } from 'react';
+import { Profile } from '../lib/supabase';
+import { partialMentionAt } from '../lib/richText';
+import { useProfileSuggestions } from '../lib/search';
+import Avatar from './Avatar';
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  multiline?: boolean;
+  rows?: number;
+  placeholder?: string;
+  className?: string;
+  wrapperClassName?: string;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+// A text input (or textarea) that suggests usernames while an @mention is
+// being typed. Arrow keys move through the suggestions; Enter or Tab
+// completes the mention and Escape dismisses the list.
+export default function MentionInput({
+  value,
+  onChange,
+  multiline = false,
+  rows,
+  placeholder,
+  className,
+  wrapperClassName = '',
+  disabled,
+  autoFocus,
+}: MentionInputProps) {
+  const ref = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  // Caret position while focused, null otherwise
+  const [caret, setCaret] = useState<number | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const partial = caret === null ? null : partialMentionAt(value, caret);
+  const query = partial?.query ?? '';
+  const { suggestions } = useProfileSuggestions(query);
+
+  // Search also matches bios; only names make sense to complete
+  const matches = suggestions.filter(p =>
+    p.username.toLowerCase().includes(query.toLowerCase()) ||
+    p.full_name?.toLowerCase().includes(query.toLowerCase())
+  );
+  const open = !!partial && !!query && !dismissed && matches.length > 0;
+
+  useEffect(() => {
+    setHighlighted(0);
+  }, [query]);
+
+  const trackCaret = () => setCaret(ref.current?.selectionStart ?? null);
+
+  const complete = (profile: Profile) => {
+    if (!partial || caret === null) return;
+    const before = value.slice(0, partial.start) + `@${profile.username} `;
+    onChange(before + value.slice(caret));
+    requestAnimationFrame(() => {
+      ref.current?.focus();
+      ref.current?.setSelectionRange(before.length, before.length);
+      setCaret(before.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!open) return;
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlighted((highlighted + 1) % matches.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlighted((highlighted - 1 + matches.length) % matches.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        complete(matches[Math.min(highlighted, matches.length - 1)]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setDismissed(true);
+        break;
+    }
+  };
+
+  const fieldProps = {
+    ref,
+    value,
+    onChange: (e: React.ChangeEvent<HTMLInputElement & HTMLTextAreaElement>) => {
+      onChange(e.target.value);
+      setDismissed(false);
+      setCaret(e.target.selectionStart);
+    },
+    onSelect: trackCaret,
+    onFocus: trackCaret,
+    onBlur: () => setCaret(null),
+    onKeyDown: handleKeyDown,
+    placeholder,
+    className,
+    disabled,
+    autoFocus,
+  };
+
+  return (
+    <div className={`relative ${wrapperClassName}`}>
+      {multiline ? <textarea {...fieldProps} rows={rows} /> : <input type="text" {...fieldProps} />}
+
+      {open && (
+        <div className="absolute left-0 top-full mt-1 w-64 bg-white rounded-xl shadow-xl border z-20 overflow-hidden">
+          {matches.map((profile, index) => (
+            <button
+              key={profile.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => complete(profile)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`w-full flex items-center gap-3 px-3 py-2 text-left transition-colors ${
+                highlighted === index ? 'bg-blue-50' : ''
+              }`}
+            >
+              <Avatar profile={profile} className="w-7 h-7 text-xs" />
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-gray-900 truncate">{profile.username}</p>
+                {profile.full_name && <p className="text-xs text-gray-500 truncate">{profile.full_name}</p>}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
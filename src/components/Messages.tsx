@@ -0,0 +1,394 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase, InboxConversation, Message, Profile } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { subscribeToTables } from '../lib/realtime';
+import { fetchFriendProfiles } from '../lib/social';
+import {
+  MAX_GROUP_MEMBERS,
+  conversationName,
+  createGroupConversation,
+  fetchInbox,
+  markConversationRead,
+} from '../lib/messages';
+import { navigate, paths } from '../lib/router';
+import Avatar from './Avatar';
+import { MessageSquare, Send, Users, X, Check } from 'lucide-react';
+
+interface MessagesProps {
+  conversationId: string | null;
+}
+
+const formatTime = (dateStr: string) => {
+  const date = new Date(dateStr);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+export default function Messages({ conversationId: selectedId }: MessagesProps) {
+  const [inbox, setInbox] = useState<InboxConversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [groupOpen, setGroupOpen] = useState(false);
+  const { user } = useAuth();
+
+  const loadInbox = useCallback(async () => {
+    try {
+      setInbox(await fetchInbox());
+    } catch (err) {
+      console.error('Error loading inbox:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInbox();
+    return subscribeToTables({
+      messages: () => loadInbox(),
+      conversations: () => loadInbox(),
+    });
+  }, [loadInbox]);
+
+  // A conversation opened by link may be newer than the loaded inbox
+  useEffect(() => {
+    if (selectedId) loadInbox();
+  }, [selectedId, loadInbox]);
+
+  const selected = inbox.find(c => c.id === selectedId) || null;
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="bg-white rounded-xl shadow-md overflow-hidden flex h-[calc(100vh-10rem)] min-h-[480px]">
+        {/* Inbox */}
+        <div className="w-80 border-r flex flex-col flex-shrink-0">
+          <div className="flex items-center justify-between px-4 py-4 border-b">
+            <h2 className="text-lg font-bold text-gray-900">Messages</h2>
+            <button
+              onClick={() => setGroupOpen(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            >
+              <Users size={16} />
+              New group
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : inbox.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center px-6 py-12">
+                No conversations yet. Message a friend from the Friends tab.
+              </p>
+            ) : (
+              inbox.map(conversation => (
+                <button
+                  key={conversation.id}
+                  onClick={() => navigate(paths.messages(conversation.id))}
+                  className={`w-full flex items-center gap-3 px-4 py-3 text-left transition-colors ${
+                    conversation.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  {conversation.is_group ? (
+                    <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-blue-600 rounded-full flex items-center justify-center text-white flex-shrink-0">
+                      <Users size={20} />
+                    </div>
+                  ) : (
+                    <Avatar profile={conversation.participants[0]} className="w-12 h-12 text-lg flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-baseline justify-between gap-2">
+                      <p className={`truncate ${conversation.unread_count > 0 ? 'font-bold text-gray-900' : 'font-semibold text-gray-800'}`}>
+                        {conversationName(conversation)}
+                      </p>
+                      {conversation.last_message && (
+                        <span className="text-xs text-gray-400 flex-shrink-0">
+                          {formatTime(conversation.last_message.created_at)}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className={`text-sm truncate ${conversation.unread_count > 0 ? 'text-gray-900 font-medium' : 'text-gray-500'}`}>
+                        {conversation.last_message
+                          ? `${conversation.last_message.sender_id === user?.id ? 'You: ' : ''}${conversation.last_message.content}`
+                          : 'No messages yet'}
+                      </p>
+                      {conversation.unread_count > 0 && (
+                        <span className="min-w-5 h-5 px-1.5 bg-blue-600 text-white text-xs rounded-full flex items-center justify-center flex-shrink-0">
+                          {conversation.unread_count}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Thread */}
+        {selected ? (
+          <ConversationView key={selected.id} conversation={selected} onRead={loadInbox} />
+        ) : (
+          <div className="flex-1 flex flex-col items-center justify-center text-gray-400 gap-3">
+            <MessageSquare size={48} />
+            <p>Select a conversation</p>
+          </div>
+        )}
+      </div>
+
+      {groupOpen && (
+        <NewGroupDialog
+          onClose={() => setGroupOpen(false)}
+          onCreated={(conversationId) => {
+            setGroupOpen(false);
+            navigate(paths.messages(conversationId));
+            loadInbox();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ConversationViewProps {
+  conversation: InboxConversation;
+  onRead: () => void;
+}
+
+function ConversationView({ conversation, onRead }: ConversationViewProps) {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+  const { user } = useAuth();
+
+  const loadMessages = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*, profiles!messages_sender_id_fkey(*)')
+      .eq('conversation_id', conversation.id)
+      .order('created_at', { ascending: true });
+
+    if (error) console.error('Error loading messages:', error);
+    setMessages(data || []);
+  }, [conversation.id]);
+
+  const markRead = useCallback(async () => {
+    if (!user) return;
+    await markConversationRead(conversation.id);
+    onRead();
+  }, [conversation.id, user, onRead]);
+
+  useEffect(() => {
+    loadMessages().then(markRead);
+    return subscribeToTables({
+      messages: {
+        filter: `conversation_id=eq.${conversation.id}`,
+        onChange: ({ eventType, new: row }) => {
+          if (eventType !== 'INSERT') return;
+          loadMessages();
+          if (row.sender_id !== user?.id) markRead();
+        },
+      },
+    });
+  }, [conversation.id, user, loadMessages, markRead]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || !user || sending) return;
+
+    setSending(true);
+    try {
+      const { error } = await supabase
+        .from('messages')
+        .insert({
+          conversation_id: conversation.id,
+          sender_id: user.id,
+          content: text.trim(),
+        });
+
+      if (error) throw error;
+      setText('');
+      await loadMessages();
+    } catch (error) {
+      console.error('Error sending message:', error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-w-0">
+      <div className="px-5 py-4 border-b">
+        <p className="font-semibold text-gray-900 truncate">{conversationName(conversation)}</p>
+        {conversation.is_group && (
+          <p className="text-xs text-gray-500 truncate">
+            {conversation.participants.length + 1} members
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4 space-y-2 bg-gray-50">
+        {messages.map((message, idx) => {
+          const isMine = message.sender_id === user?.id;
+          const showSender = conversation.is_group && !isMine && messages[idx - 1]?.sender_id !== message.sender_id;
+          return (
+            <div key={message.id} className={`flex flex-col ${isMine ? 'items-end' : 'items-start'}`}>
+              {showSender && (
+                <p className="text-xs text-gray-500 mb-0.5 ml-3">{message.profiles?.username}</p>
+              )}
+              <div
+                className={`max-w-[70%] px-4 py-2 rounded-2xl break-words whitespace-pre-wrap ${
+                  isMine ? 'bg-blue-600 text-white rounded-br-sm' : 'bg-white text-gray-800 shadow-sm rounded-bl-sm'
+                }`}
+                title={new Date(message.created_at).toLocaleString()}
+              >
+                {message.content}
+              </div>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSend} className="flex gap-2 p-4 border-t">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Write a message..."
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          disabled={sending}
+        />
+        <button
+          type="submit"
+          disabled={!text.trim() || sending}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Send size={20} />
+        </button>
+      </form>
+    </div>
+  );
+}
+
+interface NewGroupDialogProps {
+  onClose: () => void;
+  onCreated: (conversationId: string) => void;
+}
+
+function NewGroupDialog({ onClose, onCreated }: NewGroupDialogProps) {
+  const [friends, setFriends] = useState<Profile[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [title, setTitle] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+    fetchFriendProfiles(user.id)
+      .then(setFriends)
+      .catch(err => console.error('Error loading friends:', err));
+  }, [user]);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else if (next.size < MAX_GROUP_MEMBERS - 1) next.add(id);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    if (selected.size < 2) {
+      setError('Pick at least two friends');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      onCreated(await createGroupConversation(title.trim(), Array.from(selected)));
+    } catch (err) {
+      console.error('Error creating group:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create group');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-md overflow-hidden">
+        <div className="flex items-center justify-between px-5 py-4 border-b">
+          <h3 className="text-lg font-bold text-gray-900">New group</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={22} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Group name (optional)"
+            maxLength={60}
+            className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          />
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">
+              Members ({selected.size}/{MAX_GROUP_MEMBERS - 1})
+            </p>
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {friends.length === 0 ? (
+                <p className="text-sm text-gray-500 py-4 text-center">Groups can only include your friends.</p>
+              ) : friends.map(friend => (
+                <button
+                  key={friend.id}
+                  onClick={() => toggle(friend.id)}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Avatar profile={friend} className="w-9 h-9 text-sm" />
+                  <span className="flex-1 text-left font-medium text-gray-900">{friend.username}</span>
+                  <span className={`w-5 h-5 rounded-full border-2 flex items-center justify-center ${
+                    selected.has(friend.id) ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300'
+                  }`}>
+                    {selected.has(friend.id) && <Check size={12} />}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleCreate}
+            disabled={loading || selected.size < 2}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Users size={18} />
+            {loading ? 'Creating...' : 'Create group'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
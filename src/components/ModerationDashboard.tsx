@@ -0,0 +1,343 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ModerationLogEntry, ModerationQueueItem, ReportStatus } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { paths } from '../lib/router';
+import {
+  SUSPENSION_OPTIONS,
+  dismissReport,
+  fetchModerationLog,
+  fetchModerationQueue,
+  isModerator,
+  isSuspended,
+  moderateContent,
+  reasonLabel,
+  suspendUser,
+  suspensionEnd,
+  unsuspendUser,
+} from '../lib/moderation';
+import Avatar from './Avatar';
+import Link from './Link';
+import { Shield, EyeOff, Eye, Trash2, Ban, XCircle, ExternalLink } from 'lucide-react';
+
+type DashboardTab = ReportStatus | 'log';
+
+const TABS: { value: DashboardTab; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'dismissed', label: 'Dismissed' },
+  { value: 'log', label: 'Audit log' },
+];
+
+export default function ModerationDashboard() {
+  const [tab, setTab] = useState<DashboardTab>('open');
+  const [reports, setReports] = useState<ModerationQueueItem[]>([]);
+  const [log, setLog] = useState<ModerationLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { profile } = useAuth();
+
+  const canModerate = isModerator(profile);
+
+  const load = useCallback(async () => {
+    if (!canModerate) return;
+    try {
+      if (tab === 'log') {
+        setLog(await fetchModerationLog());
+      } else {
+        setReports(await fetchModerationQueue(tab));
+      }
+    } catch (err) {
+      console.error('Error loading moderation data:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [canModerate, tab]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [load]);
+
+  if (!canModerate) {
+    return (
+      <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+        You don't have access to moderation.
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+          <Shield size={24} />
+          Moderation
+        </h2>
+        <div className="flex gap-2">
+          {TABS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                tab === value
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {label}
+              {value === 'open' && tab === 'open' && !loading && ` (${reports.length})`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : tab === 'log' ? (
+        log.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+            No moderation actions yet.
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-md divide-y">
+            {log.map(entry => (
+              <div key={entry.id} className="p-4">
+                <p className="text-sm text-gray-900">{describeAction(entry)}</p>
+                {entry.note && <p className="text-sm text-gray-600 mt-1">"{entry.note}"</p>}
+                <p className="text-xs text-gray-400 mt-1">{new Date(entry.created_at).toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+        )
+      ) : reports.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+          {tab === 'open' ? 'Nothing to review. 🎉' : `No ${tab} reports.`}
+        </div>
+      ) : (
+        reports.map(report => <ReportCard key={report.id} report={report} onChanged={load} />)
+      )}
+    </div>
+  );
+}
+
+function describeAction(entry: ModerationLogEntry) {
+  const moderator = entry.moderator?.username ?? 'A moderator';
+  const user = entry.target_user?.username ?? 'a deleted user';
+  const target = entry.target_type === 'profile' ? `${user}'s profile` : `a ${entry.target_type} by ${user}`;
+  switch (entry.action) {
+    case 'hide':
+      return `${moderator} hid ${target}`;
+    case 'unhide':
+      return `${moderator} restored ${target}`;
+    case 'remove':
+      return `${moderator} removed ${target}`;
+    case 'suspend':
+      return `${moderator} suspended ${user}`;
+    case 'unsuspend':
+      return `${moderator} lifted ${user}'s suspension`;
+    case 'dismiss':
+      return `${moderator} dismissed a report on ${target}`;
+  }
+}
+
+interface ReportCardProps {
+  report: ModerationQueueItem;
+  onChanged: () => Promise<void>;
+}
+
+function ReportCard({ report, onChanged }: ReportCardProps) {
+  const [note, setNote] = useState('');
+  const [suspendDays, setSuspendDays] = useState<string>('7');
+  const [busy, setBusy] = useState(false);
+
+  const { target_type: targetType, target_user: targetUser } = report;
+  const isContent = targetType !== 'profile';
+  const suspended = isSuspended(targetUser);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      await onChanged();
+    } catch (err) {
+      console.error('Error moderating:', err);
+      alert(err instanceof Error ? err.message : 'Moderation action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const moderate = (action: 'hide' | 'unhide' | 'remove') => {
+    if (targetType === 'profile') return;
+    if (action === 'remove' && !confirm(`Permanently delete this ${targetType}?`)) return;
+    run(() => moderateContent(targetType, report.target_id, action, note));
+  };
+
+  const suspend = () => {
+    const days = suspendDays === 'indefinite' ? null : Number(suspendDays);
+    run(() => suspendUser(targetUser.id, days, note));
+  };
+
+  const viewPath = targetType === 'profile'
+    ? paths.user(targetUser.username)
+    : report.target_post_id
+      ? paths.post(report.target_post_id)
+      : null;
+
+  let state = 'Live';
+  if (!report.target_exists) state = 'Removed';
+  else if (report.target_hidden_at) state = 'Hidden';
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 mb-4">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <span className="px-2 py-0.5 bg-red-100 text-red-700 text-xs font-semibold rounded-full">
+              {reasonLabel(report.reason)}
+            </span>
+            <span className="text-sm text-gray-500 capitalize">{targetType}</span>
+            {isContent && (
+              <span className={`text-xs font-medium ${state === 'Live' ? 'text-green-600' : 'text-gray-500'}`}>
+                · {state}
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            Reported by {report.reporter.username} · {new Date(report.created_at).toLocaleString()}
+          </p>
+        </div>
+        {viewPath && report.target_exists && !report.target_hidden_at && (
+          <Link
+            to={viewPath}
+            className="text-sm text-blue-600 hover:underline flex items-center gap-1 flex-shrink-0"
+          >
+            View
+            <ExternalLink size={14} />
+          </Link>
+        )}
+      </div>
+
+      <Link to={paths.user(targetUser.username)} className="flex items-center gap-2 mb-3">
+        <Avatar profile={targetUser} className="w-8 h-8 text-sm" />
+        <span className="font-semibold text-gray-900 hover:text-blue-600">{targetUser.username}</span>
+        {suspended && (
+          <span className="px-2 py-0.5 bg-amber-100 text-amber-700 text-xs font-semibold rounded-full">
+            Suspended {suspensionEnd(targetUser)}
+          </span>
+        )}
+      </Link>
+
+      <div className="bg-gray-50 rounded-lg p-4 mb-3">
+        {report.snapshot_content && (
+          <p className="text-gray-800 whitespace-pre-wrap break-words">{report.snapshot_content}</p>
+        )}
+        {report.snapshot_image_url && (
+          <img src={report.snapshot_image_url} alt="" className="mt-2 max-h-48 rounded-lg" />
+        )}
+        {!report.snapshot_content && !report.snapshot_image_url && (
+          <p className="text-sm text-gray-400">No text or image</p>
+        )}
+      </div>
+
+      {report.details && (
+        <p className="text-sm text-gray-600 mb-4">
+          <span className="font-medium">Reporter's note:</span> {report.details}
+        </p>
+      )}
+
+      {report.status !== 'open' && report.resolved_at && (
+        <p className="text-xs text-gray-400 mb-4">
+          {report.status === 'resolved' ? 'Resolved' : 'Dismissed'} {new Date(report.resolved_at).toLocaleString()}
+        </p>
+      )}
+
+      <div className="border-t pt-4 space-y-3">
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note for the audit log (optional)"
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          disabled={busy}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          {isContent && report.target_exists && !report.target_hidden_at && (
+            <button
+              onClick={() => moderate('hide')}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+            >
+              <EyeOff size={16} />
+              Hide
+            </button>
+          )}
+          {isContent && report.target_exists && report.target_hidden_at && (
+            <button
+              onClick={() => moderate('unhide')}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+            >
+              <Eye size={16} />
+              Unhide
+            </button>
+          )}
+          {isContent && report.target_exists && (
+            <button
+              onClick={() => moderate('remove')}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm bg-red-50 text-red-700 rounded-lg font-medium hover:bg-red-100 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+            >
+              <Trash2 size={16} />
+              Remove
+            </button>
+          )}
+
+          {suspended ? (
+            <button
+              onClick={() => run(() => unsuspendUser(targetUser.id, note))}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm bg-amber-50 text-amber-700 rounded-lg font-medium hover:bg-amber-100 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+            >
+              <Ban size={16} />
+              Lift suspension
+            </button>
+          ) : (
+            <div className="flex items-center gap-1">
+              <select
+                value={suspendDays}
+                onChange={(e) => setSuspendDays(e.target.value)}
+                className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg"
+                disabled={busy}
+              >
+                {SUSPENSION_OPTIONS.map(option => (
+                  <option key={option.label} value={option.days ?? 'indefinite'}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={suspend}
+                disabled={busy}
+                className="px-3 py-1.5 text-sm bg-amber-50 text-amber-700 rounded-lg font-medium hover:bg-amber-100 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+              >
+                <Ban size={16} />
+                Suspend {targetUser.username}
+              </button>
+            </div>
+          )}
+
+          {report.status === 'open' && (
+            <button
+              onClick={() => run(() => dismissReport(report.id, note))}
+              disabled={busy}
+              className="ml-auto px-3 py-1.5 text-sm text-gray-600 rounded-lg font-medium hover:bg-gray-100 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+            >
+              <XCircle size={16} />
+              Dismiss
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import AvatarUpload from './AvatarUpload';
+import ProfileEditor from './ProfileEditor';
+import StoryHighlights from './StoryHighlights';
+import { Pencil, Lock } from 'lucide-react';
+
+export default function MyProfile() {
+  const [editing, setEditing] = useState(false);
+  const { profile, updateProfile } = useAuth();
+
+  if (!profile) return null;
+
+  const handleAvatarChange = async (url: string) => {
+    try {
+      await updateProfile({ avatar_url: url });
+    } catch (err) {
+      console.error('Error saving avatar:', err);
+      alert('Failed to save avatar');
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-xl shadow-md p-8">
+        {editing ? (
+          <>
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">Edit profile</h2>
+            <ProfileEditor profile={profile} onDone={() => setEditing(false)} />
+          </>
+        ) : (
+          <>
+            <div className="flex items-center gap-6 mb-6">
+              <AvatarUpload profile={profile} onChange={handleAvatarChange} />
+              <div className="flex-1">
+                <h2 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
+                  {profile.username}
+                  {profile.is_private && <Lock size={20} className="text-gray-400" aria-label="Private account" />}
+                </h2>
+                {profile.full_name && <p className="text-xl text-gray-600">{profile.full_name}</p>}
+              </div>
+              <button
+                onClick={() => setEditing(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors self-start"
+              >
+                <Pencil size={16} />
+                Edit profile
+              </button>
+            </div>
+
+            {profile.bio && (
+              <div className="mb-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Bio</h3>
+                <p className="text-gray-700">{profile.bio}</p>
+              </div>
+            )}
+
+            <StoryHighlights user={profile} />
+
+            <div className="border-t pt-6">
+              <p className="text-sm text-gray-500">
+                Member since {new Date(profile.created_at).toLocaleDateString()}
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  NotificationGroup,
+  describeGroup,
+  groupNotifications,
+  markAllNotificationsRead,
+  markNotificationsRead,
+  useNotifications,
+} from '../lib/notifications';
+import { reactionInfo } from '../lib/reactions';
+import Avatar from './Avatar';
+import { Bell, Check, Eye, MessageCircle, UserPlus, Users } from 'lucide-react';
+
+interface NotificationBellProps {
+  onSelect: (group: NotificationGroup) => void;
+}
+
+const timeAgo = (dateStr: string) => {
+  const diff = Date.now() - new Date(dateStr).getTime();
+  const mins = Math.floor(diff / 60000);
+  if (mins < 1) return 'just now';
+  if (mins < 60) return `${mins}m ago`;
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+function GroupIcon({ group }: { group: NotificationGroup }) {
+  const className = 'absolute -bottom-1 -right-1 w-5 h-5 rounded-full flex items-center justify-center text-white text-[10px]';
+  switch (group.type) {
+    case 'reaction':
+      return (
+        <span className={`${className} bg-white shadow`}>
+          {reactionInfo(group.latest.reaction_type || 'like').emoji}
+        </span>
+      );
+    case 'comment':
+    case 'reply':
+      return <span className={`${className} bg-green-500`}><MessageCircle size={11} /></span>;
+    case 'follow':
+    case 'follow_request':
+    case 'follow_accept':
+      return <span className={`${className} bg-blue-500`}><UserPlus size={11} /></span>;
+    case 'story_view':
+      return <span className={`${className} bg-pink-500`}><Eye size={11} /></span>;
+    case 'story_reply':
+      return <span className={`${className} bg-pink-500`}><MessageCircle size={11} /></span>;
+    default:
+      return <span className={`${className} bg-indigo-500`}><Users size={11} /></span>;
+  }
+}
+
+export default function NotificationBell({ onSelect }: NotificationBellProps) {
+  const [open, setOpen] = useState(false);
+  const { user } = useAuth();
+  const { notifications, refresh } = useNotifications(user?.id);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const groups = groupNotifications(notifications);
+  const unreadCount = notifications.filter(n => !n.read_at).length;
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const markGroupRead = async (group: NotificationGroup) => {
+    await markNotificationsRead(group.notifications.filter(n => !n.read_at).map(n => n.id));
+    await refresh();
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!user) return;
+    await markAllNotificationsRead(user.id);
+    await refresh();
+  };
+
+  const handleSelect = (group: NotificationGroup) => {
+    if (group.unread) markGroupRead(group);
+    setOpen(false);
+    onSelect(group);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`relative p-2 rounded-lg transition-colors ${
+          open ? 'bg-blue-50 text-blue-600' : 'text-gray-600 hover:bg-gray-100'
+        }`}
+        title="Notifications"
+      >
+        <Bell size={20} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-xl shadow-xl border z-50 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <h3 className="font-bold text-gray-900">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-[28rem] overflow-y-auto">
+            {groups.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <Bell size={40} className="mx-auto mb-3 text-gray-300" />
+                <p>No notifications yet</p>
+              </div>
+            ) : (
+              groups.map(group => (
+                <div
+                  key={group.key}
+                  onClick={() => handleSelect(group)}
+                  className={`flex items-start gap-3 px-4 py-3 cursor-pointer transition-colors ${
+                    group.unread ? 'bg-blue-50 hover:bg-blue-100' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="relative flex-shrink-0">
+                    <Avatar profile={group.actors[0]} className="w-10 h-10" />
+                    <GroupIcon group={group} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-800">{describeGroup(group)}</p>
+                    <p className={`text-xs mt-0.5 ${group.unread ? 'text-blue-600 font-medium' : 'text-gray-500'}`}>
+                      {timeAgo(group.latest.created_at)}
+                    </p>
+                  </div>
+                  {group.unread && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        markGroupRead(group);
+                      }}
+                      className="p-1 text-blue-600 hover:bg-blue-200 rounded-full transition-colors flex-shrink-0"
+                      title="Mark as read"
+                    >
+                      <Check size={16} />
+                    </button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,94 +1,78 @@
-import { useState, useEffect } from 'react';
-import { supabase, Post as PostType, Comment as CommentType, Profile } from '../lib/supabase';
+import { useState, useRef } from 'react';
+import { supabase, FeedPost, ReactionType } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Heart, MessageCircle, Trash2, Send } from 'lucide-react';
+import { feedStore, useFeedPost } from '../lib/feed';
+import { REACTIONS, reactionInfo, topReactions, withReaction } from '../lib/reactions';
+import { paths } from '../lib/router';
+import { audienceLabel } from '../lib/audience';
+import AudienceIcon from './AudienceIcon';
+import Avatar from './Avatar';
+import UserLink from './UserLink';
+import Link from './Link';
+import RichText from './RichText';
+import { ThumbsUp, MessageCircle, Trash2, Pencil, Flag } from 'lucide-react';
+import PostHistory from './PostHistory';
+import CommentThread from './CommentThread';
+import ReactionsBreakdown from './ReactionsBreakdown';
+import ReportDialog from './ReportDialog';
 
 interface PostProps {
-  post: PostType;
+  post: FeedPost;
   onDelete: () => void;
 }
 
-export default function Post({ post, onDelete }: PostProps) {
-  const [likes, setLikes] = useState<string[]>([]);
-  const [comments, setComments] = useState<(CommentType & { profiles: Profile })[]>([]);
+export default function Post({ post: initialPost, onDelete }: PostProps) {
+  const post = useFeedPost(initialPost.id) ?? initialPost;
   const [showComments, setShowComments] = useState(false);
-  const [commentText, setCommentText] = useState('');
-  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [editContent, setEditContent] = useState('');
+  const [editImageUrl, setEditImageUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [showReactions, setShowReactions] = useState(false);
+  const [reporting, setReporting] = useState(false);
+  const pickerTimer = useRef<ReturnType<typeof setTimeout>>();
   const { user } = useAuth();
 
-  useEffect(() => {
-    loadLikes();
-    loadComments();
-  }, [post.id]);
+  // The full thread is only fetched once it's expanded; until then the
+  // preview from the feed row is enough.
+  const toggleComments = () => setShowComments(!showComments);
 
-  const loadLikes = async () => {
-    const { data } = await supabase
-      .from('likes')
-      .select('user_id')
-      .eq('post_id', post.id);
-
-    if (data) {
-      setLikes(data.map(like => like.user_id));
-    }
-  };
-
-  const loadComments = async () => {
-    const { data } = await supabase
-      .from('comments')
-      .select('*, profiles(*)')
-      .eq('post_id', post.id)
-      .order('created_at', { ascending: true });
-
-    if (data) {
-      setComments(data as any);
-    }
-  };
-
-  const handleLike = async () => {
+  // Reacting again with the same type removes the reaction; a different
+  // type replaces it (one reaction per user per post).
+  const handleReact = async (type: ReactionType) => {
     if (!user) return;
+    setPickerOpen(false);
 
-    const isLiked = likes.includes(user.id);
-
-    if (isLiked) {
-      await supabase
-        .from('likes')
-        .delete()
-        .eq('post_id', post.id)
-        .eq('user_id', user.id);
+    const previous = post.my_reaction;
+    const next = previous === type ? null : type;
+    feedStore.update(post.id, p => withReaction(p, previous, next, true));
 
-      setLikes(likes.filter(id => id !== user.id));
-    } else {
-      await supabase
-        .from('likes')
-        .insert({ post_id: post.id, user_id: user.id });
+    const { error } = next
+      ? await supabase
+          .from('reactions')
+          .upsert({ post_id: post.id, user_id: user.id, type: next }, { onConflict: 'post_id,user_id' })
+      : await supabase
+          .from('reactions')
+          .delete()
+          .eq('post_id', post.id)
+          .eq('user_id', user.id);
 
-      setLikes([...likes, user.id]);
+    if (error) {
+      console.error('Error updating reaction:', error);
+      feedStore.update(post.id, p => withReaction(p, next, previous, true));
     }
   };
 
-  const handleComment = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!commentText.trim() || !user || loading) return;
-
-    setLoading(true);
-    try {
-      const { error } = await supabase
-        .from('comments')
-        .insert({
-          post_id: post.id,
-          user_id: user.id,
-          content: commentText.trim(),
-        });
-
-      if (error) throw error;
+  const openPicker = () => {
+    clearTimeout(pickerTimer.current);
+    pickerTimer.current = setTimeout(() => setPickerOpen(true), 400);
+  };
 
-      setCommentText('');
-      await loadComments();
-    } catch (error) {
-      console.error('Error adding comment:', error);
-    } finally {
-      setLoading(false);
-    }
+  const closePicker = () => {
+    clearTimeout(pickerTimer.current);
+    pickerTimer.current = setTimeout(() => setPickerOpen(false), 300);
   };
 
   const handleDeletePost = async () => {
@@ -104,48 +88,153 @@ export default function Post({ post, onDelete }: PostProps) {
     }
   };
 
-  const handleDeleteComment = async (commentId: string) => {
-    const { error } = await supabase
-      .from('comments')
-      .delete()
-      .eq('id', commentId);
+  const startEditing = () => {
+    setEditContent(post.content);
+    setEditImageUrl(post.image_url || '');
+    setEditing(true);
+  };
 
-    if (!error) {
-      await loadComments();
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editContent.trim() || saving) return;
+
+    const content = editContent.trim();
+    const image_url = editImageUrl.trim();
+    if (content === post.content && image_url === (post.image_url || '')) {
+      setEditing(false);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // The record_post_revision trigger snapshots the previous version and
+      // stamps updated_at.
+      const { error } = await supabase
+        .from('posts')
+        .update({ content, image_url })
+        .eq('id', post.id);
+
+      if (error) throw error;
+
+      feedStore.update(post.id, p => ({ ...p, content, image_url, updated_at: new Date().toISOString() }));
+      setEditing(false);
+    } catch (error) {
+      console.error('Error editing post:', error);
+      alert('Failed to save changes');
+    } finally {
+      setSaving(false);
     }
   };
 
-  const isLiked = user ? likes.includes(user.id) : false;
+  const myReaction = post.my_reaction ? reactionInfo(post.my_reaction) : null;
   const isOwnPost = user?.id === post.user_id;
+  const isEdited = !!post.updated_at &&
+    new Date(post.updated_at).getTime() - new Date(post.created_at).getTime() > 1000;
 
   return (
-    <div className="bg-white rounded-xl shadow-md overflow-hidden mb-6">
+    <div className="bg-white rounded-xl shadow-md mb-6">
       <div className="p-6">
         <div className="flex items-start justify-between mb-4">
           <div className="flex items-center gap-3">
-            <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-blue-600 rounded-full flex items-center justify-center text-white font-bold text-lg">
-              {post.profiles?.username?.[0]?.toUpperCase() || 'U'}
-            </div>
+            <UserLink username={post.profiles?.username}>
+              <Avatar profile={post.profiles} className="w-12 h-12 text-lg" />
+            </UserLink>
             <div>
-              <p className="font-semibold text-gray-900">{post.profiles?.username || 'Unknown'}</p>
+              <UserLink username={post.profiles?.username} className="font-semibold text-gray-900">
+                {post.profiles?.username || 'Unknown'}
+              </UserLink>
               <p className="text-sm text-gray-500">
-                {new Date(post.created_at).toLocaleDateString()}
+                <Link to={paths.post(post.id)} className="hover:text-blue-600 hover:underline transition-colors">
+                  {new Date(post.created_at).toLocaleDateString()}
+                </Link>
+                {' · '}
+                <span className="inline-flex align-middle" title={`Shared with: ${audienceLabel(post.visibility)}`}>
+                  <AudienceIcon visibility={post.visibility} size={13} />
+                </span>
+                {isEdited && (
+                  <>
+                    {' · '}
+                    <button
+                      onClick={() => setShowHistory(true)}
+                      className="hover:text-blue-600 hover:underline transition-colors"
+                      title={`Edited ${new Date(post.updated_at).toLocaleString()}`}
+                    >
+                      edited
+                    </button>
+                  </>
+                )}
               </p>
             </div>
           </div>
-          {isOwnPost && (
+          {isOwnPost && !editing && (
+            <div className="flex items-center gap-3">
+              <button
+                onClick={startEditing}
+                className="text-gray-400 hover:text-blue-500 transition-colors"
+                title="Edit post"
+              >
+                <Pencil size={18} />
+              </button>
+              <button
+                onClick={handleDeletePost}
+                className="text-gray-400 hover:text-red-500 transition-colors"
+              >
+                <Trash2 size={20} />
+              </button>
+            </div>
+          )}
+          {!isOwnPost && (
             <button
-              onClick={handleDeletePost}
-              className="text-gray-400 hover:text-red-500 transition-colors"
+              onClick={() => setReporting(true)}
+              className="text-gray-300 hover:text-red-500 transition-colors"
+              title="Report post"
             >
-              <Trash2 size={20} />
+              <Flag size={18} />
             </button>
           )}
         </div>
 
-        <p className="text-gray-800 mb-4 whitespace-pre-wrap">{post.content}</p>
+        {editing ? (
+          <form onSubmit={handleSaveEdit} className="mb-4 space-y-3">
+            <textarea
+              value={editContent}
+              onChange={(e) => setEditContent(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              rows={3}
+              disabled={saving}
+              autoFocus
+            />
+            <input
+              type="url"
+              value={editImageUrl}
+              onChange={(e) => setEditImageUrl(e.target.value)}
+              placeholder="Image URL (optional)"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={saving}
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setEditing(false)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg font-medium transition-colors"
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!editContent.trim() || saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-gray-800 mb-4 whitespace-pre-wrap"><RichText text={post.content} /></p>
+        )}
 
-        {post.image_url && (
+        {!editing && post.image_url && (
           <img
             src={post.image_url}
             alt="Post"
@@ -154,73 +243,98 @@ export default function Post({ post, onDelete }: PostProps) {
         )}
 
         <div className="flex items-center gap-6 pt-4 border-t">
-          <button
-            onClick={handleLike}
-            className={`flex items-center gap-2 transition-colors ${
-              isLiked ? 'text-red-500' : 'text-gray-500 hover:text-red-500'
-            }`}
-          >
-            <Heart size={20} fill={isLiked ? 'currentColor' : 'none'} />
-            <span className="font-medium">{likes.length}</span>
-          </button>
+          <div className="relative" onMouseEnter={openPicker} onMouseLeave={closePicker}>
+            {pickerOpen && (
+              <div className="absolute left-0 bottom-full mb-2 z-20 flex gap-1 bg-white rounded-full shadow-xl border px-2 py-1.5">
+                {REACTIONS.map(({ type, emoji, label }) => (
+                  <button
+                    key={type}
+                    onClick={() => handleReact(type)}
+                    className={`text-2xl w-10 h-10 rounded-full flex items-center justify-center transition-transform hover:scale-125 ${
+                      post.my_reaction === type ? 'bg-blue-50' : ''
+                    }`}
+                    title={label}
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={() => handleReact(post.my_reaction ?? 'like')}
+              className={`flex items-center gap-2 font-medium transition-colors ${
+                myReaction ? 'text-blue-600' : 'text-gray-500 hover:text-blue-600'
+              }`}
+            >
+              {myReaction ? <span className="text-lg leading-none">{myReaction.emoji}</span> : <ThumbsUp size={20} />}
+              {myReaction ? myReaction.label : 'Like'}
+            </button>
+          </div>
 
           <button
-            onClick={() => setShowComments(!showComments)}
+            onClick={toggleComments}
             className="flex items-center gap-2 text-gray-500 hover:text-blue-500 transition-colors"
           >
             <MessageCircle size={20} />
-            <span className="font-medium">{comments.length}</span>
+            <span className="font-medium">{post.comment_count}</span>
           </button>
-        </div>
-      </div>
 
-      {showComments && (
-        <div className="border-t bg-gray-50 p-6">
-          <form onSubmit={handleComment} className="mb-4">
-            <div className="flex gap-2">
-              <input
-                type="text"
-                value={commentText}
-                onChange={(e) => setCommentText(e.target.value)}
-                placeholder="Write a comment..."
-                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                disabled={loading}
-              />
+          {post.reaction_count > 0 && (
+            <div className="relative ml-auto">
               <button
-                type="submit"
-                disabled={!commentText.trim() || loading}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={() => setShowReactions(!showReactions)}
+                className="flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-700 transition-colors"
               >
-                <Send size={20} />
+                <span className="flex -space-x-1">
+                  {topReactions(post).map(type => (
+                    <span key={type} className="text-base leading-none">{reactionInfo(type).emoji}</span>
+                  ))}
+                </span>
+                <span className="font-medium">{post.reaction_count}</span>
               </button>
+              {showReactions && (
+                <div className="absolute right-0 bottom-full mb-2">
+                  <ReactionsBreakdown postId={post.id} onClose={() => setShowReactions(false)} />
+                </div>
+              )}
             </div>
-          </form>
+          )}
+        </div>
+      </div>
 
+      {showComments ? (
+        <div className="border-t bg-gray-50 p-6 rounded-b-xl">
+          <CommentThread postId={post.id} commentCount={post.comment_count} />
+        </div>
+      ) : post.recent_comments.length > 0 && (
+        <div className="border-t bg-gray-50 p-6 rounded-b-xl">
           <div className="space-y-3">
-            {comments.map((comment) => (
+            {post.recent_comments.map((comment) => (
               <div key={comment.id} className="flex items-start gap-3 bg-white p-3 rounded-lg">
-                <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-blue-600 rounded-full flex items-center justify-center text-white font-bold text-sm flex-shrink-0">
-                  {comment.profiles?.username?.[0]?.toUpperCase() || 'U'}
-                </div>
+                <Avatar profile={comment.profiles} className="w-8 h-8 text-sm flex-shrink-0" />
                 <div className="flex-1 min-w-0">
-                  <p className="font-semibold text-sm text-gray-900">
+                  <UserLink username={comment.profiles?.username} className="font-semibold text-sm text-gray-900">
                     {comment.profiles?.username || 'Unknown'}
-                  </p>
-                  <p className="text-gray-700 text-sm break-words">{comment.content}</p>
+                  </UserLink>
+                  <p className="text-gray-700 text-sm break-words"><RichText text={comment.content} /></p>
                 </div>
-                {user?.id === comment.user_id && (
-                  <button
-                    onClick={() => handleDeleteComment(comment.id)}
-                    className="text-gray-400 hover:text-red-500 transition-colors flex-shrink-0"
-                  >
-                    <Trash2 size={16} />
-                  </button>
-                )}
               </div>
             ))}
           </div>
+
+          <button
+            onClick={toggleComments}
+            className="mt-3 text-sm font-medium text-gray-500 hover:text-blue-600 transition-colors"
+          >
+            {post.comment_count > post.recent_comments.length
+              ? `View all ${post.comment_count} comments`
+              : 'Reply or add a comment'}
+          </button>
         </div>
       )}
+
+      {showHistory && <PostHistory post={post} onClose={() => setShowHistory(false)} />}
+      {reporting && <ReportDialog targetType="post" targetId={post.id} onClose={() => setReporting(false)} />}
     </div>
   );
 }
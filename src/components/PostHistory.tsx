@@ -0,0 +1,81 @@
+import { useState, useEffect } from 'react';
+import { supabase, FeedPost, PostRevision } from '../lib/supabase';
+import { X, History } from 'lucide-react';
+
+interface PostHistoryProps {
+  post: FeedPost;
+  onClose: () => void;
+}
+
+export default function PostHistory({ post, onClose }: PostHistoryProps) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadRevisions = async () => {
+      const { data, error } = await supabase
+        .from('post_revisions')
+        .select('*')
+        .eq('post_id', post.id)
+        .order('created_at', { ascending: false });
+
+      if (error) console.error('Error loading post history:', error);
+      setRevisions(data || []);
+      setLoading(false);
+    };
+    loadRevisions();
+  }, [post.id]);
+
+  // The live post is the newest version; revisions hold what it replaced.
+  const versions = [
+    { id: 'current', content: post.content, image_url: post.image_url, created_at: post.updated_at },
+    ...revisions,
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl w-full max-w-lg max-h-[80vh] overflow-hidden flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b">
+          <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <History size={20} />
+            Edit history
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={22} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-4">
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            versions.map((version, idx) => (
+              <div key={version.id} className="border rounded-lg p-4">
+                <p className="text-xs font-medium text-gray-500 mb-2">
+                  {idx === 0 ? 'Current · ' : ''}
+                  {new Date(version.created_at).toLocaleString()}
+                </p>
+                <p className="text-gray-800 whitespace-pre-wrap">{version.content}</p>
+                {version.image_url && (
+                  <img
+                    src={version.image_url}
+                    alt=""
+                    className="w-full rounded-lg mt-3 max-h-48 object-cover"
+                  />
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
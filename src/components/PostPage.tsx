@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { FeedPost } from '../lib/supabase';
+import { feedStore, fetchPost } from '../lib/feed';
+import { navigate, paths } from '../lib/router';
+import Link from './Link';
+import Post from './Post';
+import { ArrowLeft } from 'lucide-react';
+
+interface PostPageProps {
+  postId: string;
+}
+
+// A single post on its own page, as opened from a shared link or a
+// notification.
+export default function PostPage({ postId }: PostPageProps) {
+  const [post, setPost] = useState<FeedPost | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const row = await fetchPost(postId);
+        if (row) feedStore.upsert([row]);
+        setPost(row);
+      } catch (err) {
+        console.error('Error loading post:', err);
+        setPost(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [postId]);
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <Link
+        to={paths.feed()}
+        className="inline-flex items-center gap-2 mb-4 text-gray-600 hover:text-blue-600 font-medium transition-colors"
+      >
+        <ArrowLeft size={18} />
+        Back to feed
+      </Link>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : post ? (
+        <Post post={post} onDelete={() => navigate(paths.feed(), { replace: true })} />
+      ) : (
+        <div className="bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+          This post doesn't exist or has been deleted.
+        </div>
+      )}
+    </div>
+  );
+}
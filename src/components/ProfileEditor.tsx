@@ -0,0 +1,214 @@
+import { useState, useEffect } from 'react';
+import { Profile } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { navigate, paths } from '../lib/router';
+import {
+  BIO_MAX_LENGTH,
+  FULL_NAME_MAX_LENGTH,
+  USERNAME_MAX_LENGTH,
+  isUsernameAvailable,
+  validateUsername,
+} from '../lib/profiles';
+import AvatarUpload from './AvatarUpload';
+import { Check, Loader2, X, AlertCircle, Lock } from 'lucide-react';
+
+interface ProfileEditorProps {
+  profile: Profile;
+  onDone: () => void;
+}
+
+type UsernameStatus = 'unchanged' | 'invalid' | 'checking' | 'available' | 'taken';
+
+// How long to wait after the last keystroke before checking a username.
+const USERNAME_CHECK_DELAY = 400;
+
+export default function ProfileEditor({ profile, onDone }: ProfileEditorProps) {
+  const [username, setUsername] = useState(profile.username);
+  const [fullName, setFullName] = useState(profile.full_name || '');
+  const [bio, setBio] = useState(profile.bio || '');
+  const [avatarUrl, setAvatarUrl] = useState(profile.avatar_url || '');
+  const [isPrivate, setIsPrivate] = useState(!!profile.is_private);
+  const [usernameStatus, setUsernameStatus] = useState<UsernameStatus>('unchanged');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const { updateProfile } = useAuth();
+
+  const trimmedUsername = username.trim();
+  const usernameProblem = validateUsername(trimmedUsername);
+
+  // Live uniqueness check, debounced and discarded if the name has changed
+  // again by the time the answer arrives
+  useEffect(() => {
+    if (trimmedUsername === profile.username) {
+      setUsernameStatus('unchanged');
+      return;
+    }
+    if (usernameProblem) {
+      setUsernameStatus('invalid');
+      return;
+    }
+
+    let cancelled = false;
+    setUsernameStatus('checking');
+    const timer = setTimeout(async () => {
+      try {
+        const available = await isUsernameAvailable(trimmedUsername);
+        if (!cancelled) setUsernameStatus(available ? 'available' : 'taken');
+      } catch (err) {
+        console.error('Error checking username:', err);
+        if (!cancelled) setUsernameStatus('available');
+      }
+    }, USERNAME_CHECK_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmedUsername, usernameProblem, profile.username]);
+
+  const canSave =
+    !saving &&
+    (usernameStatus === 'unchanged' || usernameStatus === 'available') &&
+    fullName.length <= FULL_NAME_MAX_LENGTH &&
+    bio.length <= BIO_MAX_LENGTH;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      await updateProfile({
+        username: trimmedUsername,
+        full_name: fullName.trim(),
+        bio: bio.trim(),
+        avatar_url: avatarUrl,
+        is_private: isPrivate,
+      });
+      // The profile URL is the username, so follow the rename
+      if (trimmedUsername !== profile.username) {
+        navigate(paths.user(trimmedUsername), { replace: true });
+      }
+      onDone();
+    } catch (err) {
+      console.error('Error saving profile:', err);
+      // The unique index can still reject a name claimed since the check
+      const taken = (err as { code?: string }).code === '23505';
+      setError(taken ? 'That username was just taken' : err instanceof Error ? err.message : 'Failed to save profile');
+      if (taken) setUsernameStatus('taken');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const usernameHint = () => {
+    switch (usernameStatus) {
+      case 'invalid':
+        return <p className="text-sm text-red-600 mt-1 flex items-center gap-1"><AlertCircle size={14} />{usernameProblem}</p>;
+      case 'checking':
+        return <p className="text-sm text-gray-500 mt-1 flex items-center gap-1"><Loader2 size={14} className="animate-spin" />Checking availability...</p>;
+      case 'available':
+        return <p className="text-sm text-green-600 mt-1 flex items-center gap-1"><Check size={14} />{trimmedUsername} is available</p>;
+      case 'taken':
+        return <p className="text-sm text-red-600 mt-1 flex items-center gap-1"><X size={14} />{trimmedUsername} is already taken</p>;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="flex items-center gap-6">
+        <AvatarUpload profile={{ username: trimmedUsername || profile.username, avatar_url: avatarUrl }} onChange={setAvatarUrl} />
+        <div className="text-sm text-gray-500">
+          <p>Click or drop an image on your avatar to change it.</p>
+          {avatarUrl && (
+            <button
+              type="button"
+              onClick={() => setAvatarUrl('')}
+              className="text-red-600 hover:text-red-700 font-medium mt-1"
+            >
+              Remove photo
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          maxLength={USERNAME_MAX_LENGTH}
+          className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        {usernameHint()}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Full name</label>
+        <input
+          type="text"
+          value={fullName}
+          onChange={(e) => setFullName(e.target.value)}
+          maxLength={FULL_NAME_MAX_LENGTH}
+          className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Bio</label>
+        <textarea
+          value={bio}
+          onChange={(e) => setBio(e.target.value)}
+          maxLength={BIO_MAX_LENGTH}
+          rows={3}
+          className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+        />
+        <p className="text-xs text-gray-400 mt-1">{bio.length}/{BIO_MAX_LENGTH}</p>
+      </div>
+
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={isPrivate}
+          onChange={(e) => setIsPrivate(e.target.checked)}
+          className="mt-1"
+        />
+        <div>
+          <p className="text-sm font-medium text-gray-700 flex items-center gap-1"><Lock size={14} />Private account</p>
+          <p className="text-xs text-gray-500">
+            {profile.is_private && !isPrivate
+              ? 'Anyone waiting on a follow request will be approved.'
+              : 'New followers need your approval. Only approved followers and friends see your posts, stories and who you follow.'}
+          </p>
+        </div>
+      </label>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-5 py-2 text-gray-600 hover:bg-gray-100 rounded-lg font-medium transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!canSave}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save changes'}
+        </button>
+      </div>
+    </form>
+  );
+}
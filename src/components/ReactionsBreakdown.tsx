@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { supabase, Reaction, ReactionType } from '../lib/supabase';
+import { REACTIONS, reactionInfo } from '../lib/reactions';
+import Avatar from './Avatar';
+import UserLink from './UserLink';
+
+interface ReactionsBreakdownProps {
+  postId: string;
+  onClose: () => void;
+}
+
+export default function ReactionsBreakdown({ postId, onClose }: ReactionsBreakdownProps) {
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  const [filter, setFilter] = useState<ReactionType | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadReactions = async () => {
+      const { data, error } = await supabase
+        .from('reactions')
+        .select('*, profiles(*)')
+        .eq('post_id', postId)
+        .order('created_at', { ascending: false });
+
+      if (error) console.error('Error loading reactions:', error);
+      setReactions(data || []);
+      setLoading(false);
+    };
+    loadReactions();
+  }, [postId]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const presentTypes = REACTIONS.filter(r => reactions.some(reaction => reaction.type === r.type));
+  const shown = filter === 'all' ? reactions : reactions.filter(r => r.type === filter);
+
+  return (
+    <>
+      <div className="fixed inset-0 z-30" onClick={onClose} />
+      <div className="relative z-40 w-72 bg-white rounded-xl shadow-xl border overflow-hidden">
+        <div className="flex gap-1 p-2 border-b overflow-x-auto scrollbar-hide">
+          <button
+            onClick={() => setFilter('all')}
+            className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+              filter === 'all' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            All {reactions.length}
+          </button>
+          {presentTypes.map(({ type, emoji }) => (
+            <button
+              key={type}
+              onClick={() => setFilter(type)}
+              className={`px-3 py-1 rounded-full text-sm font-medium transition-colors flex-shrink-0 ${
+                filter === type ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {emoji} {reactions.filter(r => r.type === type).length}
+            </button>
+          ))}
+        </div>
+
+        <div className="max-h-64 overflow-y-auto p-2">
+          {loading ? (
+            <div className="text-center py-4">
+              <div className="inline-block w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : shown.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No reactions yet</p>
+          ) : (
+            shown.map(reaction => (
+              <div key={reaction.id} className="flex items-center gap-3 px-2 py-1.5">
+                <Avatar profile={reaction.profiles} className="w-8 h-8 text-sm flex-shrink-0" />
+                <UserLink username={reaction.profiles?.username} className="flex-1 min-w-0 text-sm font-medium text-gray-900 truncate">
+                  {reaction.profiles?.username || 'Unknown'}
+                </UserLink>
+                <span className="text-lg" title={reactionInfo(reaction.type).label}>
+                  {reactionInfo(reaction.type).emoji}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
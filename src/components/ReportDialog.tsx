@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { ReportReason, ReportTargetType } from '../lib/supabase';
+import { REPORT_REASONS, reportContent } from '../lib/moderation';
+import { X, Flag, CheckCircle } from 'lucide-react';
+
+interface ReportDialogProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  onClose: () => void;
+}
+
+// Sits above everything, including the story viewer, so it can be opened
+// from anywhere.
+export default function ReportDialog({ targetType, targetId, onClose }: ReportDialogProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason || submitting) return;
+
+    setSubmitting(true);
+    try {
+      await reportContent(targetType, targetId, reason, details.trim());
+      setSubmitted(true);
+    } catch (err) {
+      console.error('Error reporting content:', err);
+      alert(err instanceof Error ? err.message : 'Failed to send report');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl w-full max-w-md max-h-[85vh] overflow-hidden flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b">
+          <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <Flag size={20} />
+            Report {targetType}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={22} />
+          </button>
+        </div>
+
+        {submitted ? (
+          <div className="p-8 text-center">
+            <CheckCircle size={40} className="mx-auto mb-3 text-green-500" />
+            <p className="font-semibold text-gray-900 mb-1">Thanks for letting us know</p>
+            <p className="text-sm text-gray-500 mb-6">A moderator will review your report.</p>
+            <button
+              onClick={onClose}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="overflow-y-auto p-5 space-y-4">
+            <p className="text-sm text-gray-600">Why are you reporting this {targetType}?</p>
+            <div className="space-y-2">
+              {REPORT_REASONS.map(option => (
+                <label
+                  key={option.value}
+                  className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                    reason === option.value ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="reason"
+                    value={option.value}
+                    checked={reason === option.value}
+                    onChange={() => setReason(option.value)}
+                    className="mt-1"
+                  />
+                  <div>
+                    <p className="font-medium text-gray-900 text-sm">{option.label}</p>
+                    <p className="text-xs text-gray-500">{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Anything else we should know? (optional)"
+              maxLength={1000}
+              rows={3}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
+              disabled={submitting}
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!reason || submitting}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                {submitting ? 'Sending...' : 'Report'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { parseRichText } from '../lib/richText';
+import { paths } from '../lib/router';
+import Link from './Link';
+
+interface RichTextProps {
+  text: string;
+}
+
+// Post or comment text with #tags linked to their tag feed and @mentions
+// linked to the profile.
+export default function RichText({ text }: RichTextProps) {
+  return (
+    <>
+      {parseRichText(text).map((segment, i) => {
+        switch (segment.type) {
+          case 'hashtag':
+            return (
+              <Link key={i} to={paths.tag(segment.tag)} className="text-blue-600 hover:underline">
+                {segment.text}
+              </Link>
+            );
+          case 'mention':
+            return (
+              <Link key={i} to={paths.user(segment.username)} className="text-blue-600 font-medium hover:underline">
+                {segment.text}
+              </Link>
+            );
+          default:
+            return segment.text;
+        }
+      })}
+    </>
+  );
+}
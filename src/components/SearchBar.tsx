@@ -0,0 +1,136 @@
+import { useState, useEffect, useRef } from 'react';
+import { useProfileSuggestions } from '../lib/search';
+import { navigate, paths, useRoute } from '../lib/router';
+import Avatar from './Avatar';
+import { Search, Loader2 } from 'lucide-react';
+
+// The nav search box: suggests people while typing, and Enter (or the last
+// suggestion) opens the full results page.
+export default function SearchBar() {
+  const route = useRoute();
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { suggestions, loading } = useProfileSuggestions(query);
+
+  const trimmed = query.trim();
+  const routeQuery = route.name === 'search' ? route.query : '';
+
+  // Keep the box showing what the results page is showing
+  useEffect(() => {
+    if (routeQuery) setQuery(routeQuery);
+  }, [routeQuery]);
+
+  useEffect(() => {
+    setHighlighted(-1);
+  }, [suggestions]);
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const go = (path: string) => {
+    setOpen(false);
+    navigate(path);
+  };
+
+  // The "search everything" row sits after the people suggestions
+  const optionCount = suggestions.length + 1;
+
+  const selectOption = (index: number) => {
+    if (index >= 0 && index < suggestions.length) {
+      go(paths.user(suggestions[index].username));
+    } else if (trimmed) {
+      go(paths.search(trimmed));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setOpen(true);
+        setHighlighted((highlighted + 1) % optionCount);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlighted((highlighted - 1 + optionCount) % optionCount);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        selectOption(highlighted);
+        break;
+      case 'Escape':
+        setOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-64">
+      <div className="relative">
+        <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search people and posts"
+          className="w-full pl-10 pr-4 py-2 bg-gray-100 rounded-full text-sm focus:bg-white focus:ring-2 focus:ring-blue-500 focus:outline-none transition-colors"
+        />
+      </div>
+
+      {open && trimmed && (
+        <div className="absolute left-0 right-0 mt-2 bg-white rounded-xl shadow-xl border z-50 overflow-hidden">
+          {suggestions.map((profile, index) => (
+            <button
+              key={profile.id}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectOption(index)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`w-full flex items-center gap-3 px-4 py-2 text-left transition-colors ${
+                highlighted === index ? 'bg-blue-50' : ''
+              }`}
+            >
+              <Avatar profile={profile} className="w-8 h-8 text-sm" />
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-gray-900 truncate">{profile.username}</p>
+                {profile.full_name && <p className="text-xs text-gray-500 truncate">{profile.full_name}</p>}
+              </div>
+            </button>
+          ))}
+
+          {loading && suggestions.length === 0 && (
+            <div className="flex items-center gap-2 px-4 py-3 text-sm text-gray-500">
+              <Loader2 size={14} className="animate-spin" />
+              Searching...
+            </div>
+          )}
+
+          <button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => selectOption(suggestions.length)}
+            onMouseEnter={() => setHighlighted(suggestions.length)}
+            className={`w-full flex items-center gap-3 px-4 py-3 text-left text-sm text-blue-600 font-medium border-t transition-colors ${
+              highlighted === suggestions.length ? 'bg-blue-50' : ''
+            }`}
+          >
+            <Search size={16} />
+            <span className="truncate">Search for "{trimmed}"</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
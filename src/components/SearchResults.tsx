@@ -0,0 +1,161 @@
+import { useState, useEffect } from 'react';
+import { FeedPost, Profile } from '../lib/supabase';
+import { FEED_PAGE_SIZE, fetchFeedPage, feedStore } from '../lib/feed';
+import { searchProfiles } from '../lib/search';
+import { paths } from '../lib/router';
+import Avatar from './Avatar';
+import Link from './Link';
+import Post from './Post';
+import { Search } from 'lucide-react';
+
+interface SearchResultsProps {
+  query: string;
+}
+
+type ResultsTab = 'people' | 'posts';
+
+export default function SearchResults({ query }: SearchResultsProps) {
+  const [tab, setTab] = useState<ResultsTab>('people');
+  const [people, setPeople] = useState<Profile[]>([]);
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    if (!trimmed) {
+      setPeople([]);
+      setPosts([]);
+      setLoading(false);
+      return;
+    }
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [profiles, page] = await Promise.all([
+          searchProfiles(trimmed),
+          fetchFeedPage({ query: trimmed }),
+        ]);
+        feedStore.upsert(page);
+        setPeople(profiles);
+        setPosts(page);
+        setHasMore(page.length === FEED_PAGE_SIZE);
+        // Land on whichever side actually has something
+        setTab(profiles.length === 0 && page.length > 0 ? 'posts' : 'people');
+      } catch (err) {
+        console.error('Error searching:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [trimmed]);
+
+  const loadMore = async () => {
+    if (loadingMore || posts.length === 0) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchFeedPage({ query: trimmed, before: posts[posts.length - 1] });
+      feedStore.upsert(page);
+      setPosts(prev => [...prev, ...page]);
+      setHasMore(page.length === FEED_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading more posts:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (!trimmed) {
+    return (
+      <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+        <Search size={40} className="mx-auto mb-3 text-gray-300" />
+        Type in the search box to find people and posts.
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4 truncate">Results for "{trimmed}"</h2>
+        <div className="flex gap-2">
+          {([
+            { value: 'people', label: 'People', count: people.length },
+            { value: 'posts', label: 'Posts', count: posts.length },
+          ] as const).map(({ value, label, count }) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                tab === value
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {label}
+              {!loading && ` (${count}${value === 'posts' && hasMore ? '+' : ''})`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : tab === 'people' ? (
+        people.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+            No people match "{trimmed}".
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-md divide-y">
+            {people.map(person => (
+              <Link
+                key={person.id}
+                to={paths.user(person.username)}
+                className="flex items-center gap-4 p-4 hover:bg-gray-50 transition-colors"
+              >
+                <Avatar profile={person} className="w-12 h-12 text-lg flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-900 truncate">{person.username}</p>
+                  {person.full_name && <p className="text-sm text-gray-600 truncate">{person.full_name}</p>}
+                  {person.bio && <p className="text-sm text-gray-500 truncate">{person.bio}</p>}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )
+      ) : posts.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+          No posts match "{trimmed}".
+        </div>
+      ) : (
+        <>
+          {posts.map(post => (
+            <Post
+              key={post.id}
+              post={post}
+              onDelete={() => setPosts(prev => prev.filter(p => p.id !== post.id))}
+            />
+          ))}
+          {hasMore && (
+            <div className="text-center">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-6 py-2 bg-white text-blue-600 rounded-lg font-medium shadow-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
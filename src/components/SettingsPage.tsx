@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BlockedProfile, Mute, Profile } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { paths } from '../lib/router';
+import { fetchBlockedUsers, fetchMutedUsers, unblockUser, unmuteUser } from '../lib/social';
+import Avatar from './Avatar';
+import Link from './Link';
+import { Ban, VolumeX } from 'lucide-react';
+
+export default function SettingsPage() {
+  const [blocked, setBlocked] = useState<BlockedProfile[]>([]);
+  const [muted, setMuted] = useState<(Mute & { profiles: Profile })[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [blockedUsers, mutedUsers] = await Promise.all([
+        fetchBlockedUsers(),
+        fetchMutedUsers(user.id),
+      ]);
+      setBlocked(blockedUsers);
+      setMuted(mutedUsers.filter(m => m.profiles));
+    } catch (err) {
+      console.error('Error loading blocked and muted users:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const undo = async (otherId: string, action: () => Promise<void>) => {
+    setBusyId(otherId);
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      console.error('Error updating blocked and muted users:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Settings</h2>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Blocked & muted</h3>
+        <p className="text-sm text-gray-500 mb-6">
+          Blocked people can't see your profile, posts, stories or comments, and you can't see theirs.
+          Muted people's posts and stories are hidden from your feed; they aren't told.
+        </p>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <section>
+              <h4 className="flex items-center gap-2 font-semibold text-gray-700 mb-2">
+                <Ban size={18} />
+                Blocked ({blocked.length})
+              </h4>
+              {blocked.length === 0 ? (
+                <p className="text-sm text-gray-500">You haven't blocked anyone.</p>
+              ) : (
+                <div className="divide-y">
+                  {blocked.map(person => (
+                    <div key={person.id} className="flex items-center justify-between gap-4 py-3">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <Avatar profile={person} className="w-10 h-10 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <p className="font-semibold text-gray-900 truncate">{person.username}</p>
+                          <p className="text-xs text-gray-500">
+                            Blocked {new Date(person.blocked_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => undo(person.id, () => unblockUser(user.id, person.id))}
+                        disabled={busyId === person.id}
+                        className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
+                      >
+                        Unblock
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section>
+              <h4 className="flex items-center gap-2 font-semibold text-gray-700 mb-2">
+                <VolumeX size={18} />
+                Muted ({muted.length})
+              </h4>
+              {muted.length === 0 ? (
+                <p className="text-sm text-gray-500">You haven't muted anyone.</p>
+              ) : (
+                <div className="divide-y">
+                  {muted.map(({ profiles: person }) => (
+                    <div key={person.id} className="flex items-center justify-between gap-4 py-3">
+                      <Link to={paths.user(person.username)} className="flex items-center gap-3 min-w-0">
+                        <Avatar profile={person} className="w-10 h-10 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <p className="font-semibold text-gray-900 truncate hover:text-blue-600">{person.username}</p>
+                          {person.full_name && <p className="text-xs text-gray-500 truncate">{person.full_name}</p>}
+                        </div>
+                      </Link>
+                      <button
+                        onClick={() => undo(person.id, () => unmuteUser(user.id, person.id))}
+                        disabled={busyId === person.id}
+                        className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
+                      >
+                        Unmute
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
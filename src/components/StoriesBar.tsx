@@ -1,21 +1,34 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase, Story as StoryType, Profile } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Plus } from 'lucide-react';
+import { subscribeToTables } from '../lib/realtime';
+import { fetchMutedIds } from '../lib/social';
+import { StoryViewSummary, fetchStoryViewSummary } from '../lib/stories';
+import { navigate, paths } from '../lib/router';
+import { Plus, Eye } from 'lucide-react';
 import StoryViewer, { StoryGroup } from './StoryViewer';
 import CreateStory from './CreateStory';
 
-export default function StoriesBar() {
+interface StoriesBarProps {
+  // The user whose stories are open in the viewer, taken from the URL
+  openUserId?: string | null;
+}
+
+const showStoryGroup = (userId: string) => navigate(paths.story(userId), { replace: true });
+const closeViewer = () => navigate(paths.feed());
+
+export default function StoriesBar({ openUserId = null }: StoriesBarProps) {
   const [storyGroups, setStoryGroups] = useState<StoryGroup[]>([]);
   const [loading, setLoading] = useState(true);
-  const [viewerOpen, setViewerOpen] = useState(false);
-  const [viewerGroupIndex, setViewerGroupIndex] = useState(0);
   const [createOpen, setCreateOpen] = useState(false);
+  // Views across the signed-in user's own active stories
+  const [mySummary, setMySummary] = useState<StoryViewSummary | null>(null);
   const { user } = useAuth();
 
   const loadStories = useCallback(async () => {
     if (!user) return;
-    setLoading(true);
+    // `loading` starts true and only gates the first render; refreshes from
+    // the poll or realtime events swap the groups in place.
     try {
       // Fetch non-expired stories with profiles, ordered by newest first
       const { data: stories, error } = await supabase
@@ -27,6 +40,7 @@ export default function StoriesBar() {
       if (error) throw error;
       if (!stories || stories.length === 0) {
         setStoryGroups([]);
+        setMySummary(null);
         setLoading(false);
         return;
       }
@@ -39,23 +53,28 @@ export default function StoriesBar() {
         .eq('user_id', user.id)
         .in('story_id', storyIds);
 
-      const viewedSet = new Set(views?.map((v: any) => v.story_id) || []);
+      const viewedSet = new Set(views?.map((v: { story_id: string }) => v.story_id) || []);
+      const muted = new Set(await fetchMutedIds(user.id));
 
-      // Group stories by user
+      // Group stories by user, leaving out anyone muted
       const groupMap = new Map<string, StoryGroup>();
       for (const story of stories) {
         const profile = story.profiles as unknown as Profile;
-        if (!profile) continue;
+        if (!profile || muted.has(story.user_id)) continue;
 
+        const unviewed = !viewedSet.has(story.id);
+        const unviewedCloseFriends = unviewed && story.audience === 'close_friends';
         const existing = groupMap.get(story.user_id);
         if (existing) {
           existing.stories.push(story);
-          if (!viewedSet.has(story.id)) existing.hasUnviewed = true;
+          if (unviewed) existing.hasUnviewed = true;
+          if (unviewedCloseFriends) existing.hasUnviewedCloseFriends = true;
         } else {
           groupMap.set(story.user_id, {
             user: profile,
             stories: [story],
-            hasUnviewed: !viewedSet.has(story.id),
+            hasUnviewed: unviewed,
+            hasUnviewedCloseFriends: unviewedCloseFriends,
           });
         }
       }
@@ -71,6 +90,9 @@ export default function StoriesBar() {
       });
 
       setStoryGroups(groups);
+
+      const myStoryIds = stories.filter((s: StoryType) => s.user_id === user.id).map((s: StoryType) => s.id);
+      setMySummary(myStoryIds.length > 0 ? await fetchStoryViewSummary(myStoryIds) : null);
     } catch (err) {
       console.error('Error loading stories:', err);
     } finally {
@@ -88,11 +110,27 @@ export default function StoriesBar() {
     return () => clearInterval(interval);
   }, [loadStories]);
 
+  // Pick up stories posted or deleted elsewhere as they happen
+  useEffect(() => {
+    return subscribeToTables({
+      stories: () => loadStories(),
+    });
+  }, [loadStories]);
+
   const openViewer = (groupIndex: number) => {
-    setViewerGroupIndex(groupIndex);
-    setViewerOpen(true);
+    navigate(paths.story(storyGroups[groupIndex].user.id));
   };
 
+  const viewerGroupIndex = openUserId ? storyGroups.findIndex((g) => g.user.id === openUserId) : -1;
+
+  // A story link whose stories have expired (or never existed) falls back
+  // to the plain feed
+  useEffect(() => {
+    if (!loading && openUserId && viewerGroupIndex < 0) {
+      navigate(paths.feed(), { replace: true });
+    }
+  }, [loading, openUserId, viewerGroupIndex]);
+
   const myGroupIndex = storyGroups.findIndex((g) => g.user.id === user?.id);
   const hasMyStories = myGroupIndex >= 0;
 
@@ -154,6 +192,19 @@ export default function StoriesBar() {
               <span className="text-xs text-gray-600 font-medium w-16 text-center truncate">
                 {hasMyStories ? 'Your Story' : 'Add Story'}
               </span>
+              {hasMyStories && mySummary && (
+                <span
+                  className="-mt-1.5 flex items-center gap-1 text-[10px] text-gray-400"
+                  title={`${storyGroups[myGroupIndex].stories.length} active ${
+                    storyGroups[myGroupIndex].stories.length === 1 ? 'story' : 'stories'
+                  } · ${mySummary.total} ${mySummary.total === 1 ? 'view' : 'views'} from ${mySummary.viewers} ${
+                    mySummary.viewers === 1 ? 'person' : 'people'
+                  }`}
+                >
+                  <Eye size={10} />
+                  {mySummary.viewers}
+                </span>
+              )}
             </button>
 
             {/* Other users' stories */}
@@ -169,9 +220,11 @@ export default function StoriesBar() {
                   >
                     <div
                       className={`w-16 h-16 rounded-full p-[3px] ${
-                        group.hasUnviewed
-                          ? 'bg-gradient-to-tr from-yellow-400 via-red-500 to-purple-600'
-                          : 'bg-gray-300'
+                        group.hasUnviewedCloseFriends
+                          ? 'bg-green-500'
+                          : group.hasUnviewed
+                            ? 'bg-gradient-to-tr from-yellow-400 via-red-500 to-purple-600'
+                            : 'bg-gray-300'
                       }`}
                     >
                       <div className="w-full h-full rounded-full overflow-hidden bg-white p-[2px]">
@@ -199,14 +252,15 @@ export default function StoriesBar() {
       </div>
 
       {/* Story Viewer Overlay */}
-      {viewerOpen && (
+      {viewerGroupIndex >= 0 && (
         <StoryViewer
           storyGroups={storyGroups}
           initialGroupIndex={viewerGroupIndex}
-          onClose={() => setViewerOpen(false)}
+          onClose={closeViewer}
           onStoryDeleted={() => {
             loadStories();
           }}
+          onGroupChange={showStoryGroup}
         />
       )}
 
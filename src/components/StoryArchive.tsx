@@ -0,0 +1,370 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Story as StoryType } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  HIGHLIGHT_TITLE_MAX,
+  HighlightWithStories,
+  addToHighlight,
+  createHighlight,
+  deleteHighlight,
+  fetchArchivedStories,
+  fetchHighlights,
+  removeFromHighlight,
+  updateHighlight,
+} from '../lib/highlights';
+import { Archive, Check, CheckCircle2, Circle, Play, Trash2, X } from 'lucide-react';
+import StoryViewer from './StoryViewer';
+import { HighlightCover } from './StoryHighlights';
+
+// The signed-in user's expired stories, which only they can see, and the
+// place to build and edit the highlights shown on their profile.
+export default function StoryArchive() {
+  const [stories, setStories] = useState<StoryType[]>([]);
+  const [highlights, setHighlights] = useState<HighlightWithStories[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [newTitle, setNewTitle] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [playing, setPlaying] = useState<StoryType | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { user, profile } = useAuth();
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [archived, nextHighlights] = await Promise.all([
+        fetchArchivedStories(user.id),
+        fetchHighlights(user.id),
+      ]);
+      setStories(archived);
+      setHighlights(nextHighlights);
+      // Deleted stories drop out of the selection
+      setSelected(prev => prev.filter(id => archived.some(s => s.id === id)));
+    } catch (err) {
+      console.error('Error loading story archive:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggleSelected = (storyId: string) => {
+    setSelected(prev => (prev.includes(storyId) ? prev.filter(id => id !== storyId) : [...prev, storyId]));
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      await load();
+      return true;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = newTitle.trim();
+    if (!user || !title || selected.length === 0) return;
+
+    // Cover defaults to the first picked story with a photo
+    const cover = stories.find(s => selected.includes(s.id) && s.image_url)?.image_url || null;
+    const done = await runAction(async () => {
+      const id = await createHighlight(user.id, title, selected, cover);
+      setEditingId(id);
+    }, 'Failed to create highlight');
+    if (done) {
+      setSelected([]);
+      setNewTitle('');
+    }
+  };
+
+  const handleAddTo = async (highlightId: string) => {
+    if (!highlightId) return;
+    const done = await runAction(() => addToHighlight(highlightId, selected), 'Failed to add to highlight');
+    if (done) {
+      setSelected([]);
+      setEditingId(highlightId);
+    }
+  };
+
+  const editing = highlights.find(h => h.id === editingId) || null;
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Archive size={24} />
+          Story archive
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Only you can see your expired stories. Add them to a highlight to keep them on your profile.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <>
+          {highlights.length > 0 && (
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Your highlights</h3>
+              <div className="flex gap-4 overflow-x-auto pb-1">
+                {highlights.map(highlight => (
+                  <button
+                    key={highlight.id}
+                    onClick={() => setEditingId(editingId === highlight.id ? null : highlight.id)}
+                    className={`flex flex-col items-center gap-2 flex-shrink-0 p-1 rounded-lg transition-colors ${
+                      editingId === highlight.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <HighlightCover highlight={highlight} />
+                    <span className="text-xs text-gray-600 font-medium w-16 text-center truncate">{highlight.title}</span>
+                    <span className="-mt-1.5 text-[10px] text-gray-400">
+                      {highlight.stories.length} {highlight.stories.length === 1 ? 'story' : 'stories'}
+                    </span>
+                  </button>
+                ))}
+              </div>
+              {editing && (
+                <HighlightEditor
+                  key={editing.id}
+                  highlight={editing}
+                  busy={busy}
+                  onRename={(title) => runAction(() => updateHighlight(editing.id, { title }), 'Failed to rename highlight')}
+                  onSetCover={(url) => runAction(() => updateHighlight(editing.id, { cover_url: url }), 'Failed to change cover')}
+                  onRemoveStory={(storyId) =>
+                    runAction(() => removeFromHighlight(editing.id, storyId), 'Failed to remove story')
+                  }
+                  onDelete={async () => {
+                    if (!confirm(`Delete the highlight "${editing.title}"? The stories stay in your archive.`)) return;
+                    if (await runAction(() => deleteHighlight(editing.id), 'Failed to delete highlight')) setEditingId(null);
+                  }}
+                />
+              )}
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Expired stories</h3>
+            <p className="text-sm text-gray-500 mb-4">Pick stories to start a highlight or add them to one.</p>
+            {stories.length === 0 ? (
+              <p className="py-8 text-center text-gray-500">Your stories will show up here after they expire.</p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {stories.map(story => (
+                  <StoryTile
+                    key={story.id}
+                    story={story}
+                    selected={selected.includes(story.id)}
+                    onToggle={() => toggleSelected(story.id)}
+                    onPlay={() => setPlaying(story)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {selected.length > 0 && (
+            <div className="sticky bottom-4 bg-white rounded-xl shadow-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-medium text-gray-900">
+                  {selected.length} {selected.length === 1 ? 'story' : 'stories'} selected
+                </p>
+                <button
+                  onClick={() => setSelected([])}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Clear
+                </button>
+              </div>
+              <form onSubmit={handleCreate} className="flex gap-2">
+                <input
+                  type="text"
+                  value={newTitle}
+                  onChange={(e) => setNewTitle(e.target.value)}
+                  placeholder="New highlight name"
+                  maxLength={HIGHLIGHT_TITLE_MAX}
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  disabled={busy || !newTitle.trim()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Create highlight
+                </button>
+              </form>
+              {highlights.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => handleAddTo(e.target.value)}
+                  disabled={busy}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Or add to an existing highlight…</option>
+                  {highlights.map(highlight => (
+                    <option key={highlight.id} value={highlight.id}>{highlight.title}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {playing && profile && (
+        <StoryViewer
+          storyGroups={[{ user: profile, stories: [playing], hasUnviewed: false, hasUnviewedCloseFriends: false }]}
+          initialGroupIndex={0}
+          onClose={() => setPlaying(null)}
+          onStoryDeleted={load}
+        />
+      )}
+    </div>
+  );
+}
+
+interface StoryTileProps {
+  story: StoryType;
+  selected: boolean;
+  onToggle: () => void;
+  onPlay: () => void;
+}
+
+function StoryTile({ story, selected, onToggle, onPlay }: StoryTileProps) {
+  return (
+    <div
+      onClick={onToggle}
+      className={`relative aspect-[9/16] rounded-lg overflow-hidden cursor-pointer ring-offset-2 transition-shadow ${
+        selected ? 'ring-2 ring-blue-500' : 'hover:ring-2 hover:ring-gray-300'
+      }`}
+      style={{ backgroundColor: story.background_color || '#3B82F6' }}
+    >
+      {story.image_url && <img src={story.image_url} alt="" className="absolute inset-0 w-full h-full object-cover" />}
+      <div className="absolute inset-0 bg-gradient-to-b from-black/40 via-transparent to-black/50" />
+      <span className="absolute top-2 left-2 text-white text-xs font-semibold drop-shadow">
+        {new Date(story.created_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+      </span>
+      <span className="absolute top-2 right-2 text-white drop-shadow">
+        {selected ? <CheckCircle2 size={20} className="fill-blue-500" /> : <Circle size={20} />}
+      </span>
+      {story.caption && (
+        <p className="absolute bottom-2 left-2 right-8 text-white text-xs font-medium line-clamp-2 drop-shadow">
+          {story.caption}
+        </p>
+      )}
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onPlay();
+        }}
+        className="absolute bottom-2 right-2 text-white/80 hover:text-white transition-colors"
+        title="Play story"
+      >
+        <Play size={16} fill="currentColor" />
+      </button>
+    </div>
+  );
+}
+
+interface HighlightEditorProps {
+  highlight: HighlightWithStories;
+  busy: boolean;
+  onRename: (title: string) => void;
+  onSetCover: (url: string) => void;
+  onRemoveStory: (storyId: string) => void;
+  onDelete: () => void;
+}
+
+function HighlightEditor({ highlight, busy, onRename, onSetCover, onRemoveStory, onDelete }: HighlightEditorProps) {
+  const [title, setTitle] = useState(highlight.title);
+  const trimmed = title.trim();
+
+  return (
+    <div className="mt-4 border-t pt-4 space-y-4">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (trimmed && trimmed !== highlight.title) onRename(trimmed);
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={HIGHLIGHT_TITLE_MAX}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={busy || !trimmed || trimmed === highlight.title}
+          className="px-3 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-1.5"
+        >
+          <Check size={16} />
+          Rename
+        </button>
+        <button
+          type="button"
+          onClick={onDelete}
+          disabled={busy}
+          className="px-3 py-2 text-gray-600 rounded-lg font-medium hover:bg-red-50 hover:text-red-600 transition-colors disabled:opacity-50"
+          title="Delete highlight"
+        >
+          <Trash2 size={18} />
+        </button>
+      </form>
+
+      {highlight.stories.length === 0 ? (
+        <p className="text-sm text-gray-500">This highlight is empty and won't show on your profile.</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500">Click a photo to make it the cover.</p>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {highlight.stories.map(story => {
+              const isCover = !!story.image_url && story.image_url === highlight.cover_url;
+              return (
+                <div
+                  key={story.id}
+                  className={`relative w-16 aspect-[9/16] rounded-md overflow-hidden flex-shrink-0 ${
+                    isCover ? 'ring-2 ring-blue-500 ring-offset-1' : ''
+                  }`}
+                  style={{ backgroundColor: story.background_color || '#3B82F6' }}
+                >
+                  {story.image_url && (
+                    <button
+                      onClick={() => onSetCover(story.image_url)}
+                      disabled={busy || isCover}
+                      className="absolute inset-0"
+                      title={isCover ? 'Cover' : 'Make cover'}
+                    >
+                      <img src={story.image_url} alt="" className="w-full h-full object-cover" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onRemoveStory(story.id)}
+                    disabled={busy}
+                    className="absolute top-1 right-1 w-5 h-5 bg-black/60 text-white rounded-full flex items-center justify-center hover:bg-black/80 transition-colors"
+                    title="Remove from highlight"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Profile } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { HighlightWithStories, fetchHighlights } from '../lib/highlights';
+import { paths } from '../lib/router';
+import { Plus, Archive } from 'lucide-react';
+import Link from './Link';
+import StoryViewer, { StoryGroup } from './StoryViewer';
+
+interface HighlightCoverProps {
+  highlight: HighlightWithStories;
+  // Size classes, e.g. "w-16 h-16"
+  className?: string;
+}
+
+// The highlight's cover image, or else its first story's image or colour.
+export function HighlightCover({ highlight, className = 'w-16 h-16' }: HighlightCoverProps) {
+  const first = highlight.stories[0];
+  const image = highlight.cover_url || first?.image_url;
+
+  return (
+    <div className={`${className} rounded-full p-[2px] bg-gray-300 flex-shrink-0`}>
+      <div className="w-full h-full rounded-full overflow-hidden bg-white p-[2px]">
+        {image ? (
+          <img src={image} alt="" className="w-full h-full object-cover rounded-full" />
+        ) : (
+          <div
+            className="w-full h-full rounded-full flex items-center justify-center text-white font-bold"
+            style={{ backgroundColor: first?.background_color || '#9CA3AF' }}
+          >
+            {highlight.title[0]?.toUpperCase()}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface StoryHighlightsProps {
+  user: Profile;
+}
+
+// A profile's highlights, each playable in the story viewer. Owners also
+// get a way into their archive to make new ones.
+export default function StoryHighlights({ user }: StoryHighlightsProps) {
+  const [highlights, setHighlights] = useState<HighlightWithStories[]>([]);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const { user: currentUser } = useAuth();
+  const isOwn = currentUser?.id === user.id;
+
+  const loadHighlights = useCallback(async () => {
+    try {
+      setHighlights(await fetchHighlights(user.id));
+    } catch (err) {
+      console.error('Error loading highlights:', err);
+    }
+  }, [user.id]);
+
+  useEffect(() => {
+    loadHighlights();
+  }, [loadHighlights]);
+
+  // Highlights whose stories were all deleted or hidden have nothing to play
+  const playable = highlights.filter(h => h.stories.length > 0);
+  if (playable.length === 0 && !isOwn) return null;
+
+  const storyGroups: StoryGroup[] = playable.map(h => ({
+    user,
+    stories: h.stories,
+    hasUnviewed: false,
+    hasUnviewedCloseFriends: false,
+    title: h.title,
+  }));
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900">Highlights</h3>
+        {isOwn && (
+          <Link
+            to={paths.archive()}
+            className="flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Archive size={16} />
+            Archive
+          </Link>
+        )}
+      </div>
+      <div className="flex gap-4 overflow-x-auto pb-1">
+        {isOwn && (
+          <Link to={paths.archive()} className="flex flex-col items-center gap-2 flex-shrink-0 group" title="New highlight">
+            <div className="w-16 h-16 rounded-full border-2 border-dashed border-gray-300 flex items-center justify-center text-gray-400 group-hover:border-blue-400 group-hover:text-blue-500 transition-colors">
+              <Plus size={24} />
+            </div>
+            <span className="text-xs text-gray-600 font-medium w-16 text-center truncate">New</span>
+          </Link>
+        )}
+        {playable.map((highlight, idx) => (
+          <button
+            key={highlight.id}
+            onClick={() => setOpenIndex(idx)}
+            className="flex flex-col items-center gap-2 flex-shrink-0"
+          >
+            <HighlightCover highlight={highlight} />
+            <span className="text-xs text-gray-600 font-medium w-16 text-center truncate">{highlight.title}</span>
+          </button>
+        ))}
+      </div>
+
+      {openIndex !== null && (
+        <StoryViewer
+          storyGroups={storyGroups}
+          initialGroupIndex={openIndex}
+          onClose={() => setOpenIndex(null)}
+          onStoryDeleted={loadHighlights}
+        />
+      )}
+    </div>
+  );
+}
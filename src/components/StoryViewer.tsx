@@ -1,12 +1,26 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase, Story as StoryType, Profile } from '../lib/supabase';
+import { supabase, Story as StoryType, StoryReply, StoryView, Profile } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { X, ChevronLeft, ChevronRight, Trash2 } from 'lucide-react';
+import {
+  STORY_QUICK_REACTIONS,
+  fetchStoryReplies,
+  fetchStoryReplyCounts,
+  fetchStoryViewSummary,
+  fetchStoryViewers,
+  sendStoryReply,
+} from '../lib/stories';
+import { X, ChevronLeft, ChevronRight, Trash2, Flag, Star, Eye, MessageCircle, Send } from 'lucide-react';
+import Avatar from './Avatar';
+import ReportDialog from './ReportDialog';
 
 export interface StoryGroup {
   user: Profile;
   stories: StoryType[];
   hasUnviewed: boolean;
+  // Whether any unviewed story is for close friends only
+  hasUnviewedCloseFriends: boolean;
+  // Shown in place of the username, e.g. a highlight's title
+  title?: string;
 }
 
 interface StoryViewerProps {
@@ -14,40 +28,106 @@ interface StoryViewerProps {
   initialGroupIndex: number;
   onClose: () => void;
   onStoryDeleted: () => void;
+  onGroupChange?: (userId: string) => void;
 }
 
 const STORY_DURATION = 5000; // 5 seconds per story
 
-export default function StoryViewer({ storyGroups, initialGroupIndex, onClose, onStoryDeleted }: StoryViewerProps) {
+export default function StoryViewer({ storyGroups, initialGroupIndex, onClose, onStoryDeleted, onGroupChange }: StoryViewerProps) {
   const [groupIndex, setGroupIndex] = useState(initialGroupIndex);
   const [storyIndex, setStoryIndex] = useState(0);
   const [progress, setProgress] = useState(0);
   const [paused, setPaused] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
+  // The story holds still while it's being reported
+  const [reporting, setReporting] = useState(false);
+  // Owners only: who has seen and replied to the current story, and which
+  // of those lists is open (which also holds the story still)
+  const [viewers, setViewers] = useState<StoryView[] | null>(null);
+  const [viewCounts, setViewCounts] = useState<Record<string, number>>({});
+  const [replies, setReplies] = useState<StoryReply[]>([]);
+  const [replyCounts, setReplyCounts] = useState<Record<string, number>>({});
+  const [ownerPanel, setOwnerPanel] = useState<'viewers' | 'replies' | null>(null);
+  // Everyone else: the reply being written, which holds the story still
+  // while the box is focused or has text in it
+  const [replyText, setReplyText] = useState('');
+  const [replyFocused, setReplyFocused] = useState(false);
+  const [sendingReply, setSendingReply] = useState(false);
+  const [sentNotice, setSentNotice] = useState<string | null>(null);
+  const replyInput = useRef<HTMLInputElement>(null);
   const progressInterval = useRef<ReturnType<typeof setInterval> | null>(null);
   const startTime = useRef<number>(Date.now());
   const { user } = useAuth();
 
   const currentGroup = storyGroups[groupIndex];
   const currentStory = currentGroup?.stories[storyIndex];
+  const currentStoryId = currentStory?.id;
+  const currentImageUrl = currentStory?.image_url;
   const isOwnStory = user?.id === currentGroup?.user.id;
+  const composing = replyFocused || replyText.trim() !== '';
+
+  const currentUserId = currentGroup?.user.id;
+  useEffect(() => {
+    if (currentUserId) onGroupChange?.(currentUserId);
+  }, [currentUserId, onGroupChange]);
 
   // Record view
   useEffect(() => {
-    if (!currentStory || isOwnStory) return;
+    if (!currentStoryId || isOwnStory) return;
 
     const recordView = async () => {
       await supabase
         .from('story_views')
         .upsert(
-          { story_id: currentStory.id, user_id: user!.id },
+          { story_id: currentStoryId, user_id: user!.id },
           { onConflict: 'story_id,user_id' }
         );
     };
     recordView();
-  }, [currentStory?.id, isOwnStory, user]);
+  }, [currentStoryId, isOwnStory, user]);
+
+  // Joined so a parent re-rendering with the same stories doesn't refetch
+  const groupStoryIds = currentGroup?.stories.map(s => s.id).join(',');
+  useEffect(() => {
+    setViewers(null);
+    setReplies([]);
+    if (!currentStoryId || !isOwnStory || !groupStoryIds) return;
+
+    let cancelled = false;
+    const storyIds = groupStoryIds.split(',');
+    Promise.all([
+      fetchStoryViewers(currentStoryId),
+      fetchStoryViewSummary(storyIds),
+      fetchStoryReplies(currentStoryId),
+      fetchStoryReplyCounts(storyIds),
+    ])
+      .then(([result, summary, storyReplies, counts]) => {
+        if (cancelled) return;
+        setViewers(result);
+        setViewCounts(summary.counts);
+        setReplies(storyReplies);
+        setReplyCounts(counts);
+      })
+      .catch(err => console.error('Error loading story viewers:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentStoryId, isOwnStory, groupStoryIds]);
 
-  // Progress timer
+  // A half-written reply doesn't follow you to the next story
+  useEffect(() => {
+    setReplyText('');
+  }, [currentStoryId]);
+
+  useEffect(() => {
+    if (!sentNotice) return;
+    const timeout = setTimeout(() => setSentNotice(null), 1500);
+    return () => clearTimeout(timeout);
+  }, [sentNotice]);
+
+  // Progress timer. goNext is read through a ref so the timer always moves
+  // on from the story it was started for.
+  const goNextRef = useRef<() => void>(() => {});
   const startProgress = useCallback(() => {
     startTime.current = Date.now();
     setProgress(0);
@@ -61,24 +141,24 @@ export default function StoryViewer({ storyGroups, initialGroupIndex, onClose, o
 
       if (pct >= 100) {
         clearInterval(progressInterval.current!);
-        goNext();
+        goNextRef.current();
       }
     }, 50);
-  }, [groupIndex, storyIndex, storyGroups.length]);
+  }, []);
 
   useEffect(() => {
-    if (!paused && imageLoaded) {
+    if (!paused && !reporting && !ownerPanel && !composing && imageLoaded) {
       startProgress();
     }
     return () => {
       if (progressInterval.current) clearInterval(progressInterval.current);
     };
-  }, [groupIndex, storyIndex, paused, imageLoaded, startProgress]);
+  }, [groupIndex, storyIndex, paused, reporting, ownerPanel, composing, imageLoaded, startProgress]);
 
   // Preload image
   useEffect(() => {
-    if (!currentStory) return;
-    if (!currentStory.image_url) {
+    if (!currentStoryId) return;
+    if (!currentImageUrl) {
       setImageLoaded(true);
       return;
     }
@@ -86,8 +166,8 @@ export default function StoryViewer({ storyGroups, initialGroupIndex, onClose, o
     const img = new Image();
     img.onload = () => setImageLoaded(true);
     img.onerror = () => setImageLoaded(true);
-    img.src = currentStory.image_url;
-  }, [currentStory?.id]);
+    img.src = currentImageUrl;
+  }, [currentStoryId, currentImageUrl]);
 
   const goNext = useCallback(() => {
     if (groupIndex < storyGroups.length - 1) {
@@ -103,6 +183,7 @@ export default function StoryViewer({ storyGroups, initialGroupIndex, onClose, o
       onClose();
     }
   }, [groupIndex, storyIndex, storyGroups.length, currentGroup, onClose]);
+  goNextRef.current = goNext;
 
   const goPrev = useCallback(() => {
     if (storyIndex > 0) {
@@ -116,6 +197,15 @@ export default function StoryViewer({ storyGroups, initialGroupIndex, onClose, o
   // Keyboard navigation
   useEffect(() => {
     const handleKey = (e: KeyboardEvent) => {
+      if (reporting) return;
+      if (replyFocused) {
+        if (e.key === 'Escape') replyInput.current?.blur();
+        return;
+      }
+      if (ownerPanel) {
+        if (e.key === 'Escape') setOwnerPanel(null);
+        return;
+      }
       if (e.key === 'ArrowRight' || e.key === ' ') {
         e.preventDefault();
         goNext();
@@ -125,7 +215,7 @@ export default function StoryViewer({ storyGroups, initialGroupIndex, onClose, o
     };
     window.addEventListener('keydown', handleKey);
     return () => window.removeEventListener('keydown', handleKey);
-  }, [goNext, goPrev, onClose]);
+  }, [goNext, goPrev, onClose, reporting, replyFocused, ownerPanel]);
 
   const handleDelete = async () => {
     if (!currentStory || !isOwnStory) return;
@@ -145,6 +235,29 @@ export default function StoryViewer({ storyGroups, initialGroupIndex, onClose, o
     }
   };
 
+  const sendReply = async (content: string, isReaction = false) => {
+    if (!user || !currentStory || sendingReply) return;
+    setSendingReply(true);
+    try {
+      await sendStoryReply(currentStory.id, user.id, content, isReaction);
+      if (!isReaction) {
+        setReplyText('');
+        replyInput.current?.blur();
+      }
+      setSentNotice(isReaction ? `${content} Sent` : 'Reply sent');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to send reply');
+    } finally {
+      setSendingReply(false);
+    }
+  };
+
+  const handleReplySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = replyText.trim();
+    if (content) sendReply(content);
+  };
+
   const timeAgo = (dateStr: string) => {
     const diff = Date.now() - new Date(dateStr).getTime();
     const mins = Math.floor(diff / 60000);
@@ -245,10 +358,16 @@ export default function StoryViewer({ storyGroups, initialGroupIndex, onClose, o
           </div>
           <div className="flex-1 min-w-0">
             <p className="text-white font-semibold text-sm truncate">
-              {currentGroup.user.username}
+              {currentGroup.title ?? currentGroup.user.username}
             </p>
-            <p className="text-white/60 text-xs">
+            <p className="text-white/60 text-xs flex items-center gap-2">
               {timeAgo(currentStory.created_at)}
+              {currentStory.audience === 'close_friends' && (
+                <span className="inline-flex items-center gap-1 px-1.5 py-0.5 bg-green-500 text-white rounded-full text-[10px] font-semibold">
+                  <Star size={10} fill="currentColor" />
+                  Close friends
+                </span>
+              )}
             </p>
           </div>
           {isOwnStory && (
@@ -260,11 +379,20 @@ export default function StoryViewer({ storyGroups, initialGroupIndex, onClose, o
               <Trash2 size={18} />
             </button>
           )}
+          {!isOwnStory && (
+            <button
+              onClick={() => setReporting(true)}
+              className="text-white/60 hover:text-red-400 transition-colors p-1"
+              title="Report story"
+            >
+              <Flag size={18} />
+            </button>
+          )}
         </div>
 
         {/* Caption text */}
         {currentStory.caption && (
-          <div className="absolute bottom-8 left-4 right-4 z-20">
+          <div className={`absolute ${isOwnStory ? 'bottom-8' : 'bottom-28'} left-4 right-4 z-20`}>
             <p className="text-white text-lg font-medium text-center drop-shadow-lg leading-relaxed">
               {currentStory.caption}
             </p>
@@ -277,8 +405,188 @@ export default function StoryViewer({ storyGroups, initialGroupIndex, onClose, o
           <div className="w-1/3 h-full" />
           <div className="w-1/3 h-full" onClick={goNext} />
         </div>
+
+        {/* Seen by and replies (own stories only) */}
+        {isOwnStory && viewers && (
+          <div className="absolute bottom-2 left-3 z-20 flex items-center gap-1">
+            <button
+              onClick={() => setOwnerPanel('viewers')}
+              className="flex items-center gap-1.5 px-2 py-1 text-white/80 hover:text-white text-xs font-medium transition-colors"
+            >
+              <Eye size={14} />
+              Seen by {viewers.length}
+            </button>
+            <button
+              onClick={() => setOwnerPanel('replies')}
+              className="flex items-center gap-1.5 px-2 py-1 text-white/80 hover:text-white text-xs font-medium transition-colors"
+            >
+              <MessageCircle size={14} />
+              {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+            </button>
+          </div>
+        )}
+
+        {ownerPanel && viewers && (
+          <div
+            className="absolute inset-x-0 bottom-0 z-30 h-2/3 bg-white rounded-t-2xl flex flex-col"
+            onMouseDown={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b">
+              <div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setOwnerPanel('viewers')}
+                    className={`font-semibold flex items-center gap-1.5 transition-colors ${
+                      ownerPanel === 'viewers' ? 'text-gray-900' : 'text-gray-400 hover:text-gray-600'
+                    }`}
+                  >
+                    <Eye size={16} />
+                    Seen by {viewers.length}
+                  </button>
+                  <button
+                    onClick={() => setOwnerPanel('replies')}
+                    className={`font-semibold flex items-center gap-1.5 transition-colors ${
+                      ownerPanel === 'replies' ? 'text-gray-900' : 'text-gray-400 hover:text-gray-600'
+                    }`}
+                  >
+                    <MessageCircle size={16} />
+                    {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+                  </button>
+                </div>
+                {currentGroup.stories.length > 1 && (
+                  <p className="text-xs text-gray-500">
+                    Story {storyIndex + 1} of {currentGroup.stories.length}
+                  </p>
+                )}
+              </div>
+              {currentGroup.stories.length > 1 && (
+                <div className="flex gap-1 ml-auto mr-3">
+                  {currentGroup.stories.map((story, idx) => (
+                    <button
+                      key={story.id}
+                      onClick={() => setStoryIndex(idx)}
+                      className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium transition-colors ${
+                        idx === storyIndex ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                      title={`Story ${idx + 1}`}
+                    >
+                      {ownerPanel === 'viewers' ? <Eye size={12} /> : <MessageCircle size={12} />}
+                      {(ownerPanel === 'viewers' ? viewCounts : replyCounts)[story.id] ?? 0}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <button
+                onClick={() => setOwnerPanel(null)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+            {ownerPanel === 'viewers' && (
+              viewers.length === 0 ? (
+                <p className="p-6 text-center text-sm text-gray-500">No one has seen this story yet.</p>
+              ) : (
+                <div className="flex-1 overflow-y-auto divide-y">
+                  {viewers.map(view => (
+                    <div key={view.id} className="flex items-center gap-3 px-4 py-2.5">
+                      <Avatar profile={view.profiles} className="w-9 h-9 text-sm flex-shrink-0" />
+                      <span className="flex-1 min-w-0 font-medium text-gray-900 text-sm truncate">
+                        {view.profiles!.username}
+                      </span>
+                      <span className="text-xs text-gray-400" title={new Date(view.viewed_at).toLocaleString()}>
+                        {timeAgo(view.viewed_at)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+            {ownerPanel === 'replies' && (
+              replies.length === 0 ? (
+                <p className="p-6 text-center text-sm text-gray-500">No one has replied to this story yet.</p>
+              ) : (
+                <div className="flex-1 overflow-y-auto divide-y">
+                  {replies.map(reply => (
+                    <div key={reply.id} className="flex items-start gap-3 px-4 py-2.5">
+                      <Avatar profile={reply.profiles} className="w-9 h-9 text-sm flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-900 text-sm truncate">{reply.profiles!.username}</p>
+                        {reply.is_reaction ? (
+                          <p className="text-2xl leading-snug">{reply.content}</p>
+                        ) : (
+                          <p className="text-sm text-gray-700 break-words">{reply.content}</p>
+                        )}
+                      </div>
+                      <span className="text-xs text-gray-400" title={new Date(reply.created_at).toLocaleString()}>
+                        {timeAgo(reply.created_at)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        {/* Reply box and quick reactions (other people's stories) */}
+        {!isOwnStory && (
+          <div
+            className="absolute inset-x-3 bottom-3 z-20 space-y-2"
+            onMouseDown={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-center gap-3">
+              {STORY_QUICK_REACTIONS.map(emoji => (
+                <button
+                  key={emoji}
+                  onClick={() => sendReply(emoji, true)}
+                  disabled={sendingReply}
+                  className="text-2xl hover:scale-125 transition-transform disabled:opacity-50"
+                  title={`React with ${emoji}`}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+            <form onSubmit={handleReplySubmit} className="flex items-center gap-2">
+              <input
+                ref={replyInput}
+                type="text"
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                onFocus={() => setReplyFocused(true)}
+                onBlur={() => setReplyFocused(false)}
+                placeholder={`Reply to ${currentGroup.user.username}...`}
+                maxLength={500}
+                className="flex-1 min-w-0 px-4 py-2 bg-black/20 border border-white/60 rounded-full text-white text-sm placeholder-white/70 focus:outline-none focus:border-white"
+              />
+              <button
+                type="submit"
+                disabled={!replyText.trim() || sendingReply}
+                className="text-white p-2 disabled:opacity-40 transition-opacity"
+                title="Send reply"
+              >
+                <Send size={20} />
+              </button>
+            </form>
+          </div>
+        )}
+
+        {sentNotice && (
+          <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 z-20 flex justify-center pointer-events-none">
+            <span className="px-4 py-2 bg-black/60 text-white rounded-full text-sm font-medium">
+              {sentNotice}
+            </span>
+          </div>
+        )}
       </div>
 
+      {reporting && (
+        <ReportDialog targetType="story" targetId={currentStory.id} onClose={() => setReporting(false)} />
+      )}
+
       {/* Story counter */}
       <div className="absolute bottom-4 left-1/2 -translate-x-1/2 text-white/40 text-sm">
         {groupIndex + 1} / {storyGroups.length}
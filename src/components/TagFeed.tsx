@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { FeedPost } from '../lib/supabase';
+import { FEED_PAGE_SIZE, fetchFeedPage, feedStore } from '../lib/feed';
+import Post from './Post';
+import { Hash } from 'lucide-react';
+
+interface TagFeedProps {
+  tag: string;
+}
+
+// Every post using one hashtag, newest first.
+export default function TagFeed({ tag }: TagFeedProps) {
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const page = await fetchFeedPage({ hashtag: tag });
+        feedStore.upsert(page);
+        setPosts(page);
+        setHasMore(page.length === FEED_PAGE_SIZE);
+      } catch (err) {
+        console.error('Error loading tag feed:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [tag]);
+
+  const loadMore = async () => {
+    if (loadingMore || posts.length === 0) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchFeedPage({ hashtag: tag, before: posts[posts.length - 1] });
+      feedStore.upsert(page);
+      setPosts(prev => [...prev, ...page]);
+      setHasMore(page.length === FEED_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading more posts:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-xl shadow-md p-6 mb-6 flex items-center gap-4">
+        <div className="w-14 h-14 rounded-full bg-blue-50 text-blue-600 flex items-center justify-center flex-shrink-0">
+          <Hash size={28} />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 truncate">#{tag}</h2>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+          No posts tagged #{tag} yet.
+        </div>
+      ) : (
+        <>
+          {posts.map(post => (
+            <Post
+              key={post.id}
+              post={post}
+              onDelete={() => setPosts(prev => prev.filter(p => p.id !== post.id))}
+            />
+          ))}
+          {hasMore && (
+            <div className="text-center">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-6 py-2 bg-white text-blue-600 rounded-lg font-medium shadow-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import { TrendingHashtag } from '../lib/supabase';
+import { fetchTrendingHashtags } from '../lib/hashtags';
+import { paths } from '../lib/router';
+import Link from './Link';
+import { TrendingUp } from 'lucide-react';
+
+// Refresh the trending list this often while the feed is open
+const TRENDING_REFRESH_MS = 5 * 60 * 1000;
+
+export default function TrendingTags() {
+  const [tags, setTags] = useState<TrendingHashtag[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setTags(await fetchTrendingHashtags());
+      } catch (err) {
+        console.error('Error loading trending tags:', err);
+      }
+    };
+    load();
+    const interval = setInterval(load, TRENDING_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-4 mb-6">
+      <h3 className="flex items-center gap-2 font-semibold text-gray-900 mb-3">
+        <TrendingUp size={18} className="text-blue-600" />
+        Trending
+      </h3>
+      <div className="flex flex-wrap gap-2">
+        {tags.map(({ tag, post_count }) => (
+          <Link
+            key={tag}
+            to={paths.tag(tag)}
+            className="px-3 py-1.5 bg-gray-50 rounded-full text-sm hover:bg-blue-50 transition-colors"
+          >
+            <span className="font-medium text-blue-600">#{tag}</span>
+            <span className="text-gray-500 ml-1.5">{post_count} {post_count === 1 ? 'post' : 'posts'}</span>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { ReactNode } from 'react';
+import { paths } from '../lib/router';
+import Link from './Link';
+
+interface UserLinkProps {
+  username: string | undefined;
+  children: ReactNode;
+  className?: string;
+}
+
+// A username (or avatar) that opens the user's profile page.
+export default function UserLink({ username, children, className = '' }: UserLinkProps) {
+  if (!username) return <span className={className}>{children}</span>;
+
+  return (
+    <Link to={paths.user(username)} className={`hover:underline ${className}`}>
+      {children}
+    </Link>
+  );
+}
@@ -0,0 +1,392 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, FeedPost, Follow, Friendship, Profile, ProfileStats } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { openDirectConversation } from '../lib/messages';
+import { navigate, paths } from '../lib/router';
+import { FEED_PAGE_SIZE, fetchFeedPage, feedStore } from '../lib/feed';
+import {
+  acceptFriendRequest,
+  blockUser,
+  cancelFriendRequest,
+  declineFriendRequest,
+  fetchMutualFriends,
+  fetchProfileStats,
+  fetchRelationship,
+  followUser,
+  muteUser,
+  sendFriendRequest,
+  unfollowUser,
+  unfriend,
+  unmuteUser,
+} from '../lib/social';
+import Avatar from './Avatar';
+import Link from './Link';
+import Post from './Post';
+import ReportDialog from './ReportDialog';
+import StoryHighlights from './StoryHighlights';
+import { UserPlus, UserCheck, UserMinus, Users, MessageSquare, Check, X, Volume2, VolumeX, Ban, Flag, Clock, Lock } from 'lucide-react';
+
+interface UserProfileProps {
+  username: string;
+}
+
+export default function UserProfile({ username }: UserProfileProps) {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [stats, setStats] = useState<ProfileStats | null>(null);
+  const [mutualFriends, setMutualFriends] = useState<Profile[]>([]);
+  const [followStatus, setFollowStatus] = useState<Follow['status'] | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [friendship, setFriendship] = useState<Friendship | null>(null);
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [reporting, setReporting] = useState(false);
+  const { user } = useAuth();
+
+  const userId = profile?.id;
+
+  const loadRelationship = useCallback(async () => {
+    if (!user || !userId) return;
+    const [relationship, nextStats] = await Promise.all([
+      fetchRelationship(user.id, userId),
+      fetchProfileStats(userId),
+    ]);
+    setFollowStatus(relationship.followStatus);
+    setIsMuted(relationship.isMuted);
+    setFriendship(relationship.friendship);
+    setStats(nextStats);
+  }, [user, userId]);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('*')
+          .eq('username', username)
+          .maybeSingle();
+
+        if (error) throw error;
+        setProfile(data);
+        if (!data) return;
+
+        const [page, mutual] = await Promise.all([
+          fetchFeedPage({ authorId: data.id }),
+          fetchMutualFriends(data.id),
+        ]);
+        feedStore.upsert(page);
+        setPosts(page);
+        setHasMore(page.length === FEED_PAGE_SIZE);
+        setMutualFriends(mutual);
+      } catch (err) {
+        console.error('Error loading profile:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [username]);
+
+  useEffect(() => {
+    loadRelationship().catch(err => console.error('Error loading relationship:', err));
+  }, [loadRelationship]);
+
+  const loadMore = async () => {
+    if (loadingMore || posts.length === 0) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchFeedPage({ authorId: userId, before: posts[posts.length - 1] });
+      feedStore.upsert(page);
+      setPosts(prev => [...prev, ...page]);
+      setHasMore(page.length === FEED_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading more posts:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Refresh stats and buttons from the server after each action, so the
+  // counts can't drift from what was actually saved.
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Error updating relationship:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update relationship');
+    } finally {
+      await loadRelationship();
+      setBusy(false);
+    }
+  };
+
+  // Once blocked the profile is hidden from us too, so there's nothing left
+  // to show here; unblocking happens from settings.
+  const block = async () => {
+    if (!userId || !profile) return;
+    if (!confirm(`Block ${profile.username}? You won't see each other's profiles, posts or stories, and any follows or friendship between you will be removed.`)) return;
+    setBusy(true);
+    try {
+      await blockUser(userId);
+      navigate(paths.settings(), { replace: true });
+    } catch (err) {
+      console.error('Error blocking user:', err);
+      alert(err instanceof Error ? err.message : 'Failed to block user');
+      setBusy(false);
+    }
+  };
+
+  const openMessages = async () => {
+    if (!userId) return;
+    try {
+      await openDirectConversation(userId);
+    } catch (err) {
+      console.error('Error opening conversation:', err);
+      alert(err instanceof Error ? err.message : 'Failed to open conversation');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!profile || !userId || !user) {
+    return (
+      <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+        This user doesn't exist.
+      </div>
+    );
+  }
+
+  const isFriend = friendship?.status === 'accepted';
+  const requestSent = friendship?.status === 'pending' && friendship.requested_by === user.id;
+  const requestReceived = friendship?.status === 'pending' && friendship.requested_by !== user.id;
+  // Mirrors can_view_content_of; row level security already left out the
+  // posts, this only explains why there are none
+  const isLocked = profile.is_private && userId !== user.id && followStatus !== 'accepted' && !isFriend;
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-xl shadow-md p-8 mb-6">
+        <div className="flex items-center gap-6 mb-6">
+          <Avatar profile={profile} className="w-24 h-24 text-4xl flex-shrink-0" />
+          <div className="min-w-0">
+            <h2 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
+              <span className="truncate">{profile.username}</span>
+              {profile.is_private && <Lock size={20} className="text-gray-400 flex-shrink-0" aria-label="Private account" />}
+            </h2>
+            {profile.full_name && <p className="text-xl text-gray-600">{profile.full_name}</p>}
+          </div>
+        </div>
+
+        {stats && (
+          <div className="grid grid-cols-4 gap-2 mb-6 text-center">
+            {[
+              { label: 'Posts', value: stats.post_count },
+              { label: 'Followers', value: stats.follower_count },
+              { label: 'Following', value: stats.following_count },
+              { label: 'Friends', value: stats.friend_count },
+            ].map(stat => (
+              <div key={stat.label} className="bg-gray-50 rounded-lg py-3">
+                <p className="text-xl font-bold text-gray-900">{stat.value}</p>
+                <p className="text-sm text-gray-500">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          <button
+            onClick={() => runAction(() => (followStatus ? unfollowUser(user.id, userId) : followUser(user.id, userId)))}
+            disabled={busy}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 disabled:opacity-50 ${
+              followStatus
+                ? 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                : 'bg-blue-600 text-white hover:bg-blue-700'
+            }`}
+            title={followStatus === 'pending' ? 'Cancel follow request' : undefined}
+          >
+            {followStatus === 'accepted' && <><UserCheck size={18} />Following</>}
+            {followStatus === 'pending' && <><Clock size={18} />Requested</>}
+            {!followStatus && <><UserPlus size={18} />{profile.is_private ? 'Request to Follow' : 'Follow'}</>}
+          </button>
+
+          {(!friendship || friendship.status === 'rejected') && (
+            <button
+              onClick={() => runAction(() => sendFriendRequest(userId))}
+              disabled={busy}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Users size={18} />
+              Add Friend
+            </button>
+          )}
+
+          {requestSent && (
+            <button
+              onClick={() => runAction(() => cancelFriendRequest(userId))}
+              disabled={busy}
+              className="px-4 py-2 bg-gray-100 text-gray-600 rounded-lg font-medium hover:bg-gray-200 transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <X size={18} />
+              Cancel Request
+            </button>
+          )}
+
+          {requestReceived && (
+            <button
+              onClick={() => runAction(() => acceptFriendRequest(userId))}
+              disabled={busy}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Check size={18} />
+              Accept Request
+            </button>
+          )}
+
+          {requestReceived && (
+            <button
+              onClick={() => runAction(() => declineFriendRequest(userId))}
+              disabled={busy}
+              className="px-4 py-2 bg-gray-100 text-gray-600 rounded-lg font-medium hover:bg-gray-200 transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <X size={18} />
+              Decline
+            </button>
+          )}
+
+          {isFriend && (
+            <>
+              <div className="px-4 py-2 bg-green-100 text-green-700 rounded-lg font-medium flex items-center gap-2">
+                <UserCheck size={18} />
+                Friends
+              </div>
+              <button
+                onClick={openMessages}
+                className="px-4 py-2 bg-blue-50 text-blue-700 rounded-lg font-medium hover:bg-blue-100 transition-colors flex items-center gap-2"
+              >
+                <MessageSquare size={18} />
+                Message
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`Remove ${profile.username} from your friends?`)) runAction(() => unfriend(userId));
+                }}
+                disabled={busy}
+                className="px-4 py-2 text-gray-600 rounded-lg font-medium hover:bg-red-50 hover:text-red-600 transition-colors flex items-center gap-2 disabled:opacity-50"
+              >
+                <UserMinus size={18} />
+                Unfriend
+              </button>
+            </>
+          )}
+
+          <button
+            onClick={() => runAction(() => (isMuted ? unmuteUser(user.id, userId) : muteUser(user.id, userId)))}
+            disabled={busy}
+            className="px-4 py-2 text-gray-600 rounded-lg font-medium hover:bg-gray-100 transition-colors flex items-center gap-2 disabled:opacity-50"
+            title={isMuted ? undefined : 'Hide their posts and stories from your feed'}
+          >
+            {isMuted ? <Volume2 size={18} /> : <VolumeX size={18} />}
+            {isMuted ? 'Unmute' : 'Mute'}
+          </button>
+
+          <button
+            onClick={block}
+            disabled={busy}
+            className="px-4 py-2 text-gray-600 rounded-lg font-medium hover:bg-red-50 hover:text-red-600 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Ban size={18} />
+            Block
+          </button>
+
+          <button
+            onClick={() => setReporting(true)}
+            className="px-4 py-2 text-gray-600 rounded-lg font-medium hover:bg-red-50 hover:text-red-600 transition-colors flex items-center gap-2"
+          >
+            <Flag size={18} />
+            Report
+          </button>
+        </div>
+
+        {profile.bio && (
+          <div className="mb-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Bio</h3>
+            <p className="text-gray-700">{profile.bio}</p>
+          </div>
+        )}
+
+        {mutualFriends.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              {mutualFriends.length} mutual {mutualFriends.length === 1 ? 'friend' : 'friends'}
+            </h3>
+            <div className="flex flex-wrap gap-3">
+              {mutualFriends.map(friend => (
+                <Link
+                  key={friend.id}
+                  to={paths.user(friend.username)}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-gray-50 rounded-full hover:bg-gray-100 transition-colors"
+                >
+                  <Avatar profile={friend} className="w-7 h-7 text-xs" />
+                  <span className="text-sm font-medium text-gray-800">{friend.username}</span>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!isLocked && <StoryHighlights user={profile} />}
+
+        <div className="border-t pt-6">
+          <p className="text-sm text-gray-500">
+            Member since {new Date(profile.created_at).toLocaleDateString()}
+          </p>
+        </div>
+      </div>
+
+      {isLocked ? (
+        <div className="bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+          <Lock size={32} className="mx-auto mb-3 text-gray-400" />
+          <p className="font-semibold text-gray-700">This account is private</p>
+          <p className="text-sm mt-1">Follow {profile.username} to see their posts and stories.</p>
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+          {profile.username} hasn't posted anything yet.
+        </div>
+      ) : (
+        <>
+          {posts.map(post => (
+            <Post
+              key={post.id}
+              post={post}
+              onDelete={() => setPosts(prev => prev.filter(p => p.id !== post.id))}
+            />
+          ))}
+          {hasMore && (
+            <div className="text-center">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-6 py-2 bg-white text-blue-600 rounded-lg font-medium shadow-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      {reporting && <ReportDialog targetType="profile" targetId={userId} onClose={() => setReporting(false)} />}
+    </div>
+  );
+}
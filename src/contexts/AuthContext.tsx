@@ -9,6 +9,8 @@ interface AuthContextType {
   signUp: (email: string, password: string, username: string, fullName: string) => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
+  updateProfile: (updates: Partial<Pick<Profile, 'username' | 'full_name' | 'bio' | 'avatar_url' | 'is_private'>>) => Promise<void>;
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -80,6 +82,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const refreshProfile = async () => {
+    if (user) await loadProfile(user.id);
+  };
+
+  // In demo mode this goes through the shim, which updates the in-memory
+  // profile (DEMO_PROFILE itself) so the change shows everywhere.
+  const updateProfile: AuthContextType['updateProfile'] = async (updates) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', user.id);
+
+    if (error) throw error;
+    await refreshProfile();
+  };
+
   const signUp = async (email: string, password: string, username: string, fullName: string) => {
     if (isDemoMode) {
       const demoProfile: Profile = { ...DEMO_PROFILE, username, full_name: fullName };
@@ -124,7 +144,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, profile, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider value={{ user, profile, loading, signUp, signIn, signOut, updateProfile, refreshProfile }}>
       {children}
     </AuthContext.Provider>
   );
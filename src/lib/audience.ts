@@ -0,0 +1,29 @@
+import { supabase, PostVisibility, StoryAudience } from './supabase';
+
+// In the order CreatePost offers them
+export const POST_AUDIENCES: { value: PostVisibility; label: string; description: string }[] = [
+  { value: 'public', label: 'Public', description: 'Anyone who can see your posts' },
+  { value: 'followers', label: 'Followers', description: 'People who follow you' },
+  { value: 'friends', label: 'Friends', description: 'Your friends' },
+  { value: 'custom', label: 'Custom', description: 'Only the friends you pick' },
+  { value: 'only_me', label: 'Only me', description: 'Just you' },
+];
+
+export const audienceLabel = (visibility: PostVisibility) =>
+  POST_AUDIENCES.find(a => a.value === visibility)?.label ?? visibility;
+
+// The friends who can see a 'custom' post. Only the author can set this,
+// and only to their friends.
+export async function addPostAudienceMembers(postId: string, userIds: string[]) {
+  if (userIds.length === 0) return;
+  const { error } = await supabase
+    .from('post_audience_members')
+    .insert(userIds.map(userId => ({ post_id: postId, user_id: userId })));
+  if (error) throw error;
+}
+
+export const STORY_AUDIENCES: { value: StoryAudience; label: string; description: string }[] = [
+  { value: 'everyone', label: 'Everyone', description: 'Anyone who can see your stories' },
+  { value: 'friends', label: 'Friends', description: 'Your friends' },
+  { value: 'close_friends', label: 'Close friends', description: 'Friends on your close friends list' },
+];
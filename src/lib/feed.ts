@@ -0,0 +1,139 @@
+import { useSyncExternalStore } from 'react';
+import { supabase, FeedPost } from './supabase';
+
+export const FEED_PAGE_SIZE = 10;
+
+export type FeedMode = 'everyone' | 'following' | 'friends';
+
+export const FEED_MODES: { value: FeedMode; label: string }[] = [
+  { value: 'everyone', label: 'Everyone' },
+  { value: 'following', label: 'Following' },
+  { value: 'friends', label: 'Friends' },
+];
+
+// ─── Queries ─────────────────────────────────────────────────────────
+
+interface FeedPageOptions {
+  mode?: FeedMode;
+  before?: FeedPost;
+  newerThan?: FeedPost;
+  limit?: number;
+  // Only this user's posts (a profile timeline)
+  authorId?: string;
+  // Only this post (a linked post page)
+  postId?: string;
+  // Only posts matching this search text
+  query?: string;
+  // Only posts tagged with this hashtag
+  hashtag?: string;
+}
+
+// One round trip per page: post rows come back with author profile, like
+// and comment counts, "liked by me" and a comment preview already attached.
+// Pages are keyed on (created_at, id) rather than offsets, so rows don't
+// shift between pages when new posts arrive.
+export async function fetchFeedPage({ mode = 'everyone', before, newerThan, limit = FEED_PAGE_SIZE, authorId, postId, query, hashtag }: FeedPageOptions = {}) {
+  const { data, error } = await supabase.rpc('get_feed_page', {
+    p_mode: mode,
+    p_before_created_at: before?.created_at ?? null,
+    p_before_id: before?.id ?? null,
+    p_after_created_at: newerThan?.created_at ?? null,
+    p_after_id: newerThan?.id ?? null,
+    p_limit: limit,
+    p_author_id: authorId ?? null,
+    p_post_id: postId ?? null,
+    p_query: query ?? null,
+    p_hashtag: hashtag ?? null,
+  });
+
+  if (error) throw error;
+  return (data || []) as FeedPost[];
+}
+
+export async function fetchPost(postId: string) {
+  const [post] = await fetchFeedPage({ postId, limit: 1 });
+  return post ?? null;
+}
+
+// Visible comments per post, for recounting after a realtime delete, which
+// doesn't say which post the comment was on.
+export async function fetchCommentCounts(postIds: string[]) {
+  const counts: Record<string, number> = {};
+  if (postIds.length === 0) return counts;
+
+  const { data, error } = await supabase
+    .from('comments')
+    .select('post_id')
+    .in('post_id', postIds);
+
+  if (error) throw error;
+  for (const comment of data || []) counts[comment.post_id] = (counts[comment.post_id] || 0) + 1;
+  return counts;
+}
+
+// ─── Mode preference ─────────────────────────────────────────────────
+// Remembered per user on this device, so switching accounts doesn't carry
+// one person's choice over to the next.
+
+const modeKey = (userId: string) => `hfz:feed-mode:${userId}`;
+
+export function loadFeedMode(userId: string): FeedMode {
+  const stored = localStorage.getItem(modeKey(userId));
+  return FEED_MODES.some((m) => m.value === stored) ? (stored as FeedMode) : 'everyone';
+}
+
+export function saveFeedMode(userId: string, mode: FeedMode) {
+  localStorage.setItem(modeKey(userId), mode);
+}
+
+// ─── Store ───────────────────────────────────────────────────────────
+// Posts are kept by id outside React state so a like or comment on one
+// post re-renders only that post, and so later updates (realtime events,
+// other views of the same post) have a single place to land.
+
+const posts = new Map<string, FeedPost>();
+const listeners = new Map<string, Set<() => void>>();
+
+function notify(postId: string) {
+  listeners.get(postId)?.forEach((listener) => listener());
+}
+
+export const feedStore = {
+  get(postId: string) {
+    return posts.get(postId);
+  },
+
+  upsert(rows: FeedPost[]) {
+    for (const row of rows) {
+      posts.set(row.id, row);
+      notify(row.id);
+    }
+  },
+
+  update(postId: string, updater: (post: FeedPost) => FeedPost) {
+    const current = posts.get(postId);
+    if (!current) return;
+    posts.set(postId, updater(current));
+    notify(postId);
+  },
+
+  remove(postId: string) {
+    posts.delete(postId);
+    notify(postId);
+  },
+
+  subscribe(postId: string, listener: () => void) {
+    if (!listeners.has(postId)) listeners.set(postId, new Set());
+    listeners.get(postId)!.add(listener);
+    return () => {
+      listeners.get(postId)?.delete(listener);
+    };
+  },
+};
+
+export function useFeedPost(postId: string): FeedPost | undefined {
+  return useSyncExternalStore(
+    (listener) => feedStore.subscribe(postId, listener),
+    () => feedStore.get(postId)
+  );
+}
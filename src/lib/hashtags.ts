@@ -0,0 +1,14 @@
+import { supabase, TrendingHashtag } from './supabase';
+
+// Trending tags are counted over posts from this many hours back
+export const TRENDING_WINDOW_HOURS = 48;
+
+export async function fetchTrendingHashtags(limit = 8) {
+  const { data, error } = await supabase.rpc('get_trending_hashtags', {
+    p_hours: TRENDING_WINDOW_HOURS,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return (data || []) as TrendingHashtag[];
+}
@@ -0,0 +1,104 @@
+import { supabase, Story, StoryHighlight } from './supabase';
+
+export const HIGHLIGHT_TITLE_MAX = 30;
+
+// A highlight with the stories in it that the signed-in user can see,
+// oldest first so it plays in the order it was posted.
+export type HighlightWithStories = StoryHighlight & { stories: Story[] };
+
+export async function fetchHighlights(userId: string): Promise<HighlightWithStories[]> {
+  const { data: highlights, error } = await supabase
+    .from('story_highlights')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  if (!highlights || highlights.length === 0) return [];
+
+  const { data: items, error: itemsError } = await supabase
+    .from('story_highlight_items')
+    .select('highlight_id, story_id')
+    .in('highlight_id', highlights.map(h => h.id));
+
+  if (itemsError) throw itemsError;
+  const storyIds = [...new Set((items || []).map(i => i.story_id))];
+  const { data: stories, error: storiesError } = storyIds.length
+    ? await supabase
+        .from('stories')
+        .select('*, profiles(*)')
+        .in('id', storyIds)
+        .order('created_at', { ascending: true })
+    : { data: [], error: null };
+
+  if (storiesError) throw storiesError;
+  return (highlights as StoryHighlight[]).map(highlight => {
+    const ids = new Set((items || []).filter(i => i.highlight_id === highlight.id).map(i => i.story_id));
+    return { ...highlight, stories: ((stories || []) as Story[]).filter(s => ids.has(s.id)) };
+  });
+}
+
+// The signed-in user's expired stories, newest first. Only the owner can
+// see expired stories that aren't in a highlight.
+export async function fetchArchivedStories(userId: string) {
+  const { data, error } = await supabase
+    .from('stories')
+    .select('*, profiles(*)')
+    .eq('user_id', userId)
+    .lte('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as Story[];
+}
+
+export async function createHighlight(userId: string, title: string, storyIds: string[], coverUrl: string | null) {
+  const id = crypto.randomUUID();
+  const { error } = await supabase
+    .from('story_highlights')
+    .insert({ id, user_id: userId, title, cover_url: coverUrl });
+
+  if (error) throw error;
+  await addToHighlight(id, storyIds);
+  return id;
+}
+
+export async function addToHighlight(highlightId: string, storyIds: string[]) {
+  if (storyIds.length === 0) return;
+  const { error } = await supabase
+    .from('story_highlight_items')
+    .upsert(
+      storyIds.map(storyId => ({ highlight_id: highlightId, story_id: storyId })),
+      { onConflict: 'highlight_id,story_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+export async function removeFromHighlight(highlightId: string, storyId: string) {
+  const { error } = await supabase
+    .from('story_highlight_items')
+    .delete()
+    .eq('highlight_id', highlightId)
+    .eq('story_id', storyId);
+
+  if (error) throw error;
+}
+
+export async function updateHighlight(highlightId: string, updates: Partial<Pick<StoryHighlight, 'title' | 'cover_url'>>) {
+  const { error } = await supabase
+    .from('story_highlights')
+    .update(updates)
+    .eq('id', highlightId);
+
+  if (error) throw error;
+}
+
+export async function deleteHighlight(highlightId: string) {
+  const { error } = await supabase
+    .from('story_highlights')
+    .delete()
+    .eq('id', highlightId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, InboxConversation, Profile } from './supabase';
+import { subscribeToTables } from './realtime';
+import { navigate, paths } from './router';
+
+// Groups are kept small; larger audiences belong in posts.
+export const MAX_GROUP_MEMBERS = 10;
+
+export async function fetchInbox() {
+  const { data, error } = await supabase.rpc('get_inbox');
+  if (error) throw error;
+  return (data || []) as InboxConversation[];
+}
+
+// Returns the existing one-to-one conversation with a friend, creating it
+// the first time.
+export async function startDirectConversation(otherUserId: string) {
+  const { data, error } = await supabase.rpc('start_direct_conversation', { p_other_user: otherUserId });
+  if (error) throw error;
+  return data as string;
+}
+
+export async function openDirectConversation(otherUserId: string) {
+  navigate(paths.messages(await startDirectConversation(otherUserId)));
+}
+
+export async function createGroupConversation(title: string, memberIds: string[]) {
+  const { data, error } = await supabase.rpc('create_group_conversation', {
+    p_title: title,
+    p_member_ids: memberIds,
+  });
+  if (error) throw error;
+  return data as string;
+}
+
+export async function markConversationRead(conversationId: string) {
+  const { error } = await supabase.rpc('mark_conversation_read', {
+    p_conversation_id: conversationId,
+  });
+
+  if (error) console.error('Error marking conversation read:', error);
+}
+
+export function conversationName(conversation: InboxConversation) {
+  if (conversation.title) return conversation.title;
+  if (conversation.participants.length === 0) return 'Just you';
+  return conversation.participants.map((p: Profile) => p.username).join(', ');
+}
+
+// Total unread messages across the inbox, kept current by realtime so the
+// nav badge updates while the user is elsewhere in the app.
+export function useUnreadMessageCount(userId: string | undefined) {
+  const [count, setCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const inbox = await fetchInbox();
+      setCount(inbox.reduce((sum, c) => sum + c.unread_count, 0));
+    } catch (err) {
+      console.error('Error loading unread messages:', err);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+    if (!userId) return;
+    return subscribeToTables({
+      messages: () => refresh(),
+      conversation_participants: {
+        filter: `user_id=eq.${userId}`,
+        onChange: () => refresh(),
+      },
+    });
+  }, [userId, refresh]);
+
+  return count;
+}
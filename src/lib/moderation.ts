@@ -0,0 +1,100 @@
+import {
+  supabase,
+  ModerationLogEntry,
+  ModerationQueueItem,
+  Profile,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+} from './supabase';
+
+export const REPORT_REASONS: { value: ReportReason; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Ads, scams or the same thing posted over and over' },
+  { value: 'harassment', label: 'Harassment or bullying', description: 'Targeting, threatening or shaming someone' },
+  { value: 'hate', label: 'Hate speech', description: 'Attacks on people for who they are' },
+  { value: 'violence', label: 'Violence', description: 'Threats, or graphic or violent content' },
+  { value: 'nudity', label: 'Nudity or sexual content', description: 'Explicit images or sexual content' },
+  { value: 'misinformation', label: 'False information', description: 'Misleading claims presented as fact' },
+  { value: 'other', label: 'Something else', description: 'Tell us more below' },
+];
+
+export const reasonLabel = (reason: ReportReason) =>
+  REPORT_REASONS.find(r => r.value === reason)?.label ?? reason;
+
+// Suspension lengths offered to moderators; null is indefinite
+export const SUSPENSION_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'Indefinitely' },
+];
+
+export function isModerator(profile: Profile | null | undefined) {
+  return profile?.role === 'moderator' || profile?.role === 'admin';
+}
+
+export function isSuspended(profile: Profile | null | undefined) {
+  const until = profile?.suspended_until;
+  return !!until && (until === 'infinity' || new Date(until).getTime() > Date.now());
+}
+
+export function suspensionEnd(profile: Profile) {
+  return profile.suspended_until === 'infinity'
+    ? 'indefinitely'
+    : `until ${new Date(profile.suspended_until!).toLocaleDateString()}`;
+}
+
+export async function reportContent(targetType: ReportTargetType, targetId: string, reason: ReportReason, details = '') {
+  const { error } = await supabase.rpc('report_content', {
+    p_target_type: targetType,
+    p_target_id: targetId,
+    p_reason: reason,
+    p_details: details,
+  });
+  if (error) throw error;
+}
+
+// The moderation RPCs refuse anyone who isn't a moderator, and record each
+// action in the audit log.
+
+export async function fetchModerationQueue(status: ReportStatus = 'open') {
+  const { data, error } = await supabase.rpc('get_moderation_queue', { p_status: status });
+  if (error) throw error;
+  return (data || []) as ModerationQueueItem[];
+}
+
+export async function fetchModerationLog(limit = 50) {
+  const { data, error } = await supabase.rpc('get_moderation_log', { p_limit: limit });
+  if (error) throw error;
+  return (data || []) as ModerationLogEntry[];
+}
+
+export async function moderateContent(
+  targetType: Exclude<ReportTargetType, 'profile'>,
+  targetId: string,
+  action: 'hide' | 'unhide' | 'remove',
+  note = ''
+) {
+  const { error } = await supabase.rpc('moderate_content', {
+    p_target_type: targetType,
+    p_target_id: targetId,
+    p_action: action,
+    p_note: note,
+  });
+  if (error) throw error;
+}
+
+export async function suspendUser(userId: string, days: number | null, reason = '') {
+  const { error } = await supabase.rpc('suspend_user', { p_user_id: userId, p_days: days, p_reason: reason });
+  if (error) throw error;
+}
+
+export async function unsuspendUser(userId: string, note = '') {
+  const { error } = await supabase.rpc('unsuspend_user', { p_user_id: userId, p_note: note });
+  if (error) throw error;
+}
+
+export async function dismissReport(reportId: string, note = '') {
+  const { error } = await supabase.rpc('dismiss_report', { p_report_id: reportId, p_note: note });
+  if (error) throw error;
+}
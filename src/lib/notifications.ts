@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Notification, NotificationType, Profile } from './supabase';
+import { subscribeToTables } from './realtime';
+
+// How far back the bell looks; older notifications are not shown.
+export const NOTIFICATIONS_LIMIT = 50;
+
+// Notifications about the same thing, collapsed into one entry:
+// "Alice and 4 others liked your post".
+export type NotificationGroup = {
+  key: string;
+  type: NotificationType;
+  notifications: Notification[];
+  actors: Profile[];
+  latest: Notification;
+  unread: boolean;
+};
+
+export async function fetchNotifications(userId: string) {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*, profiles!notifications_actor_id_fkey(*)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATIONS_LIMIT);
+
+  if (error) throw error;
+  return (data || []) as Notification[];
+}
+
+export async function markNotificationsRead(ids: string[]) {
+  if (ids.length === 0) return;
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) console.error('Error marking notifications read:', error);
+}
+
+export async function markAllNotificationsRead(userId: string) {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) console.error('Error marking notifications read:', error);
+}
+
+// The thing a notification is about; notifications that share a target
+// and type are grouped together.
+function groupKey(n: Notification) {
+  switch (n.type) {
+    case 'reaction':
+    case 'comment':
+    case 'reply':
+      return `${n.type}:${n.post_id}`;
+    case 'story_view':
+    case 'story_reply':
+      return `${n.type}:${n.story_id}`;
+    default:
+      return n.type;
+  }
+}
+
+// Expects notifications newest first and keeps groups in that order, by
+// their most recent notification.
+export function groupNotifications(notifications: Notification[]): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+
+  for (const n of notifications) {
+    const key = groupKey(n);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, type: n.type, notifications: [], actors: [], latest: n, unread: false };
+      groups.set(key, group);
+    }
+    group.notifications.push(n);
+    if (!n.read_at) group.unread = true;
+    if (n.profiles && !group.actors.some((a) => a.id === n.actor_id)) {
+      group.actors.push(n.profiles);
+    }
+  }
+
+  return [...groups.values()];
+}
+
+const ACTIONS: Record<NotificationType, string> = {
+  reaction: 'reacted to your post',
+  comment: 'commented on your post',
+  reply: 'replied to your comment',
+  follow: 'started following you',
+  follow_request: 'asked to follow you',
+  follow_accept: 'accepted your follow request',
+  friend_request: 'sent you a friend request',
+  friend_accept: 'accepted your friend request',
+  story_view: 'viewed your story',
+  story_reply: 'replied to your story',
+};
+
+export function actorNames(actors: Profile[]) {
+  if (actors.length === 0) return 'Someone';
+  if (actors.length === 1) return actors[0].username;
+  if (actors.length === 2) return `${actors[0].username} and ${actors[1].username}`;
+  const others = actors.length - 1;
+  return `${actors[0].username} and ${others} others`;
+}
+
+export function describeGroup(group: NotificationGroup) {
+  let action = ACTIONS[group.type];
+  // Plain likes read better as "liked"; mixed reactions stay generic.
+  if (group.type === 'reaction' && group.notifications.every((n) => n.reaction_type === 'like')) {
+    action = 'liked your post';
+  }
+  if (group.type === 'friend_request' && group.actors.length > 1) {
+    action = 'sent you friend requests';
+  }
+  return `${actorNames(group.actors)} ${action}`;
+}
+
+// The signed-in user's recent notifications, kept current by realtime.
+export function useNotifications(userId: string | undefined) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setNotifications(await fetchNotifications(userId));
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+    if (!userId) return;
+    return subscribeToTables({
+      notifications: {
+        filter: `user_id=eq.${userId}`,
+        onChange: () => refresh(),
+      },
+    });
+  }, [userId, refresh]);
+
+  return { notifications, refresh };
+}
@@ -0,0 +1,32 @@
+import { supabase } from './supabase';
+
+// Mirrors the `profiles_*_check` constraints in
+// 20261019001100_add_profile_validation.sql.
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+export const FULL_NAME_MAX_LENGTH = 80;
+export const BIO_MAX_LENGTH = 160;
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_]+$/;
+
+// Returns what's wrong with a username, or null if it's acceptable.
+// Uniqueness is checked separately against the server.
+export function validateUsername(username: string): string | null {
+  if (username.length < USERNAME_MIN_LENGTH) {
+    return `Usernames need at least ${USERNAME_MIN_LENGTH} characters`;
+  }
+  if (username.length > USERNAME_MAX_LENGTH) {
+    return `Usernames can be at most ${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return 'Use only letters, numbers and underscores';
+  }
+  return null;
+}
+
+// Usernames are unique ignoring case, so "alice" is taken if "Alice" is.
+export async function isUsernameAvailable(username: string) {
+  const { data, error } = await supabase.rpc('is_username_available', { p_username: username });
+  if (error) throw error;
+  return data as boolean;
+}
@@ -0,0 +1,79 @@
+import { supabase, FeedPost, ReactionType } from './supabase';
+
+// The reactions offered in the picker, in display order. Adding one here
+// also needs the `reactions_type_check` constraint widened.
+export const REACTIONS: { type: ReactionType; emoji: string; label: string }[] = [
+  { type: 'like', emoji: '👍', label: 'Like' },
+  { type: 'love', emoji: '❤️', label: 'Love' },
+  { type: 'laugh', emoji: '😂', label: 'Haha' },
+  { type: 'wow', emoji: '😮', label: 'Wow' },
+  { type: 'sad', emoji: '😢', label: 'Sad' },
+  { type: 'angry', emoji: '😡', label: 'Angry' },
+];
+
+export function reactionInfo(type: ReactionType) {
+  return REACTIONS.find((r) => r.type === type) ?? REACTIONS[0];
+}
+
+// Moves one reaction on a post from `from` to `to` (either may be null for
+// "no reaction"), keeping the per-type and total counts in step. `mine`
+// marks it as the current user's, so `my_reaction` follows along.
+export function withReaction(
+  post: FeedPost,
+  from: ReactionType | null,
+  to: ReactionType | null,
+  mine: boolean
+): FeedPost {
+  const counts = { ...post.reaction_counts };
+  let total = post.reaction_count;
+
+  if (from) {
+    counts[from] = Math.max(0, (counts[from] || 0) - 1);
+    if (!counts[from]) delete counts[from];
+    total = Math.max(0, total - 1);
+  }
+  if (to) {
+    counts[to] = (counts[to] || 0) + 1;
+    total += 1;
+  }
+
+  return {
+    ...post,
+    reaction_counts: counts,
+    reaction_count: total,
+    my_reaction: mine ? to : post.my_reaction,
+  };
+}
+
+export type ReactionTotals = Pick<FeedPost, 'reaction_count' | 'reaction_counts' | 'my_reaction'>;
+
+// Fresh reaction counts for each of `postIds`, for recounting after a
+// realtime update or delete, which doesn't say which post or type it was.
+export async function fetchReactionTotals(postIds: string[], userId: string) {
+  const totals: Record<string, ReactionTotals> = {};
+  for (const id of postIds) totals[id] = { reaction_count: 0, reaction_counts: {}, my_reaction: null };
+  if (postIds.length === 0) return totals;
+
+  const { data, error } = await supabase
+    .from('reactions')
+    .select('post_id, user_id, type')
+    .in('post_id', postIds);
+
+  if (error) throw error;
+  for (const reaction of data || []) {
+    const total = totals[reaction.post_id];
+    total.reaction_count += 1;
+    total.reaction_counts[reaction.type as ReactionType] = (total.reaction_counts[reaction.type as ReactionType] || 0) + 1;
+    if (reaction.user_id === userId) total.my_reaction = reaction.type;
+  }
+  return totals;
+}
+
+// The most used reaction types on a post, for the summary next to the count.
+export function topReactions(post: FeedPost, limit = 3): ReactionType[] {
+  return (Object.entries(post.reaction_counts) as [ReactionType, number][])
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([type]) => type);
+}
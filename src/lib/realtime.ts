@@ -0,0 +1,36 @@
+import { supabase } from './supabase';
+
+export interface TableChange<T = Record<string, unknown>> {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: T;
+  // Just the primary key: on tables with row level security Realtime
+  // never sends the rest of the old row.
+  old: Partial<T>;
+}
+
+type ChangeHandler = (change: TableChange) => void;
+
+// A handler per table, optionally narrowed with a Realtime row filter such
+// as `conversation_id=eq.<id>`.
+type ChangeHandlers = Record<string, ChangeHandler | { filter: string; onChange: ChangeHandler }>;
+
+let channelCount = 0;
+
+// Subscribes to inserts, updates and deletes on each table in `handlers`
+// over a single channel. Returns the unsubscribe function, so it can be
+// returned straight from a useEffect.
+export function subscribeToTables(handlers: ChangeHandlers): () => void {
+  const channel = supabase.channel(`db-changes-${++channelCount}`);
+
+  for (const [table, entry] of Object.entries(handlers)) {
+    const { filter, onChange } = typeof entry === 'function' ? { filter: undefined, onChange: entry } : entry;
+    channel.on('postgres_changes', { event: '*', schema: 'public', table, filter }, (payload) =>
+      onChange({ eventType: payload.eventType, new: payload.new, old: payload.old })
+    );
+  }
+  channel.subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
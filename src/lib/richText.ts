@@ -0,0 +1,52 @@
+// Parsing for #tags and @mentions in post and comment text. The patterns
+// match `extract_hashtags` / `extract_mentions` in the database: a token
+// must start the text or follow a character that can't be part of a word,
+// so "a@b.com" isn't a mention.
+
+export type TextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'hashtag'; text: string; tag: string }
+  | { type: 'mention'; text: string; username: string };
+
+const TOKEN_PATTERN = /(^|[^A-Za-z0-9_])(?:#([A-Za-z0-9_]{1,50})|@([A-Za-z0-9_]{3,30}))/g;
+
+// An unfinished "@name" right before the caret, for mention autocomplete
+const PARTIAL_MENTION_PATTERN = /(^|[^A-Za-z0-9_])@([A-Za-z0-9_]{0,30})$/;
+
+export function parseRichText(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index! + match[1].length;
+    if (start > last) segments.push({ type: 'text', text: text.slice(last, start) });
+    const token = match[0].slice(match[1].length);
+    segments.push(
+      match[2]
+        ? { type: 'hashtag', text: token, tag: match[2].toLowerCase() }
+        : { type: 'mention', text: token, username: match[3] }
+    );
+    last = start + token.length;
+  }
+
+  if (last < text.length) segments.push({ type: 'text', text: text.slice(last) });
+  return segments;
+}
+
+export function extractHashtags(text: string) {
+  const tags = parseRichText(text).flatMap((s) => (s.type === 'hashtag' ? [s.tag] : []));
+  return [...new Set(tags)];
+}
+
+export function extractMentions(text: string) {
+  const names = parseRichText(text).flatMap((s) => (s.type === 'mention' ? [s.username.toLowerCase()] : []));
+  return [...new Set(names)];
+}
+
+// The mention being typed at `caret`, if any: where its "@" is and the
+// part of the username typed so far.
+export function partialMentionAt(text: string, caret: number) {
+  const match = text.slice(0, caret).match(PARTIAL_MENTION_PATTERN);
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+}
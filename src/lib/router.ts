@@ -0,0 +1,113 @@
+import { useSyncExternalStore } from 'react';
+
+// A small History API router. Routes are matched from the path and query
+// string; the dev server (and any production host) must serve index.html for every
+// path so deep links survive a refresh.
+
+export type FriendsTab = 'discover' | 'friends' | 'following' | 'requests';
+
+export const FRIENDS_TABS: FriendsTab[] = ['discover', 'friends', 'following', 'requests'];
+
+export type Route =
+  | { name: 'feed' }
+  | { name: 'friends'; tab: FriendsTab }
+  | { name: 'messages'; conversationId: string | null }
+  | { name: 'user'; username: string }
+  | { name: 'post'; postId: string }
+  | { name: 'story'; userId: string }
+  | { name: 'archive' }
+  | { name: 'search'; query: string }
+  | { name: 'tag'; tag: string }
+  | { name: 'settings' }
+  | { name: 'moderation' }
+  | { name: 'notFound' };
+
+export const paths = {
+  feed: () => '/',
+  friends: (tab: FriendsTab = 'discover') => (tab === 'discover' ? '/friends' : `/friends/${tab}`),
+  messages: (conversationId?: string | null) => (conversationId ? `/messages/${conversationId}` : '/messages'),
+  user: (username: string) => `/u/${encodeURIComponent(username)}`,
+  post: (postId: string) => `/p/${postId}`,
+  story: (userId: string) => `/stories/${userId}`,
+  archive: () => '/archive',
+  tag: (tag: string) => `/tags/${encodeURIComponent(tag.toLowerCase())}`,
+  search: (query: string) => `/search?${new URLSearchParams({ q: query })}`,
+  settings: () => '/settings',
+  moderation: () => '/moderation',
+};
+
+export function matchRoute(location: string): Route {
+  const { pathname, searchParams } = new URL(location, window.location.origin);
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // A malformed escape such as `%E0%A4%A`
+    return { name: 'notFound' };
+  }
+  const [first, second, ...rest] = segments;
+  if (rest.length > 0) return { name: 'notFound' };
+
+  switch (first) {
+    case undefined:
+      return { name: 'feed' };
+    case 'friends': {
+      const tab = (second ?? 'discover') as FriendsTab;
+      return FRIENDS_TABS.includes(tab) ? { name: 'friends', tab } : { name: 'notFound' };
+    }
+    case 'messages':
+      return { name: 'messages', conversationId: second ?? null };
+    case 'u':
+      return second ? { name: 'user', username: second } : { name: 'notFound' };
+    case 'p':
+      return second ? { name: 'post', postId: second } : { name: 'notFound' };
+    case 'stories':
+      return second ? { name: 'story', userId: second } : { name: 'notFound' };
+    case 'archive':
+      return second ? { name: 'notFound' } : { name: 'archive' };
+    case 'tags':
+      return second ? { name: 'tag', tag: second.toLowerCase() } : { name: 'notFound' };
+    case 'search':
+      return second ? { name: 'notFound' } : { name: 'search', query: searchParams.get('q') ?? '' };
+    case 'settings':
+      return second ? { name: 'notFound' } : { name: 'settings' };
+    case 'moderation':
+      return second ? { name: 'notFound' } : { name: 'moderation' };
+    default:
+      return { name: 'notFound' };
+  }
+}
+
+// pushState doesn't fire popstate, so in-app navigation notifies
+// subscribers itself.
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener('popstate', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('popstate', listener);
+  };
+}
+
+const currentLocation = () => window.location.pathname + window.location.search;
+
+export function navigate(path: string, { replace = false } = {}) {
+  if (path === currentLocation()) return;
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+    window.scrollTo({ top: 0 });
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function useLocation() {
+  return useSyncExternalStore(subscribe, currentLocation);
+}
+
+export function useRoute(): Route {
+  return matchRoute(useLocation());
+}
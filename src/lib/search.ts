@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { supabase, Profile } from './supabase';
+
+// How many people the nav typeahead suggests
+export const TYPEAHEAD_LIMIT = 5;
+
+// How long to wait after the last keystroke before searching
+const TYPEAHEAD_DELAY = 250;
+
+export async function searchProfiles(query: string, limit = 20) {
+  const { data, error } = await supabase.rpc('search_profiles', {
+    p_query: query,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return (data || []) as Profile[];
+}
+
+// People matching `query` as it's typed, debounced, with answers to
+// superseded queries dropped.
+export function useProfileSuggestions(query: string) {
+  const [suggestions, setSuggestions] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    if (!trimmed) {
+      setSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchProfiles(trimmed, TYPEAHEAD_LIMIT);
+        if (!cancelled) setSuggestions(results);
+      } catch (err) {
+        console.error('Error searching profiles:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, TYPEAHEAD_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmed]);
+
+  return { suggestions, loading };
+}
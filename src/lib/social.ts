@@ -0,0 +1,246 @@
+import { supabase, BlockedProfile, Follow, Friendship, FriendSuggestion, Mute, Profile, ProfileStats } from './supabase';
+
+// Ids of everyone with an accepted friendship with `userId`, in either
+// direction of the request.
+export async function fetchFriendIds(userId: string) {
+  const { data, error } = await supabase
+    .from('friendships')
+    .select('user_id_1, user_id_2')
+    .eq('status', 'accepted')
+    .or(`user_id_1.eq.${userId},user_id_2.eq.${userId}`);
+
+  if (error) throw error;
+  return (data || []).map(f => (f.user_id_1 === userId ? f.user_id_2 : f.user_id_1) as string);
+}
+
+export async function fetchFriendProfiles(userId: string) {
+  const ids = await fetchFriendIds(userId);
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .in('id', ids)
+    .order('username', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as Profile[];
+}
+
+export async function fetchProfileStats(userId: string) {
+  const { data, error } = await supabase.rpc('get_profile_stats', { p_user_id: userId });
+  if (error) throw error;
+  return (data?.[0] ?? null) as ProfileStats | null;
+}
+
+// Friends the signed-in user shares with `userId`.
+export async function fetchMutualFriends(userId: string) {
+  const { data, error } = await supabase.rpc('get_mutual_friends', { p_user_id: userId });
+  if (error) throw error;
+  return (data || []) as Profile[];
+}
+
+// How the signed-in user relates to someone else: their follow (null, or
+// pending while a private account hasn't approved it), whether they have
+// muted them, and the friendship row between them (in either direction),
+// if any.
+export async function fetchRelationship(userId: string, otherId: string) {
+  const [{ data: follow }, { data: friendship }, { data: mute }] = await Promise.all([
+    supabase
+      .from('follows')
+      .select('status')
+      .eq('follower_id', userId)
+      .eq('following_id', otherId)
+      .maybeSingle(),
+    supabase
+      .from('friendships')
+      .select('*')
+      .or(`and(user_id_1.eq.${userId},user_id_2.eq.${otherId}),and(user_id_1.eq.${otherId},user_id_2.eq.${userId})`)
+      .maybeSingle(),
+    supabase
+      .from('mutes')
+      .select('user_id')
+      .eq('user_id', userId)
+      .eq('muted_user_id', otherId)
+      .maybeSingle(),
+  ]);
+
+  return {
+    followStatus: (follow?.status ?? null) as Follow['status'] | null,
+    isMuted: !!mute,
+    friendship: (friendship ?? null) as Friendship | null,
+  };
+}
+
+export async function followUser(userId: string, otherId: string) {
+  const { error } = await supabase
+    .from('follows')
+    .insert({ follower_id: userId, following_id: otherId });
+
+  if (error) throw error;
+}
+
+export async function unfollowUser(userId: string, otherId: string) {
+  const { error } = await supabase
+    .from('follows')
+    .delete()
+    .eq('follower_id', userId)
+    .eq('following_id', otherId);
+
+  if (error) throw error;
+}
+
+// Following a private account only sends a request; these are the
+// requests waiting on `userId`, newest first.
+export async function fetchFollowRequests(userId: string) {
+  const { data, error } = await supabase
+    .from('follows')
+    .select('*, profiles!follows_follower_id_fkey(*)')
+    .eq('following_id', userId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as (Follow & { profiles: Profile })[];
+}
+
+export async function acceptFollowRequest(followerId: string) {
+  const { error } = await supabase.rpc('respond_to_follow_request', { p_follower: followerId, p_accept: true });
+  if (error) throw error;
+}
+
+export async function declineFollowRequest(followerId: string) {
+  const { error } = await supabase.rpc('respond_to_follow_request', { p_follower: followerId, p_accept: false });
+  if (error) throw error;
+}
+
+// Friendship changes go through RPCs that enforce the request lifecycle
+// (one row per pair, cooldown after a decline) and raise a readable error
+// for anything not allowed from the current state.
+
+export async function sendFriendRequest(otherId: string) {
+  const { error } = await supabase.rpc('request_friendship', { p_other: otherId });
+  if (error) throw error;
+}
+
+export async function cancelFriendRequest(otherId: string) {
+  const { error } = await supabase.rpc('cancel_friend_request', { p_other: otherId });
+  if (error) throw error;
+}
+
+export async function acceptFriendRequest(otherId: string) {
+  const { error } = await supabase.rpc('respond_to_friend_request', { p_other: otherId, p_accept: true });
+  if (error) throw error;
+}
+
+export async function declineFriendRequest(otherId: string) {
+  const { error } = await supabase.rpc('respond_to_friend_request', { p_other: otherId, p_accept: false });
+  if (error) throw error;
+}
+
+export async function unfriend(otherId: string) {
+  const { error } = await supabase.rpc('unfriend', { p_other: otherId });
+  if (error) throw error;
+}
+
+// "People you may know", best first.
+export async function fetchFriendSuggestions(limit = 20) {
+  const { data, error } = await supabase.rpc('get_friend_suggestions', { p_limit: limit });
+  if (error) throw error;
+  return (data || []) as FriendSuggestion[];
+}
+
+// Stops `dismissedId` from ever being suggested to `userId` again.
+export async function dismissSuggestion(userId: string, dismissedId: string) {
+  const { error } = await supabase
+    .from('suggestion_dismissals')
+    .insert({ user_id: userId, dismissed_user_id: dismissedId });
+  if (error) throw error;
+}
+
+// Friends on `userId`'s close friends list, who see their close-friends
+// stories. Only the list's owner can read or change it.
+export async function fetchCloseFriendIds(userId: string) {
+  const { data, error } = await supabase
+    .from('close_friends')
+    .select('friend_id')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return (data || []).map(c => c.friend_id as string);
+}
+
+export async function addCloseFriend(userId: string, friendId: string) {
+  const { error } = await supabase
+    .from('close_friends')
+    .insert({ user_id: userId, friend_id: friendId });
+  if (error) throw error;
+}
+
+export async function removeCloseFriend(userId: string, friendId: string) {
+  const { error } = await supabase
+    .from('close_friends')
+    .delete()
+    .eq('user_id', userId)
+    .eq('friend_id', friendId);
+  if (error) throw error;
+}
+
+// Blocking hides the two users from each other everywhere and removes any
+// follows, friendship or request between them.
+export async function blockUser(otherId: string) {
+  const { error } = await supabase.rpc('block_user', { p_other: otherId });
+  if (error) throw error;
+}
+
+export async function unblockUser(userId: string, otherId: string) {
+  const { error } = await supabase
+    .from('blocks')
+    .delete()
+    .eq('blocker_id', userId)
+    .eq('blocked_id', otherId);
+  if (error) throw error;
+}
+
+// Blocked users' profiles are hidden from the blocker as well, so the list
+// comes from an RPC rather than a join.
+export async function fetchBlockedUsers() {
+  const { data, error } = await supabase.rpc('get_blocked_users');
+  if (error) throw error;
+  return (data || []) as BlockedProfile[];
+}
+
+// Muting silently hides `otherId`'s posts and stories from `userId`.
+export async function muteUser(userId: string, otherId: string) {
+  const { error } = await supabase
+    .from('mutes')
+    .insert({ user_id: userId, muted_user_id: otherId });
+  if (error) throw error;
+}
+
+export async function unmuteUser(userId: string, otherId: string) {
+  const { error } = await supabase
+    .from('mutes')
+    .delete()
+    .eq('user_id', userId)
+    .eq('muted_user_id', otherId);
+  if (error) throw error;
+}
+
+export async function fetchMutedIds(userId: string) {
+  const { data, error } = await supabase
+    .from('mutes')
+    .select('muted_user_id')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return (data || []).map(m => m.muted_user_id as string);
+}
+
+export async function fetchMutedUsers(userId: string) {
+  const { data, error } = await supabase
+    .from('mutes')
+    .select('*, profiles!mutes_muted_user_id_fkey(*)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as (Mute & { profiles: Profile })[];
+}
@@ -0,0 +1,78 @@
+import { supabase, StoryReply, StoryView } from './supabase';
+
+// Who has seen one of the signed-in user's stories, most recent first.
+// Only the story's owner can read its views.
+export async function fetchStoryViewers(storyId: string) {
+  const { data, error } = await supabase
+    .from('story_views')
+    .select('*, profiles(*)')
+    .eq('story_id', storyId)
+    .order('viewed_at', { ascending: false });
+
+  if (error) throw error;
+  return ((data || []) as StoryView[]).filter(v => v.profiles);
+}
+
+export type StoryViewSummary = {
+  // Views per story id
+  counts: Record<string, number>;
+  total: number;
+  // Distinct people across all the stories
+  viewers: number;
+};
+
+export async function fetchStoryViewSummary(storyIds: string[]): Promise<StoryViewSummary> {
+  if (storyIds.length === 0) return { counts: {}, total: 0, viewers: 0 };
+
+  const { data, error } = await supabase
+    .from('story_views')
+    .select('story_id, user_id')
+    .in('story_id', storyIds);
+
+  if (error) throw error;
+  const counts: Record<string, number> = {};
+  for (const view of data || []) counts[view.story_id] = (counts[view.story_id] || 0) + 1;
+  return {
+    counts,
+    total: data?.length ?? 0,
+    viewers: new Set(data?.map(v => v.user_id)).size,
+  };
+}
+
+// One-tap reactions offered under other people's stories
+export const STORY_QUICK_REACTIONS = ['❤️', '😂', '😮', '😢', '👏', '🔥'];
+
+export async function sendStoryReply(storyId: string, userId: string, content: string, isReaction = false) {
+  const { error } = await supabase
+    .from('story_replies')
+    .insert({ story_id: storyId, user_id: userId, content, is_reaction: isReaction });
+
+  if (error) throw error;
+}
+
+// Replies to one of the signed-in user's stories, most recent first.
+// Only the story's owner and each reply's sender can read it.
+export async function fetchStoryReplies(storyId: string) {
+  const { data, error } = await supabase
+    .from('story_replies')
+    .select('*, profiles(*)')
+    .eq('story_id', storyId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return ((data || []) as StoryReply[]).filter(r => r.profiles);
+}
+
+export async function fetchStoryReplyCounts(storyIds: string[]) {
+  const counts: Record<string, number> = {};
+  if (storyIds.length === 0) return counts;
+
+  const { data, error } = await supabase
+    .from('story_replies')
+    .select('story_id')
+    .in('story_id', storyIds);
+
+  if (error) throw error;
+  for (const reply of data || []) counts[reply.story_id] = (counts[reply.story_id] || 0) + 1;
+  return counts;
+}
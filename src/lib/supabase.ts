@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { extractHashtags, extractMentions } from './richText';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -14,6 +15,8 @@ if (isDemoMode) {
 
 // ─── Types ───────────────────────────────────────────────────────────
 
+export type UserRole = 'user' | 'moderator' | 'admin';
+
 export type Profile = {
   id: string;
   username: string;
@@ -22,40 +25,94 @@ export type Profile = {
   bio: string;
   created_at: string;
   updated_at: string;
+  // Only approved followers and friends see a private account's posts,
+  // stories and follows
+  is_private?: boolean;
+  // Moderation state: present on rows read from `profiles` itself, absent
+  // from RPCs that return only the public profile columns
+  role?: UserRole;
+  suspended_until?: string | null;
+  suspension_reason?: string | null;
 };
 
+// Who can see a post; 'custom' is the friends in `post_audience_members`
+export type PostVisibility = 'public' | 'followers' | 'friends' | 'only_me' | 'custom';
+
 export type Post = {
   id: string;
   user_id: string;
   content: string;
   image_url: string;
+  visibility: PostVisibility;
   created_at: string;
   updated_at: string;
   profiles?: Profile;
-  likes?: Like[];
   comments?: Comment[];
 };
 
+// A post row as returned by the `get_feed_page` RPC, with its aggregates
+// precomputed so the feed doesn't need a query per post.
+export type FeedPost = Post & {
+  profiles: Profile;
+  reaction_count: number;
+  reaction_counts: Partial<Record<ReactionType, number>>;
+  my_reaction: ReactionType | null;
+  comment_count: number;
+  recent_comments: Comment[];
+};
+
+// Number of comments `get_feed_page` returns in `recent_comments`.
+export const FEED_PREVIEW_COMMENTS = 3;
+
+export type PostAudienceMember = {
+  post_id: string;
+  user_id: string;
+  created_at: string;
+};
+
+export type PostRevision = {
+  id: string;
+  post_id: string;
+  content: string;
+  image_url: string;
+  created_at: string;
+};
+
 export type Comment = {
   id: string;
   post_id: string;
   user_id: string;
+  parent_id: string | null;
   content: string;
   created_at: string;
+  updated_at: string;
   profiles?: Profile;
 };
 
-export type Like = {
+export type CommentLike = {
+  id: string;
+  comment_id: string;
+  user_id: string;
+  created_at: string;
+};
+
+export type ReactionType = 'like' | 'love' | 'laugh' | 'wow' | 'sad' | 'angry';
+
+export type Reaction = {
   id: string;
   post_id: string;
   user_id: string;
+  type: ReactionType;
   created_at: string;
+  profiles?: Profile;
 };
 
 export type Follow = {
   id: string;
   follower_id: string;
   following_id: string;
+  // Follows of private accounts wait for the owner's approval
+  status: 'pending' | 'accepted';
   created_at: string;
 };
 
@@ -69,17 +126,204 @@ export type Friendship = {
   updated_at: string;
 };
 
+// A row of the `get_profile_stats` RPC.
+export type ProfileStats = {
+  post_count: number;
+  follower_count: number;
+  following_count: number;
+  friend_count: number;
+};
+
+// A row of the `get_friend_suggestions` RPC: a candidate profile and the
+// signals it was ranked on.
+export type FriendSuggestion = Profile & {
+  mutual_friend_count: number;
+  shared_follow_count: number;
+  interaction_count: number;
+  follows_you: boolean;
+};
+
+// A row of the `get_blocked_users` RPC
+export type BlockedProfile = Profile & {
+  blocked_at: string;
+};
+
+export type Mute = {
+  user_id: string;
+  muted_user_id: string;
+  created_at: string;
+};
+
+// A row from `get_trending_hashtags`
+export type TrendingHashtag = {
+  tag: string;
+  post_count: number;
+};
+
+// Who can see a story; 'close_friends' is the author's `close_friends` list
+export type StoryAudience = 'everyone' | 'friends' | 'close_friends';
+
 export type Story = {
   id: string;
   user_id: string;
   image_url: string;
   caption: string;
   background_color: string;
+  audience: StoryAudience;
   created_at: string;
   expires_at: string;
   profiles?: Profile;
 };
 
+export type StoryView = {
+  id: string;
+  story_id: string;
+  user_id: string;
+  viewed_at: string;
+  profiles?: Profile;
+};
+
+export type StoryReply = {
+  id: string;
+  story_id: string;
+  user_id: string;
+  // The reply, or the emoji for a quick reaction
+  content: string;
+  is_reaction: boolean;
+  created_at: string;
+  profiles?: Profile;
+};
+
+export type StoryHighlight = {
+  id: string;
+  user_id: string;
+  title: string;
+  cover_url: string | null;
+  created_at: string;
+};
+
+export type StoryHighlightItem = {
+  highlight_id: string;
+  story_id: string;
+  added_at: string;
+};
+
+export type CloseFriend = {
+  user_id: string;
+  friend_id: string;
+  created_at: string;
+};
+
+export type Conversation = {
+  id: string;
+  title: string;
+  is_group: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ConversationParticipant = {
+  conversation_id: string;
+  user_id: string;
+  joined_at: string;
+  last_read_at: string;
+};
+
+export type Message = {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  created_at: string;
+  profiles?: Profile;
+};
+
+// A row of the `get_inbox` RPC: the conversation plus the other
+// participants, the latest message and the caller's unread count.
+export type InboxConversation = Conversation & {
+  participants: Profile[];
+  last_message: Message | null;
+  unread_count: number;
+};
+
+export type NotificationType =
+  | 'reaction'
+  | 'comment'
+  | 'reply'
+  | 'follow'
+  | 'follow_request'
+  | 'follow_accept'
+  | 'friend_request'
+  | 'friend_accept'
+  | 'story_view'
+  | 'story_reply';
+
+export type Notification = {
+  id: string;
+  user_id: string;
+  actor_id: string;
+  type: NotificationType;
+  post_id: string | null;
+  comment_id: string | null;
+  story_id: string | null;
+  reaction_type: ReactionType | null;
+  read_at: string | null;
+  created_at: string;
+  profiles?: Profile;
+};
+
+export type ReportTargetType = 'post' | 'comment' | 'story' | 'profile';
+
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'violence' | 'nudity' | 'misinformation' | 'other';
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export type Report = {
+  id: string;
+  reporter_id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  target_user_id: string;
+  reason: ReportReason;
+  details: string;
+  snapshot_content: string;
+  snapshot_image_url: string | null;
+  status: ReportStatus;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+};
+
+// A row of the `get_moderation_queue` RPC: a report with who filed it,
+// whose content it is and what state that content is in now.
+export type ModerationQueueItem = Pick<
+  Report,
+  'id' | 'target_type' | 'target_id' | 'reason' | 'details' | 'snapshot_content' |
+  'snapshot_image_url' | 'status' | 'created_at' | 'resolved_at'
+> & {
+  reporter: Profile;
+  target_user: Profile;
+  target_exists: boolean;
+  target_hidden_at: string | null;
+  // The post a reported post or comment belongs to
+  target_post_id: string | null;
+};
+
+export type ModerationActionType = 'hide' | 'unhide' | 'remove' | 'suspend' | 'unsuspend' | 'dismiss';
+
+// A row of the `get_moderation_log` RPC
+export type ModerationLogEntry = {
+  id: string;
+  action: ModerationActionType;
+  target_type: ReportTargetType;
+  target_id: string;
+  note: string;
+  created_at: string;
+  moderator: Profile | null;
+  target_user: Profile | null;
+};
+
 // ─── Demo mock data ──────────────────────────────────────────────────
 
 const DEMO_USER_ID = 'demo-user-00000000-0000-0000-0000-000000000001';
@@ -92,8 +336,24 @@ export const DEMO_PROFILE: Profile = {
   bio: 'Welcome to Hyper Friends Zone! This is a demo profile.',
   created_at: new Date().toISOString(),
   updated_at: new Date().toISOString(),
+  is_private: false,
+  // An admin, so the moderation dashboard can be tried out
+  role: 'admin',
+  suspended_until: null,
+  suspension_reason: null,
 };
 
+// Demo profile edits are kept across reloads, unlike the rest of the
+// in-memory data, so the profile editor can be tried out properly.
+const DEMO_PROFILE_STORAGE_KEY = 'hfz:demo-profile';
+
+try {
+  const saved = typeof localStorage !== 'undefined' && localStorage.getItem(DEMO_PROFILE_STORAGE_KEY);
+  if (saved) Object.assign(DEMO_PROFILE, JSON.parse(saved), { id: DEMO_USER_ID });
+} catch {
+  // Ignore unreadable saved state
+}
+
 export const DEMO_PROFILES: Profile[] = [
   DEMO_PROFILE,
   {
@@ -131,6 +391,8 @@ export const DEMO_PROFILES: Profile[] = [
     bio: 'Nature lover 🌿',
     created_at: new Date(Date.now() - 345600000).toISOString(),
     updated_at: new Date(Date.now() - 345600000).toISOString(),
+    // Private, so following her shows the request flow
+    is_private: true,
   },
 ];
 
@@ -138,8 +400,9 @@ export let demoPosts: Post[] = [
   {
     id: 'demo-post-1',
     user_id: DEMO_USER_ID,
-    content: '🚀 Welcome to Hyper Friends Zone! This is a demo post showing the feed works correctly. Connect Supabase to start using the real app!',
+    content: '🚀 Welcome to Hyper Friends Zone! This is a demo post showing the feed works correctly. Connect Supabase to start using the real app! #welcome',
     image_url: '',
+    visibility: 'public',
     created_at: new Date(Date.now() - 3600000).toISOString(),
     updated_at: new Date(Date.now() - 3600000).toISOString(),
     profiles: DEMO_PROFILE,
@@ -147,8 +410,9 @@ export let demoPosts: Post[] = [
   {
     id: 'demo-post-2',
     user_id: 'demo-user-2',
-    content: 'Hey everyone! Just joined the platform. Looking forward to connecting with you all! 🎉',
+    content: 'Hey everyone! Just joined the platform. Looking forward to connecting with you all! 🎉 Thanks for the invite @DemoUser',
     image_url: '',
+    visibility: 'friends',
     created_at: new Date(Date.now() - 7200000).toISOString(),
     updated_at: new Date(Date.now() - 7200000).toISOString(),
     profiles: DEMO_PROFILES[1],
@@ -156,8 +420,9 @@ export let demoPosts: Post[] = [
   {
     id: 'demo-post-3',
     user_id: 'demo-user-3',
-    content: 'Just deployed my first project using this stack. The DX is amazing!',
+    content: 'Just deployed my first project using this stack. The DX is amazing! #webdev #supabase',
     image_url: 'https://images.unsplash.com/photo-1461749280684-dccba630e2f6?w=600&h=400&fit=crop',
+    visibility: 'public',
     created_at: new Date(Date.now() - 14400000).toISOString(),
     updated_at: new Date(Date.now() - 14400000).toISOString(),
     profiles: DEMO_PROFILES[2],
@@ -165,8 +430,9 @@ export let demoPosts: Post[] = [
   {
     id: 'demo-post-4',
     user_id: 'demo-user-4',
-    content: 'Who else is excited about the new stories feature? 📸✨',
+    content: 'Who else is excited about the new stories feature? 📸✨ #stories #webdev',
     image_url: '',
+    visibility: 'public',
     created_at: new Date(Date.now() - 21600000).toISOString(),
     updated_at: new Date(Date.now() - 21600000).toISOString(),
     profiles: DEMO_PROFILES[3],
@@ -180,6 +446,7 @@ export const demoStories: Story[] = [
     image_url: 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=600&h=1000&fit=crop',
     caption: 'Mountain vibes 🏔️',
     background_color: '#3B82F6',
+    audience: 'close_friends',
     created_at: new Date(Date.now() - 3600000).toISOString(),
     expires_at: new Date(Date.now() + 82800000).toISOString(),
     profiles: DEMO_PROFILES[1],
@@ -190,6 +457,7 @@ export const demoStories: Story[] = [
     image_url: '',
     caption: 'Coding all night long 💻',
     background_color: '#8B5CF6',
+    audience: 'everyone',
     created_at: new Date(Date.now() - 7200000).toISOString(),
     expires_at: new Date(Date.now() + 79200000).toISOString(),
     profiles: DEMO_PROFILES[2],
@@ -200,6 +468,7 @@ export const demoStories: Story[] = [
     image_url: 'https://images.unsplash.com/photo-1555066931-4365d14bab8c?w=600&h=1000&fit=crop',
     caption: 'New project setup 🚀',
     background_color: '#22C55E',
+    audience: 'everyone',
     created_at: new Date(Date.now() - 5400000).toISOString(),
     expires_at: new Date(Date.now() + 81000000).toISOString(),
     profiles: DEMO_PROFILES[2],
@@ -210,6 +479,7 @@ export const demoStories: Story[] = [
     image_url: 'https://images.unsplash.com/photo-1519681393784-d120267933ba?w=600&h=1000&fit=crop',
     caption: 'Sunset views 🌅',
     background_color: '#EC4899',
+    audience: 'everyone',
     created_at: new Date(Date.now() - 10800000).toISOString(),
     expires_at: new Date(Date.now() + 75600000).toISOString(),
     profiles: DEMO_PROFILES[3],
@@ -220,51 +490,1368 @@ export const demoStories: Story[] = [
     image_url: '',
     caption: 'Hello from the other side 🌍',
     background_color: '#06B6D4',
+    audience: 'everyone',
     created_at: new Date(Date.now() - 14400000).toISOString(),
     expires_at: new Date(Date.now() + 72000000).toISOString(),
     profiles: DEMO_PROFILES[4],
   },
+  // Expired: the demo user's archive, and a story kept in Alice's highlights
+  {
+    id: 'demo-story-6',
+    user_id: DEMO_USER_ID,
+    image_url: 'https://images.unsplash.com/photo-1551632811-561732d1e306?w=600&h=1000&fit=crop',
+    caption: 'Weekend hike 🥾',
+    background_color: '#22C55E',
+    audience: 'everyone',
+    created_at: new Date(Date.now() - 5 * 86400000).toISOString(),
+    expires_at: new Date(Date.now() - 4 * 86400000).toISOString(),
+    profiles: DEMO_PROFILES[0],
+  },
+  {
+    id: 'demo-story-7',
+    user_id: DEMO_USER_ID,
+    image_url: '',
+    caption: 'First day at the new job 🎉',
+    background_color: '#F59E0B',
+    audience: 'everyone',
+    created_at: new Date(Date.now() - 10 * 86400000).toISOString(),
+    expires_at: new Date(Date.now() - 9 * 86400000).toISOString(),
+    profiles: DEMO_PROFILES[0],
+  },
+  {
+    id: 'demo-story-8',
+    user_id: 'demo-user-2',
+    image_url: 'https://images.unsplash.com/photo-1500530855697-b586d89ba3ee?w=600&h=1000&fit=crop',
+    caption: 'Road trip 🚗',
+    background_color: '#3B82F6',
+    audience: 'everyone',
+    created_at: new Date(Date.now() - 7 * 86400000).toISOString(),
+    expires_at: new Date(Date.now() - 6 * 86400000).toISOString(),
+    profiles: DEMO_PROFILES[1],
+  },
+];
+
+const demoHighlights: StoryHighlight[] = [
+  {
+    id: 'demo-highlight-1',
+    user_id: DEMO_USER_ID,
+    title: 'Outdoors',
+    cover_url: 'https://images.unsplash.com/photo-1551632811-561732d1e306?w=600&h=1000&fit=crop',
+    created_at: new Date(Date.now() - 4 * 86400000).toISOString(),
+  },
+  {
+    id: 'demo-highlight-2',
+    user_id: 'demo-user-2',
+    title: 'Travel',
+    cover_url: null,
+    created_at: new Date(Date.now() - 6 * 86400000).toISOString(),
+  },
+];
+
+const demoHighlightItems: StoryHighlightItem[] = [
+  { highlight_id: 'demo-highlight-1', story_id: 'demo-story-6', added_at: demoHighlights[0].created_at },
+  { highlight_id: 'demo-highlight-2', story_id: 'demo-story-8', added_at: demoHighlights[1].created_at },
+];
+
+const demoFriendships: Friendship[] = [
+  {
+    id: 'demo-friendship-1',
+    user_id_1: 'demo-user-2',
+    user_id_2: DEMO_USER_ID,
+    status: 'accepted',
+    requested_by: 'demo-user-2',
+    created_at: new Date(Date.now() - 86400000).toISOString(),
+    updated_at: new Date(Date.now() - 80000000).toISOString(),
+  },
+  {
+    id: 'demo-friendship-2',
+    user_id_1: 'demo-user-3',
+    user_id_2: DEMO_USER_ID,
+    status: 'pending',
+    requested_by: 'demo-user-3',
+    created_at: new Date(Date.now() - 7200000).toISOString(),
+    updated_at: new Date(Date.now() - 7200000).toISOString(),
+  },
+  {
+    id: 'demo-friendship-3',
+    user_id_1: 'demo-user-2',
+    user_id_2: 'demo-user-4',
+    status: 'accepted',
+    requested_by: 'demo-user-2',
+    created_at: new Date(Date.now() - 172800000).toISOString(),
+    updated_at: new Date(Date.now() - 172800000).toISOString(),
+  },
+];
+
+const demoConversations: Conversation[] = [
+  {
+    id: 'demo-conversation-1',
+    title: '',
+    is_group: false,
+    created_by: 'demo-user-2',
+    created_at: new Date(Date.now() - 5400000).toISOString(),
+    updated_at: new Date(Date.now() - 1800000).toISOString(),
+  },
+];
+
+const demoParticipants: ConversationParticipant[] = [
+  {
+    conversation_id: 'demo-conversation-1',
+    user_id: 'demo-user-2',
+    joined_at: new Date(Date.now() - 5400000).toISOString(),
+    last_read_at: new Date(Date.now() - 1800000).toISOString(),
+  },
+  {
+    conversation_id: 'demo-conversation-1',
+    user_id: DEMO_USER_ID,
+    joined_at: new Date(Date.now() - 5400000).toISOString(),
+    last_read_at: new Date(Date.now() - 5400000).toISOString(),
+  },
+];
+
+const demoMessages: Message[] = [
+  {
+    id: 'demo-message-1',
+    conversation_id: 'demo-conversation-1',
+    sender_id: 'demo-user-2',
+    content: 'Hey! Thanks for accepting my friend request 😊',
+    created_at: new Date(Date.now() - 5400000).toISOString(),
+  },
+  {
+    id: 'demo-message-2',
+    conversation_id: 'demo-conversation-1',
+    sender_id: 'demo-user-2',
+    content: 'Are you coming to the meetup on Friday?',
+    created_at: new Date(Date.now() - 1800000).toISOString(),
+  },
+];
+
+const demoReactions: Reaction[] = [
+  { id: 'demo-reaction-1', post_id: 'demo-post-1', user_id: 'demo-user-2', type: 'love', created_at: new Date(Date.now() - 3000000).toISOString() },
+  { id: 'demo-reaction-2', post_id: 'demo-post-1', user_id: 'demo-user-4', type: 'like', created_at: new Date(Date.now() - 2400000).toISOString() },
+  { id: 'demo-reaction-3', post_id: 'demo-post-1', user_id: 'demo-user-5', type: 'like', created_at: new Date(Date.now() - 1200000).toISOString() },
+];
+
+const demoFollows: Follow[] = [
+  { id: 'demo-follow-1', follower_id: 'demo-user-4', following_id: DEMO_USER_ID, status: 'accepted', created_at: new Date(Date.now() - 10800000).toISOString() },
+];
+
+// Alice keeps the demo user on her close friends list, so her
+// close-friends story shows up for them
+const demoCloseFriends: CloseFriend[] = [
+  { user_id: 'demo-user-2', friend_id: DEMO_USER_ID, created_at: new Date(Date.now() - 86400000).toISOString() },
+];
+
+// What the notification triggers would have written for the seeds above.
+const demoNotifications: Notification[] = [
+  ...demoReactions.map((r) => ({
+    id: `demo-notification-${r.id}`,
+    user_id: DEMO_USER_ID,
+    actor_id: r.user_id,
+    type: 'reaction' as const,
+    post_id: r.post_id,
+    comment_id: null,
+    story_id: null,
+    reaction_type: r.type,
+    read_at: null,
+    created_at: r.created_at,
+  })),
+  {
+    id: 'demo-notification-friend-request',
+    user_id: DEMO_USER_ID,
+    actor_id: 'demo-user-3',
+    type: 'friend_request',
+    post_id: null,
+    comment_id: null,
+    story_id: null,
+    reaction_type: null,
+    read_at: null,
+    created_at: demoFriendships[1].created_at,
+  },
+  {
+    id: 'demo-notification-follow',
+    user_id: DEMO_USER_ID,
+    actor_id: 'demo-user-4',
+    type: 'follow',
+    post_id: null,
+    comment_id: null,
+    story_id: null,
+    reaction_type: null,
+    read_at: demoFollows[0].created_at,
+    created_at: demoFollows[0].created_at,
+  },
+];
+
+const demoReports: Report[] = [
+  {
+    id: 'demo-report-1',
+    reporter_id: 'demo-user-5',
+    target_type: 'post',
+    target_id: 'demo-post-3',
+    target_user_id: 'demo-user-3',
+    reason: 'spam',
+    details: 'Keeps posting the same project link everywhere.',
+    snapshot_content: demoPosts[2].content,
+    snapshot_image_url: null,
+    status: 'open',
+    resolved_by: null,
+    resolved_at: null,
+    created_at: new Date(Date.now() - 10800000).toISOString(),
+  },
+  {
+    id: 'demo-report-2',
+    reporter_id: 'demo-user-2',
+    target_type: 'story',
+    target_id: 'demo-story-4',
+    target_user_id: 'demo-user-4',
+    reason: 'other',
+    details: "I don't think this photo is theirs to share.",
+    snapshot_content: demoStories[3].caption,
+    snapshot_image_url: demoStories[3].image_url || null,
+    status: 'open',
+    resolved_by: null,
+    resolved_at: null,
+    created_at: new Date(Date.now() - 3600000).toISOString(),
+  },
 ];
 
 // ─── In-memory stores (mutable refs) ─────────────────────────────────
 
-let _posts = [...demoPosts];
-let _stories = [...demoStories] as any[];
-let _likes: any[] = [];
-let _comments: any[] = [];
-let _follows: any[] = [];
-let _friendships: any[] = [];
-let _storyViews: any[] = [];
-
-function getStore(table: string): any[] {
-  switch (table) {
-    case 'posts': return _posts;
-    case 'profiles': return [...DEMO_PROFILES];
-    case 'stories': return _stories;
-    case 'likes': return _likes;
-    case 'comments': return _comments;
-    case 'follows': return _follows;
-    case 'friendships': return _friendships;
-    case 'story_views': return _storyViews;
-    default: return [];
+// A row in a demo store. Each table keeps its own shape and the shim reads
+// columns by name, as PostgREST would, so rows are only loosely typed.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type DemoRow = Record<string, any>;
+
+const _db: Record<string, DemoRow[]> = {
+  posts: [...demoPosts],
+  profiles: [...DEMO_PROFILES],
+  stories: [...demoStories],
+  reactions: [...demoReactions],
+  comments: [],
+  follows: [...demoFollows],
+  friendships: [...demoFriendships],
+  story_views: [],
+  story_replies: [],
+  conversations: [...demoConversations],
+  conversation_participants: [...demoParticipants],
+  messages: [...demoMessages],
+  notifications: [...demoNotifications],
+  suggestion_dismissals: [],
+  blocks: [],
+  mutes: [],
+  reports: [...demoReports],
+  moderation_actions: [],
+  hashtags: [],
+  post_hashtags: [],
+  mentions: [],
+  post_audience_members: [],
+  close_friends: [...demoCloseFriends],
+  story_highlights: [...demoHighlights],
+  story_highlight_items: [...demoHighlightItems],
+};
+
+function getStore(table: string): DemoRow[] {
+  return _db[table] || [];
+}
+
+function mutateStore(table: string): DemoRow[] {
+  if (!_db[table]) _db[table] = [];
+  return _db[table];
+}
+
+function profileById(userId: string): Profile | null {
+  return (getStore('profiles').find((p) => p.id === userId) as Profile | undefined) || null;
+}
+
+// ─── Demo row level security ─────────────────────────────────────────
+// The select policies that can hide rows from the demo user. They apply to
+// every select and to the RPCs that run as the caller rather than as
+// SECURITY DEFINER; tables not listed here are fully visible.
+
+const demoPolicies: Record<string, (row: DemoRow) => boolean> = {
+  profiles: (row) => !isDemoBlockedWith(row.id),
+  posts: (row) =>
+    !row.hidden_at && !isDemoBlockedWith(row.user_id) && canDemoViewContentOf(row.user_id) && canDemoViewPost(row),
+  comments: (row) =>
+    !row.hidden_at && !isDemoBlockedWith(row.user_id) && visibleRows('posts').some((p) => p.id === row.post_id),
+  reactions: (row) => visibleRows('posts').some((p) => p.id === row.post_id),
+  comment_likes: (row) => visibleRows('comments').some((c) => c.id === row.comment_id),
+  post_hashtags: (row) => visibleRows('posts').some((p) => p.id === row.post_id),
+  mentions: (row) =>
+    visibleRows('posts').some((p) => p.id === row.post_id) &&
+    (!row.comment_id || visibleRows('comments').some((c) => c.id === row.comment_id)),
+  stories: (row) =>
+    (row.expires_at > new Date().toISOString() || row.user_id === DEMO_USER_ID || isDemoStoryHighlighted(row.id)) &&
+    !row.hidden_at && !isDemoBlockedWith(row.user_id) && canDemoViewContentOf(row.user_id) && canDemoViewStory(row),
+  follows: (row) =>
+    row.follower_id === DEMO_USER_ID ||
+    row.following_id === DEMO_USER_ID ||
+    (row.status === 'accepted' && canDemoViewContentOf(row.follower_id) && canDemoViewContentOf(row.following_id)),
+  blocks: (row) => row.blocker_id === DEMO_USER_ID,
+  mutes: (row) => row.user_id === DEMO_USER_ID,
+  post_audience_members: (row) => postAuthor(row.post_id) === DEMO_USER_ID,
+  close_friends: (row) => row.user_id === DEMO_USER_ID,
+  story_highlights: (row) => !isDemoBlockedWith(row.user_id) && canDemoViewContentOf(row.user_id),
+  story_highlight_items: (row) => visibleRows('story_highlights').some((h) => h.id === row.highlight_id),
+  story_views: (row) =>
+    row.user_id === DEMO_USER_ID ||
+    getStore('stories').some((s) => s.id === row.story_id && s.user_id === DEMO_USER_ID),
+  story_replies: (row) =>
+    row.user_id === DEMO_USER_ID ||
+    getStore('stories').some((s) => s.id === row.story_id && s.user_id === DEMO_USER_ID),
+  reports: (row) => row.reporter_id === DEMO_USER_ID || isDemoModerator(DEMO_USER_ID),
+  moderation_actions: () => isDemoModerator(DEMO_USER_ID),
+};
+
+function visibleRows(table: string): DemoRow[] {
+  const policy = demoPolicies[table];
+  return policy ? getStore(table).filter(policy) : getStore(table);
+}
+
+// ─── Demo RPCs ───────────────────────────────────────────────────────
+// In-memory equivalents of the Postgres functions in supabase/migrations,
+// keyed by function name. `auth.uid()` is always the demo user.
+
+function feedRow(post: DemoRow) {
+  const reactions = getStore('reactions').filter((r) => r.post_id === post.id);
+  const comments = visibleRows('comments')
+    .filter((c) => c.post_id === post.id)
+    .sort((a, b) => compareValues(a.created_at, b.created_at));
+
+  return {
+    ...post,
+    profiles: profileById(post.user_id),
+    reaction_count: reactions.length,
+    reaction_counts: reactions.reduce((counts, r) => ({ ...counts, [r.type]: (counts[r.type] || 0) + 1 }), {}),
+    my_reaction: reactions.find((r) => r.user_id === DEMO_USER_ID)?.type ?? null,
+    comment_count: comments.length,
+    recent_comments: comments
+      .filter((c) => !c.parent_id)
+      .slice(0, FEED_PREVIEW_COMMENTS)
+      .map((c) => ({ ...c, profiles: profileById(c.user_id) })),
+  };
+}
+
+// Accepted follows only; pending requests don't count anywhere
+function followingIds(userId: string): string[] {
+  return getStore('follows')
+    .filter((f) => f.follower_id === userId && f.status === 'accepted')
+    .map((f) => f.following_id);
+}
+
+function friendIds(userId: string): string[] {
+  return getStore('friendships')
+    .filter((f) => f.status === 'accepted' && (f.user_id_1 === userId || f.user_id_2 === userId))
+    .map((f) => (f.user_id_1 === userId ? f.user_id_2 : f.user_id_1));
+}
+
+function newDemoId(table: string) {
+  return `demo-${table}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function createDemoConversation(memberIds: string[], fields: Partial<Conversation>) {
+  const now = new Date().toISOString();
+  const conversation = {
+    id: newDemoId('conversations'),
+    title: '',
+    is_group: false,
+    created_by: DEMO_USER_ID,
+    created_at: now,
+    updated_at: now,
+    ...fields,
+  };
+  mutateStore('conversations').push(conversation);
+  for (const userId of [DEMO_USER_ID, ...memberIds]) {
+    mutateStore('conversation_participants').push({
+      conversation_id: conversation.id,
+      user_id: userId,
+      joined_at: now,
+      last_read_at: now,
+    });
+  }
+  return conversation.id;
+}
+
+function conversationMembers(conversationId: string): string[] {
+  return getStore('conversation_participants')
+    .filter((p) => p.conversation_id === conversationId)
+    .map((p) => p.user_id);
+}
+
+// How long a declined requester waits before asking again
+const FRIEND_REQUEST_COOLDOWN_MS = 7 * 86400000;
+
+function demoFriendshipWith(otherId: string) {
+  return getStore('friendships').find((f) =>
+    (f.user_id_1 === DEMO_USER_ID && f.user_id_2 === otherId) ||
+    (f.user_id_2 === DEMO_USER_ID && f.user_id_1 === otherId)
+  );
+}
+
+function updateDemoFriendship(row: DemoRow, changes: Partial<Friendship>) {
+  const old = { ...row };
+  Object.assign(row, changes, { updated_at: new Date().toISOString() });
+  demoTriggers.friendships.beforeUpdate!(row, old);
+  emitChange('friendships', 'UPDATE', row, old);
+  return { ...row };
+}
+
+function updateDemoFollow(row: DemoRow, status: Follow['status']) {
+  const old = { ...row };
+  row.status = status;
+  demoTriggers.follows.beforeUpdate!(row, old);
+  emitChange('follows', 'UPDATE', row, old);
+}
+
+// is_blocked_with, for the demo user and `otherId`
+function isDemoBlockedWith(otherId: string) {
+  return getStore('blocks').some((b) =>
+    (b.blocker_id === DEMO_USER_ID && b.blocked_id === otherId) ||
+    (b.blocker_id === otherId && b.blocked_id === DEMO_USER_ID)
+  );
+}
+
+// can_view_content_of, for the demo user
+function canDemoViewContentOf(ownerId: string) {
+  return ownerId === DEMO_USER_ID ||
+    !profileById(ownerId)?.is_private ||
+    followingIds(DEMO_USER_ID).includes(ownerId) ||
+    friendIds(DEMO_USER_ID).includes(ownerId);
+}
+
+// can_view_post, for the demo user
+function canDemoViewPost(post: DemoRow) {
+  if (post.user_id === DEMO_USER_ID) return true;
+  switch (post.visibility) {
+    case 'followers':
+      return followingIds(DEMO_USER_ID).includes(post.user_id);
+    case 'friends':
+      return friendIds(DEMO_USER_ID).includes(post.user_id);
+    case 'custom':
+      return getStore('post_audience_members').some((m) => m.post_id === post.id && m.user_id === DEMO_USER_ID);
+    case 'only_me':
+      return false;
+    default:
+      return true;
+  }
+}
+
+// can_view_story, for the demo user
+function canDemoViewStory(story: DemoRow) {
+  if (story.user_id === DEMO_USER_ID) return true;
+  switch (story.audience) {
+    case 'friends':
+      return friendIds(DEMO_USER_ID).includes(story.user_id);
+    case 'close_friends':
+      return friendIds(DEMO_USER_ID).includes(story.user_id) &&
+        getStore('close_friends').some((c) => c.user_id === story.user_id && c.friend_id === DEMO_USER_ID);
+    default:
+      return true;
+  }
+}
+
+// is_story_highlighted
+function isDemoStoryHighlighted(storyId: string) {
+  return getStore('story_highlight_items').some((i) => i.story_id === storyId);
+}
+
+function mutedIds(userId: string): string[] {
+  return getStore('mutes')
+    .filter((m) => m.user_id === userId)
+    .map((m) => m.muted_user_id);
+}
+
+// is_moderator
+function isDemoModerator(userId: string) {
+  const role = profileById(userId)?.role;
+  return role === 'moderator' || role === 'admin';
+}
+
+function requireDemoModerator() {
+  if (!isDemoModerator(DEMO_USER_ID)) throw new Error('Only moderators can do this');
+}
+
+const DEMO_REPORT_TABLES: Record<ReportTargetType, string> = {
+  post: 'posts',
+  comment: 'comments',
+  story: 'stories',
+  profile: 'profiles',
+};
+
+function resolveDemoReports(predicate: (report: DemoRow) => boolean, status: ReportStatus = 'resolved') {
+  const now = new Date().toISOString();
+  for (const report of getStore('reports')) {
+    if (report.status !== 'open' || !predicate(report)) continue;
+    const old = { ...report };
+    Object.assign(report, { status, resolved_by: DEMO_USER_ID, resolved_at: now });
+    emitChange('reports', 'UPDATE', report, old);
+  }
+}
+
+function logDemoModeration(fields: {
+  action: ModerationActionType;
+  target_type: ReportTargetType;
+  target_id: string;
+  target_user_id: string;
+  report_id?: string;
+  note?: string;
+}) {
+  const row = {
+    id: newDemoId('moderation_actions'),
+    moderator_id: DEMO_USER_ID,
+    report_id: null,
+    ...fields,
+    note: (fields.note || '').trim(),
+    created_at: new Date().toISOString(),
+  };
+  mutateStore('moderation_actions').push(row);
+  emitChange('moderation_actions', 'INSERT', row, null);
+}
+
+function containsText(value: string | null | undefined, query: string) {
+  return !!value && value.toLowerCase().includes(query.trim().toLowerCase());
+}
+
+const demoRpcs: Record<string, (params: DemoRow) => unknown> = {
+  is_username_available: ({ p_username }) => {
+    return !getStore('profiles').some((p) =>
+      p.username.toLowerCase() === String(p_username).toLowerCase() && p.id !== DEMO_USER_ID
+    );
+  },
+
+  request_friendship: ({ p_other }) => {
+    if (p_other === DEMO_USER_ID) throw new Error("You can't send a friend request to yourself");
+    if (isDemoBlockedWith(p_other)) throw new Error("You can't send a friend request to this user");
+    const row = demoFriendshipWith(p_other);
+    if (!row) {
+      const now = new Date().toISOString();
+      const inserted = {
+        id: newDemoId('friendships'),
+        user_id_1: DEMO_USER_ID,
+        user_id_2: p_other,
+        requested_by: DEMO_USER_ID,
+        status: 'pending',
+        created_at: now,
+        updated_at: now,
+      };
+      mutateStore('friendships').push(inserted);
+      emitChange('friendships', 'INSERT', inserted, null);
+      demoTriggers.friendships.afterInsert!(inserted);
+      return { ...inserted };
+    }
+    if (row.status === 'accepted') throw new Error('You are already friends');
+    if (row.status === 'pending') {
+      if (row.requested_by === DEMO_USER_ID) throw new Error('Friend request already sent');
+      return updateDemoFriendship(row, { status: 'accepted' });
+    }
+    const retryAt = new Date(row.updated_at).getTime() + FRIEND_REQUEST_COOLDOWN_MS;
+    if (row.requested_by === DEMO_USER_ID && retryAt > Date.now()) {
+      const date = new Date(retryAt).toLocaleDateString('en-US', { month: 'short', day: '2-digit' });
+      throw new Error(`Your request was declined. You can ask again after ${date}`);
+    }
+    return updateDemoFriendship(row, {
+      user_id_1: DEMO_USER_ID,
+      user_id_2: p_other,
+      requested_by: DEMO_USER_ID,
+      status: 'pending',
+    });
+  },
+
+  cancel_friend_request: ({ p_other }) => {
+    const row = demoFriendshipWith(p_other);
+    if (row?.status !== 'pending' || row.requested_by !== DEMO_USER_ID) {
+      throw new Error('There is no pending request to cancel');
+    }
+    deleteWhere('friendships', (f) => f.id === row.id);
+  },
+
+  respond_to_friend_request: ({ p_other, p_accept }) => {
+    const row = demoFriendshipWith(p_other);
+    if (row?.status !== 'pending' || row.requested_by !== p_other) {
+      throw new Error('There is no pending request from this user');
+    }
+    return updateDemoFriendship(row, { status: p_accept ? 'accepted' : 'rejected' });
+  },
+
+  respond_to_follow_request: ({ p_follower, p_accept }) => {
+    const row = getStore('follows').find((f) =>
+      f.follower_id === p_follower && f.following_id === DEMO_USER_ID && f.status === 'pending'
+    );
+    if (!row) throw new Error('There is no follow request from this user');
+    if (p_accept) {
+      updateDemoFollow(row, 'accepted');
+    } else {
+      deleteWhere('follows', (f) => f.id === row.id);
+    }
+  },
+
+  unfriend: ({ p_other }) => {
+    const row = demoFriendshipWith(p_other);
+    if (row?.status !== 'accepted') throw new Error('You are not friends with this user');
+    deleteWhere('friendships', (f) => f.id === row.id);
+  },
+
+  block_user: ({ p_other }) => {
+    if (p_other === DEMO_USER_ID) throw new Error("You can't block yourself");
+    if (!getStore('blocks').some((b) => b.blocker_id === DEMO_USER_ID && b.blocked_id === p_other)) {
+      const row = { blocker_id: DEMO_USER_ID, blocked_id: p_other, created_at: new Date().toISOString() };
+      mutateStore('blocks').push(row);
+      emitChange('blocks', 'INSERT', row, null);
+    }
+    const between = (a: string, b: string) =>
+      (a === DEMO_USER_ID && b === p_other) || (a === p_other && b === DEMO_USER_ID);
+    deleteWhere('follows', (f) => between(f.follower_id, f.following_id));
+    deleteWhere('friendships', (f) => between(f.user_id_1, f.user_id_2));
+    deleteWhere('notifications', (n) => between(n.user_id, n.actor_id));
+  },
+
+  get_blocked_users: () => {
+    return getStore('blocks')
+      .filter((b) => b.blocker_id === DEMO_USER_ID)
+      .sort((a, b) => compareValues(b.created_at, a.created_at))
+      .map((b) => ({ ...profileById(b.blocked_id), blocked_at: b.created_at }))
+      .filter((p) => p.id);
+  },
+
+  report_content: ({ p_target_type, p_target_id, p_reason, p_details = '' }) => {
+    const table = DEMO_REPORT_TABLES[p_target_type as ReportTargetType];
+    if (!table) throw new Error('Unknown report target');
+    const target = visibleRows(table).find((t) => t.id === p_target_id);
+    if (!target) throw new Error('This content no longer exists');
+    const owner = p_target_type === 'profile' ? target.id : target.user_id;
+    if (owner === DEMO_USER_ID) throw new Error("You can't report your own content");
+    if (getStore('reports').some((r) =>
+      r.reporter_id === DEMO_USER_ID && r.target_type === p_target_type && r.target_id === p_target_id && r.status === 'open'
+    )) {
+      throw new Error("You've already reported this");
+    }
+    const snapshot = {
+      post: () => [target.content, target.image_url],
+      comment: () => [target.content, null],
+      story: () => [target.caption, target.image_url],
+      profile: () => [[target.username, target.full_name, target.bio].filter(Boolean).join('\n'), target.avatar_url],
+    }[p_target_type as ReportTargetType]();
+    const row = {
+      id: newDemoId('reports'),
+      reporter_id: DEMO_USER_ID,
+      target_type: p_target_type,
+      target_id: p_target_id,
+      target_user_id: owner,
+      reason: p_reason,
+      details: String(p_details || '').trim(),
+      snapshot_content: snapshot[0] || '',
+      snapshot_image_url: snapshot[1] || null,
+      status: 'open',
+      resolved_by: null,
+      resolved_at: null,
+      created_at: new Date().toISOString(),
+    };
+    mutateStore('reports').push(row);
+    emitChange('reports', 'INSERT', row, null);
+    return row.id;
+  },
+
+  moderate_content: ({ p_target_type, p_target_id, p_action, p_note = '' }) => {
+    requireDemoModerator();
+    if (!['post', 'comment', 'story'].includes(p_target_type)) {
+      throw new Error('Only posts, comments and stories can be hidden or removed');
+    }
+    if (!['hide', 'unhide', 'remove'].includes(p_action)) throw new Error('Unknown moderation action');
+    const table = DEMO_REPORT_TABLES[p_target_type as ReportTargetType];
+    const target = getStore(table).find((t) => t.id === p_target_id);
+    if (!target) throw new Error('This content no longer exists');
+
+    if (p_action === 'remove') {
+      deleteWhere(table, (t) => t.id === p_target_id);
+    } else {
+      const old = { ...target };
+      target.hidden_at = p_action === 'hide' ? new Date().toISOString() : null;
+      emitChange(table, 'UPDATE', target, old);
+    }
+    if (p_action !== 'unhide') {
+      resolveDemoReports((r) => r.target_type === p_target_type && r.target_id === p_target_id);
+    }
+    logDemoModeration({
+      action: p_action,
+      target_type: p_target_type,
+      target_id: p_target_id,
+      target_user_id: target.user_id,
+      note: p_note,
+    });
+  },
+
+  suspend_user: ({ p_user_id, p_days = null, p_reason = '' }) => {
+    requireDemoModerator();
+    if (p_user_id === DEMO_USER_ID) throw new Error("You can't suspend yourself");
+    if (isDemoModerator(p_user_id) && profileById(DEMO_USER_ID)?.role !== 'admin') {
+      throw new Error('Only admins can suspend moderators');
+    }
+    if (p_days !== null && p_days < 1) throw new Error('A suspension lasts at least a day');
+    const profile = profileById(p_user_id);
+    if (!profile) throw new Error('This user no longer exists');
+    const old = { ...profile };
+    profile.suspended_until = p_days === null ? 'infinity' : new Date(Date.now() + p_days * 86400000).toISOString();
+    profile.suspension_reason = String(p_reason || '').trim() || null;
+    emitChange('profiles', 'UPDATE', profile, old);
+    resolveDemoReports((r) => r.target_type === 'profile' && r.target_id === p_user_id);
+    logDemoModeration({
+      action: 'suspend',
+      target_type: 'profile',
+      target_id: p_user_id,
+      target_user_id: p_user_id,
+      note: p_reason,
+    });
+  },
+
+  unsuspend_user: ({ p_user_id, p_note = '' }) => {
+    requireDemoModerator();
+    const profile = profileById(p_user_id);
+    if (!profile?.suspended_until) throw new Error("This user isn't suspended");
+    const old = { ...profile };
+    profile.suspended_until = null;
+    profile.suspension_reason = null;
+    emitChange('profiles', 'UPDATE', profile, old);
+    logDemoModeration({
+      action: 'unsuspend',
+      target_type: 'profile',
+      target_id: p_user_id,
+      target_user_id: p_user_id,
+      note: p_note,
+    });
+  },
+
+  dismiss_report: ({ p_report_id, p_note = '' }) => {
+    requireDemoModerator();
+    const report = getStore('reports').find((r) => r.id === p_report_id && r.status === 'open');
+    if (!report) throw new Error('This report has already been handled');
+    resolveDemoReports((r) => r.id === p_report_id, 'dismissed');
+    logDemoModeration({
+      action: 'dismiss',
+      target_type: report.target_type,
+      target_id: report.target_id,
+      target_user_id: report.target_user_id,
+      report_id: report.id,
+      note: p_note,
+    });
+  },
+
+  get_moderation_queue: ({ p_status = 'open' }) => {
+    if (!isDemoModerator(DEMO_USER_ID)) return [];
+    return getStore('reports')
+      .filter((r) => r.status === p_status)
+      .sort((a, b) => p_status === 'open'
+        ? compareValues(a.created_at, b.created_at)
+        : compareValues(b.resolved_at, a.resolved_at))
+      .slice(0, 100)
+      .map((r) => {
+        const target = getStore(DEMO_REPORT_TABLES[r.target_type as ReportTargetType]).find((t) => t.id === r.target_id);
+        return {
+          ...r,
+          reporter: profileById(r.reporter_id),
+          target_user: profileById(r.target_user_id),
+          target_exists: !!target,
+          target_hidden_at: target?.hidden_at ?? null,
+          target_post_id: r.target_type === 'post' ? target?.id ?? null : r.target_type === 'comment' ? target?.post_id ?? null : null,
+        };
+      });
+  },
+
+  get_moderation_log: ({ p_limit = 50 }) => {
+    if (!isDemoModerator(DEMO_USER_ID)) return [];
+    return [...getStore('moderation_actions')]
+      .sort((a, b) => compareValues(b.created_at, a.created_at))
+      .slice(0, p_limit)
+      .map((a) => ({
+        ...a,
+        moderator: profileById(a.moderator_id),
+        target_user: profileById(a.target_user_id),
+      }));
+  },
+
+  start_direct_conversation: ({ p_other_user }) => {
+    if (!friendIds(DEMO_USER_ID).includes(p_other_user)) {
+      throw new Error('You can only message friends');
+    }
+    const existing = getStore('conversations').find((c) => {
+      if (c.is_group) return false;
+      const members = conversationMembers(c.id);
+      return members.length === 2 && members.includes(DEMO_USER_ID) && members.includes(p_other_user);
+    });
+    return existing ? existing.id : createDemoConversation([p_other_user], {});
+  },
+
+  create_group_conversation: ({ p_title, p_member_ids }) => {
+    const members: string[] = [...new Set<string>(p_member_ids)].filter((id) => id && id !== DEMO_USER_ID);
+    if (members.length < 2) throw new Error('A group needs at least two other members');
+    if (members.length > 9) throw new Error('Groups are limited to 10 members');
+    const friends = friendIds(DEMO_USER_ID);
+    if (members.some((id) => !friends.includes(id))) {
+      throw new Error('You can only add friends to a group');
+    }
+    return createDemoConversation(members, { title: p_title || '', is_group: true });
+  },
+
+  mark_conversation_read: ({ p_conversation_id }) => {
+    const me = getStore('conversation_participants').find((p) =>
+      p.conversation_id === p_conversation_id && p.user_id === DEMO_USER_ID
+    );
+    if (!me) return null;
+    const old = { ...me };
+    me.last_read_at = new Date().toISOString();
+    emitChange('conversation_participants', 'UPDATE', me, old);
+    return null;
+  },
+
+  get_inbox: () => {
+    return getStore('conversation_participants')
+      .filter((me) => me.user_id === DEMO_USER_ID)
+      .map((me): DemoRow => {
+        const conversation = getStore('conversations').find((c) => c.id === me.conversation_id);
+        const messages = getStore('messages')
+          .filter((m) => m.conversation_id === me.conversation_id)
+          .sort((a, b) => compareValues(b.created_at, a.created_at));
+        return {
+          ...conversation,
+          participants: conversationMembers(me.conversation_id)
+            .filter((id) => id !== DEMO_USER_ID)
+            .map(profileById)
+            .filter(Boolean),
+          last_message: messages[0] || null,
+          unread_count: messages.filter((m) =>
+            m.sender_id !== DEMO_USER_ID && compareValues(m.created_at, me.last_read_at) > 0
+          ).length,
+        };
+      })
+      .sort((a, b) => compareValues(b.updated_at, a.updated_at));
+  },
+
+  get_profile_stats: ({ p_user_id }) => [{
+    post_count: visibleRows('posts').filter((p) => p.user_id === p_user_id).length,
+    follower_count: getStore('follows').filter((f) => f.following_id === p_user_id && f.status === 'accepted').length,
+    following_count: followingIds(p_user_id).length,
+    friend_count: friendIds(p_user_id).length,
+  }],
+
+  get_mutual_friends: ({ p_user_id }) => {
+    const theirs = new Set(friendIds(p_user_id));
+    return friendIds(DEMO_USER_ID)
+      .filter((id) => theirs.has(id))
+      .map(profileById)
+      .filter(Boolean)
+      .sort((a, b) => compareValues(a!.username, b!.username));
+  },
+
+  // Plain substring matching stands in for the full-text and trigram
+  // indexes; ranking mirrors the real function's exact/prefix ordering.
+  search_profiles: ({ p_query, p_limit = 20 }) => {
+    const query = String(p_query).trim().toLowerCase();
+    if (!query) return [];
+    const rank = (p: DemoRow) =>
+      p.username.toLowerCase() === query ? 0 : p.username.toLowerCase().startsWith(query) ? 1 : 2;
+    return visibleRows('profiles')
+      .filter((p) => containsText(p.username, query) || containsText(p.full_name, query) || containsText(p.bio, query))
+      .sort((a, b) => rank(a) - rank(b) || compareValues(a.username, b.username))
+      .slice(0, Math.min(p_limit, 50));
+  },
+
+  get_friend_suggestions: ({ p_limit = 20 }) => {
+    const me = DEMO_USER_ID;
+    const myFriends = new Set(friendIds(me));
+    const myFollowing = new Set(followingIds(me));
+    const excluded = new Set([me]);
+    for (const f of getStore('friendships')) {
+      if (f.status !== 'accepted' && f.status !== 'pending') continue;
+      if (f.user_id_1 === me) excluded.add(f.user_id_2);
+      if (f.user_id_2 === me) excluded.add(f.user_id_1);
+    }
+    for (const d of getStore('suggestion_dismissals')) {
+      if (d.user_id === me) excluded.add(d.dismissed_user_id);
+    }
+    for (const b of getStore('blocks')) {
+      if (b.blocker_id === me) excluded.add(b.blocked_id);
+      if (b.blocked_id === me) excluded.add(b.blocker_id);
+    }
+    const interactionsWith = (other: string) =>
+      [...getStore('reactions'), ...getStore('comments')].filter((row) => {
+        const author = postAuthor(row.post_id);
+        return (row.user_id === other && author === me) || (row.user_id === me && author === other);
+      }).length;
+
+    return getStore('profiles')
+      .filter((p) => !excluded.has(p.id))
+      .map((p): DemoRow => ({
+        ...p,
+        mutual_friend_count: friendIds(p.id).filter((id) => myFriends.has(id)).length,
+        shared_follow_count: followingIds(p.id).filter((id) => myFollowing.has(id)).length,
+        interaction_count: interactionsWith(p.id),
+        follows_you: followingIds(p.id).includes(me),
+      }))
+      .map((s) => ({
+        suggestion: s,
+        score: 3 * s.mutual_friend_count + 2 * s.interaction_count + (s.follows_you ? 2 : 0) + s.shared_follow_count,
+      }))
+      .sort((a, b) => b.score - a.score || compareValues(b.suggestion.created_at, a.suggestion.created_at))
+      .slice(0, p_limit)
+      .map(({ suggestion }) => suggestion);
+  },
+
+  get_trending_hashtags: ({ p_hours = 24, p_limit = 10 }) => {
+    const since = new Date(Date.now() - p_hours * 3600000).toISOString();
+    const counts = new Map<string, { tag: string; post_count: number; latest: string }>();
+    for (const ph of getStore('post_hashtags')) {
+      const post = visibleRows('posts').find((p) => p.id === ph.post_id);
+      const hashtag = getStore('hashtags').find((h) => h.id === ph.hashtag_id);
+      if (!post || !hashtag || compareValues(post.created_at, since) <= 0) continue;
+      const entry = counts.get(hashtag.tag) || { tag: hashtag.tag, post_count: 0, latest: post.created_at };
+      entry.post_count++;
+      if (compareValues(post.created_at, entry.latest) > 0) entry.latest = post.created_at;
+      counts.set(hashtag.tag, entry);
+    }
+    return [...counts.values()]
+      .sort((a, b) => b.post_count - a.post_count || compareValues(b.latest, a.latest))
+      .slice(0, p_limit)
+      .map(({ tag, post_count }) => ({ tag, post_count }));
+  },
+
+  get_feed_page: ({ p_mode, p_before_created_at, p_before_id, p_after_created_at, p_after_id, p_limit, p_author_id, p_post_id, p_query, p_hashtag }) => {
+    let rows = [...visibleRows('posts')].sort((a, b) =>
+      compareValues(b.created_at, a.created_at) || compareValues(b.id, a.id)
+    );
+    if (p_mode === 'following' || p_mode === 'friends') {
+      const authors = new Set(p_mode === 'following' ? followingIds(DEMO_USER_ID) : friendIds(DEMO_USER_ID));
+      authors.add(DEMO_USER_ID);
+      rows = rows.filter((p) => authors.has(p.user_id));
+    }
+    if (p_author_id) {
+      rows = rows.filter((p) => p.user_id === p_author_id);
+    }
+    if (!p_author_id && !p_post_id) {
+      const muted = new Set(mutedIds(DEMO_USER_ID));
+      rows = rows.filter((p) => !muted.has(p.user_id));
+    }
+    if (p_post_id) {
+      rows = rows.filter((p) => p.id === p_post_id);
+    }
+    if (p_query) {
+      rows = rows.filter((p) => containsText(p.content, p_query));
+    }
+    if (p_hashtag) {
+      const hashtag = getStore('hashtags').find((h) => h.tag === String(p_hashtag).toLowerCase());
+      const tagged = new Set(getStore('post_hashtags').filter((ph) => ph.hashtag_id === hashtag?.id).map((ph) => ph.post_id));
+      rows = rows.filter((p) => tagged.has(p.id));
+    }
+    if (p_before_created_at) {
+      rows = rows.filter((p) =>
+        compareValues(p.created_at, p_before_created_at) < 0 ||
+        (p.created_at === p_before_created_at && compareValues(p.id, p_before_id) < 0)
+      );
+    }
+    if (p_after_created_at) {
+      rows = rows.filter((p) =>
+        compareValues(p.created_at, p_after_created_at) > 0 ||
+        (p.created_at === p_after_created_at && compareValues(p.id, p_after_id) > 0)
+      );
+    }
+    if (p_limit) rows = rows.slice(0, p_limit);
+    return rows.map(feedRow);
+  },
+};
+
+// ─── Demo triggers ───────────────────────────────────────────────────
+// Side effects that database triggers perform on the real backend, run by
+// the shim around its own inserts, updates and deletes.
+
+type DemoTrigger = {
+  afterInsert?: (row: DemoRow) => void;
+  beforeUpdate?: (row: DemoRow, old: DemoRow) => void;
+  afterDelete?: (old: DemoRow) => void;
+};
+
+function deleteWhere(table: string, predicate: (row: DemoRow) => boolean) {
+  const removed = getStore(table).filter(predicate);
+  _db[table] = getStore(table).filter((row) => !predicate(row));
+  for (const row of removed) {
+    emitChange(table, 'DELETE', null, row);
+    demoTriggers[table]?.afterDelete?.(row);
+  }
+}
+
+// create_notification: records an event for `userId`, unless they caused it.
+function notifyDemo(userId: string | undefined, actorId: string, type: NotificationType, fields: Partial<Notification> = {}) {
+  if (!userId || userId === actorId) return;
+  const row = {
+    id: newDemoId('notifications'),
+    user_id: userId,
+    actor_id: actorId,
+    type,
+    post_id: null,
+    comment_id: null,
+    story_id: null,
+    reaction_type: null,
+    read_at: null,
+    created_at: new Date().toISOString(),
+    ...fields,
+  };
+  mutateStore('notifications').push(row);
+  emitChange('notifications', 'INSERT', row, null);
+}
+
+// sync_post_tags / sync_comment_mentions
+function syncDemoTags(post: DemoRow) {
+  deleteWhere('post_hashtags', (ph) => ph.post_id === post.id);
+  for (const tag of extractHashtags(post.content)) {
+    let hashtag = getStore('hashtags').find((h) => h.tag === tag);
+    if (!hashtag) {
+      hashtag = { id: newDemoId('hashtags'), tag, created_at: new Date().toISOString() };
+      mutateStore('hashtags').push(hashtag);
+    }
+    mutateStore('post_hashtags').push({ post_id: post.id, hashtag_id: hashtag.id });
+  }
+}
+
+function syncDemoMentions(postId: string, commentId: string | null, authorId: string, content: string) {
+  deleteWhere('mentions', (m) => m.post_id === postId && m.comment_id === commentId);
+  const usernames = new Set(extractMentions(content));
+  for (const profile of getStore('profiles')) {
+    if (!usernames.has(profile.username.toLowerCase())) continue;
+    mutateStore('mentions').push({
+      id: newDemoId('mentions'),
+      post_id: postId,
+      comment_id: commentId,
+      mentioned_user_id: profile.id,
+      author_id: authorId,
+      created_at: new Date().toISOString(),
+    });
+  }
+}
+
+function postAuthor(postId: string): string | undefined {
+  return getStore('posts').find((p) => p.id === postId)?.user_id;
+}
+
+const demoTriggers: Record<string, DemoTrigger> = {
+  profiles: {
+    beforeUpdate: (row, old) => {
+      // accept_pending_follows
+      if (old.is_private && !row.is_private) {
+        for (const f of getStore('follows')) {
+          if (f.following_id === row.id && f.status === 'pending') updateDemoFollow(f, 'accepted');
+        }
+      }
+      if (row.id !== DEMO_USER_ID || typeof localStorage === 'undefined') return;
+      localStorage.setItem(DEMO_PROFILE_STORAGE_KEY, JSON.stringify(row));
+    },
+  },
+  reactions: {
+    // notify_reaction
+    afterInsert: (row) => {
+      notifyDemo(postAuthor(row.post_id), row.user_id, 'reaction', { post_id: row.post_id, reaction_type: row.type });
+    },
+    beforeUpdate: (row) => {
+      for (const n of getStore('notifications')) {
+        if (n.type === 'reaction' && n.post_id === row.post_id && n.actor_id === row.user_id) {
+          n.reaction_type = row.type;
+        }
+      }
+    },
+    afterDelete: (old) => {
+      deleteWhere('notifications', (n) =>
+        n.type === 'reaction' && n.post_id === old.post_id && n.actor_id === old.user_id
+      );
+    },
+  },
+  follows: {
+    // set_follow_status and notify_follow
+    afterInsert: (row) => {
+      row.status = profileById(row.following_id)?.is_private ? 'pending' : 'accepted';
+      notifyDemo(row.following_id, row.follower_id, row.status === 'pending' ? 'follow_request' : 'follow');
+    },
+    beforeUpdate: (row, old) => {
+      if (row.status !== 'accepted' || old.status !== 'pending') return;
+      deleteWhere('notifications', (n) =>
+        n.type === 'follow_request' && n.user_id === row.following_id && n.actor_id === row.follower_id
+      );
+      notifyDemo(row.following_id, row.follower_id, 'follow');
+      notifyDemo(row.follower_id, row.following_id, 'follow_accept');
+    },
+    afterDelete: (old) => {
+      deleteWhere('notifications', (n) =>
+        (n.type === 'follow' || n.type === 'follow_request') &&
+        n.user_id === old.following_id && n.actor_id === old.follower_id
+      );
+    },
+  },
+  friendships: {
+    // notify_friendship
+    afterInsert: (row) => {
+      if (row.status === 'pending') notifyDemo(row.user_id_2, row.requested_by, 'friend_request');
+    },
+    beforeUpdate: (row, old) => {
+      if (row.status === 'pending' && old.status !== 'pending') {
+        notifyDemo(row.user_id_2, row.requested_by, 'friend_request');
+      } else if (row.status === 'accepted' && old.status !== 'accepted') {
+        notifyDemo(row.requested_by, row.user_id_2, 'friend_accept');
+      }
+    },
+    afterDelete: (old) => {
+      if (old.status !== 'pending') return;
+      deleteWhere('notifications', (n) =>
+        n.type === 'friend_request' && n.user_id === old.user_id_2 && n.actor_id === old.requested_by
+      );
+    },
+  },
+  stories: {
+    // The audience column default
+    afterInsert: (row) => {
+      if (!row.audience) row.audience = 'everyone';
+    },
+    // Highlights keep the story only until it's deleted
+    afterDelete: (old) => {
+      deleteWhere('story_highlight_items', (i) => i.story_id === old.id);
+    },
+  },
+  story_highlights: {
+    afterDelete: (old) => {
+      deleteWhere('story_highlight_items', (i) => i.highlight_id === old.id);
+    },
+  },
+  story_views: {
+    // The viewed_at column default, then notify_story_view
+    afterInsert: (row) => {
+      if (!row.viewed_at) row.viewed_at = new Date().toISOString();
+      const owner = getStore('stories').find((s) => s.id === row.story_id)?.user_id;
+      notifyDemo(owner, row.user_id, 'story_view', { story_id: row.story_id });
+    },
+  },
+  story_replies: {
+    // The is_reaction column default, then notify_story_reply
+    afterInsert: (row) => {
+      if (row.is_reaction === undefined) row.is_reaction = false;
+      const owner = getStore('stories').find((s) => s.id === row.story_id)?.user_id;
+      notifyDemo(owner, row.user_id, 'story_reply', { story_id: row.story_id });
+    },
+  },
+  messages: {
+    // touch_conversation_on_message
+    afterInsert: (row) => {
+      const conversation = getStore('conversations').find((c) => c.id === row.conversation_id);
+      if (conversation) conversation.updated_at = row.created_at;
+      const sender = getStore('conversation_participants').find((p) =>
+        p.conversation_id === row.conversation_id && p.user_id === row.sender_id
+      );
+      if (sender) sender.last_read_at = row.created_at;
+    },
+  },
+  posts: {
+    // The visibility column default, then sync_post_tags
+    afterInsert: (row) => {
+      if (!row.visibility) row.visibility = 'public';
+      syncDemoTags(row);
+      syncDemoMentions(row.id, null, row.user_id, row.content);
+    },
+    // record_post_revision, and sync_post_tags on content changes
+    beforeUpdate: (row, old) => {
+      if (row.content !== old.content) {
+        syncDemoTags(row);
+        syncDemoMentions(row.id, null, row.user_id, row.content);
+      }
+      if (row.content === old.content && row.image_url === old.image_url) return;
+      mutateStore('post_revisions').push({
+        id: newDemoId('post_revisions'),
+        post_id: old.id,
+        content: old.content,
+        image_url: old.image_url,
+        created_at: old.updated_at || old.created_at,
+      });
+      row.updated_at = new Date().toISOString();
+    },
+    // ON DELETE CASCADE from post_hashtags.post_id and mentions.post_id
+    afterDelete: (old) => {
+      deleteWhere('post_hashtags', (ph) => ph.post_id === old.id);
+      deleteWhere('mentions', (m) => m.post_id === old.id);
+      deleteWhere('post_audience_members', (m) => m.post_id === old.id);
+    },
+  },
+  comments: {
+    // notify_comment
+    afterInsert: (row) => {
+      const author = postAuthor(row.post_id);
+      notifyDemo(author, row.user_id, 'comment', { post_id: row.post_id, comment_id: row.id });
+      const parentAuthor = getStore('comments').find((c) => c.id === row.parent_id)?.user_id;
+      if (parentAuthor !== author) {
+        notifyDemo(parentAuthor, row.user_id, 'reply', { post_id: row.post_id, comment_id: row.id });
+      }
+      // sync_comment_mentions
+      syncDemoMentions(row.post_id, row.id, row.user_id, row.content);
+    },
+    // touch_comment_updated_at, and sync_comment_mentions on content changes
+    beforeUpdate: (row, old) => {
+      if (row.content === old.content) return;
+      row.updated_at = new Date().toISOString();
+      syncDemoMentions(row.post_id, row.id, row.user_id, row.content);
+    },
+    // ON DELETE CASCADE from comments.parent_id, comment_likes.comment_id
+    // and mentions.comment_id
+    afterDelete: (old) => {
+      deleteWhere('comment_likes', (l) => l.comment_id === old.id);
+      deleteWhere('comments', (c) => c.parent_id === old.id);
+      deleteWhere('mentions', (m) => m.comment_id === old.id);
+    },
+  },
+};
+
+// The migration indexes posts that already exist the same way
+for (const post of getStore('posts')) demoTriggers.posts.afterInsert!(post);
+
+// ─── Demo realtime ───────────────────────────────────────────────────
+// Channels registered through `supabase.channel()` receive the same
+// postgres_changes payloads Supabase Realtime would send for every write
+// made through the shim.
+
+type DemoListener = {
+  event: string;
+  table: string;
+  filter?: string;
+  callback: (payload: unknown) => void;
+};
+
+type DemoChannel = {
+  topic: string;
+  _listeners: DemoListener[];
+  on(type: string, filter: Omit<DemoListener, 'callback'>, callback: (payload: unknown) => void): DemoChannel;
+  subscribe(callback?: (status: string) => void): DemoChannel;
+  unsubscribe(): Promise<string>;
+};
+
+const _channels = new Set<DemoChannel>();
+
+function emitChange(
+  table: string,
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE',
+  newRow: DemoRow | null,
+  oldRow: DemoRow | null
+) {
+  const payload = {
+    schema: 'public',
+    table,
+    eventType,
+    commit_timestamp: new Date().toISOString(),
+    new: newRow ? { ...newRow } : {},
+    old: oldRow ? { ...oldRow } : {},
+    errors: null,
+  };
+  const row = (newRow || oldRow)!;
+
+  for (const channel of _channels) {
+    for (const listener of channel._listeners) {
+      if (listener.table !== table) continue;
+      if (listener.event !== '*' && listener.event !== eventType) continue;
+      if (listener.filter) {
+        const [col, expr] = listener.filter.split('=');
+        const [op, val] = [expr.slice(0, expr.indexOf('.')), expr.slice(expr.indexOf('.') + 1)];
+        if (!matchesFilter(row, { type: op, col, val })) continue;
+      }
+      setTimeout(() => listener.callback(payload), 0);
+    }
   }
 }
 
-function mutateStore(table: string): any[] {
-  switch (table) {
-    case 'posts': return _posts;
-    case 'stories': return _stories;
-    case 'likes': return _likes;
-    case 'comments': return _comments;
-    case 'follows': return _follows;
-    case 'friendships': return _friendships;
-    case 'story_views': return _storyViews;
-    default: return [];
+// ─── Demo query helpers ──────────────────────────────────────────────
+
+// Compares like Postgres would for the column types we use: numbers as
+// numbers, everything else (uuids, ISO timestamps) as strings.
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const sa = String(a);
+  const sb = String(b);
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+// A filter from the query builder, or a node of a parsed `or()` tree
+type DemoFilter = {
+  type: string;
+  col?: string;
+  val?: unknown;
+  vals?: unknown[];
+  tree?: DemoFilter[];
+};
+
+function matchesFilter(row: DemoRow, f: DemoFilter): boolean {
+  const value = row[f.col!];
+  switch (f.type) {
+    case 'eq': return value === f.val;
+    case 'neq': return value !== f.val;
+    case 'gt': return compareValues(value, f.val) > 0;
+    case 'gte': return compareValues(value, f.val) >= 0;
+    case 'lt': return compareValues(value, f.val) < 0;
+    case 'lte': return compareValues(value, f.val) <= 0;
+    case 'in': return f.vals!.includes(value);
+    case 'is': return (value ?? null) === f.val;
+    case 'or': return f.tree!.some((node) => matchesFilter(row, node));
+    case 'and': return f.tree!.every((node) => matchesFilter(row, node));
+    default: return true;
+  }
+}
+
+// Splits on commas that are not nested inside parentheses or quotes.
+function splitTopLevel(expr: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const ch of expr) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && ch === '(') depth++;
+    else if (!quoted && ch === ')') depth--;
+    if (ch === ',' && depth === 0 && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
   }
+  if (current) parts.push(current);
+  return parts;
+}
+
+// Parses a PostgREST logic tree such as
+// `created_at.lt."2024-01-01",and(created_at.eq."2024-01-01",id.lt.abc)`
+// into filter nodes understood by matchesFilter.
+function parseLogicTree(expr: string): DemoFilter[] {
+  return splitTopLevel(expr).map((part) => {
+    const group = part.match(/^(and|or)\((.*)\)$/);
+    if (group) return { type: group[1], tree: parseLogicTree(group[2]) };
+
+    const [col, op, ...rest] = part.split('.');
+    const raw = rest.join('.');
+    const val = raw.startsWith('"') && raw.endsWith('"') ? raw.slice(1, -1) : raw;
+    if (op === 'in') {
+      return { type: 'in', col, vals: val.replace(/^\(|\)$/g, '').split(',') };
+    }
+    return { type: op, col, val };
+  });
+}
+
+// Resolves `profiles(*)` and `profiles!<table>_<column>_fkey(*)` embeds by
+// joining the in-memory profiles store on the referenced column.
+function embedProfiles(table: string, cols: string | undefined, rows: DemoRow[]): DemoRow[] {
+  const match = cols?.match(/profiles(?:!(\w+))?\(/);
+  if (!match) return rows;
+
+  const fkey = match[1];
+  const column = fkey ? fkey.slice(table.length + 1, -'_fkey'.length) : 'user_id';
+  // Embedded profiles go through the profiles select policy as well
+  return rows.map((row) => ({
+    ...row,
+    profiles: demoPolicies.profiles({ id: row[column] }) ? profileById(row[column]) || row.profiles || null : null,
+  }));
 }
 
 // ─── Demo Supabase shim ──────────────────────────────────────────────
 
+// What an awaited query or write resolves to
+type DemoResult = { data: unknown; error: unknown };
+
 function createDemoShim(): SupabaseClient {
   const authShim = {
     getSession: async () => ({ data: { session: null }, error: null }),
@@ -275,49 +1862,49 @@ function createDemoShim(): SupabaseClient {
   };
 
   function buildQuery(table: string) {
-    return (_cols?: string) => {
+    return (cols?: string) => {
       const chain: any = {
         _table: table,
-        _filters: [] as any[],
-        _order: null as any,
+        _filters: [] as DemoFilter[],
+        _order: [] as { col: string; ascending?: boolean }[],
         _limit: null as number | null,
         _single: false,
         _maybeSingle: false,
-        eq(col: string, val: any) { chain._filters.push({ type: 'eq', col, val }); return chain; },
-        neq(col: string, val: any) { chain._filters.push({ type: 'neq', col, val }); return chain; },
-        gt(col: string, val: any) { chain._filters.push({ type: 'gt', col, val }); return chain; },
-        gte(col: string, val: any) { chain._filters.push({ type: 'gte', col, val }); return chain; },
-        in(col: string, vals: any[]) { chain._filters.push({ type: 'in', col, vals }); return chain; },
-        or(expr: string) { chain._filters.push({ type: 'or', expr }); return chain; },
-        order(col: string, opts?: any) { chain._order = { col, ...opts }; return chain; },
+        eq(col: string, val: unknown) { chain._filters.push({ type: 'eq', col, val }); return chain; },
+        neq(col: string, val: unknown) { chain._filters.push({ type: 'neq', col, val }); return chain; },
+        gt(col: string, val: unknown) { chain._filters.push({ type: 'gt', col, val }); return chain; },
+        gte(col: string, val: unknown) { chain._filters.push({ type: 'gte', col, val }); return chain; },
+        lt(col: string, val: unknown) { chain._filters.push({ type: 'lt', col, val }); return chain; },
+        lte(col: string, val: unknown) { chain._filters.push({ type: 'lte', col, val }); return chain; },
+        in(col: string, vals: unknown[]) { chain._filters.push({ type: 'in', col, vals }); return chain; },
+        is(col: string, val: unknown) { chain._filters.push({ type: 'is', col, val }); return chain; },
+        or(expr: string) { chain._filters.push({ type: 'or', tree: parseLogicTree(expr) }); return chain; },
+        order(col: string, opts?: { ascending?: boolean }) { chain._order.push({ col, ...opts }); return chain; },
         limit(n: number) { chain._limit = n; return chain; },
         maybeSingle() { chain._maybeSingle = true; return chain; },
         single() { chain._single = true; return chain; },
-        then(resolve: any, reject?: any) {
+        then(resolve: (result: DemoResult) => void, reject?: (reason: unknown) => void) {
           try {
-            let data = [...getStore(table)];
+            let data = [...visibleRows(table)];
 
             for (const f of chain._filters) {
-              switch (f.type) {
-                case 'eq': data = data.filter(r => r[f.col] === f.val); break;
-                case 'neq': data = data.filter(r => r[f.col] !== f.val); break;
-                case 'gt': data = data.filter(r => String(r[f.col]) > String(f.val)); break;
-                case 'gte': data = data.filter(r => String(r[f.col]) >= String(f.val)); break;
-                case 'in': data = data.filter(r => f.vals.includes(r[f.col])); break;
-              }
+              data = data.filter(r => matchesFilter(r, f));
             }
 
-            if (chain._order) {
-              const asc = chain._order.ascending !== false;
-              const col = chain._order.col;
+            if (chain._order.length > 0) {
               data.sort((a, b) => {
-                if (a[col] < b[col]) return asc ? -1 : 1;
-                if (a[col] > b[col]) return asc ? 1 : -1;
+                for (const { col, ascending } of chain._order) {
+                  const asc = ascending !== false;
+                  if (a[col] < b[col]) return asc ? -1 : 1;
+                  if (a[col] > b[col]) return asc ? 1 : -1;
+                }
                 return 0;
               });
             }
 
             if (chain._limit) data = data.slice(0, chain._limit);
+            // Fresh objects per query, as over the wire
+            data = embedProfiles(table, cols, data.map((row) => ({ ...row })));
             if (chain._single || chain._maybeSingle) {
               resolve({ data: data[0] || null, error: null });
             } else {
@@ -336,27 +1923,70 @@ function createDemoShim(): SupabaseClient {
 
   return {
     auth: authShim,
+    rpc: (fn: string, params: DemoRow = {}) => {
+      const handler = demoRpcs[fn];
+      if (!handler) {
+        return Promise.resolve({ data: null, error: new Error(`Function ${fn} is not available in demo mode`) });
+      }
+      try {
+        return Promise.resolve({ data: handler(params), error: null });
+      } catch (err) {
+        // Errors, like the PostgrestErrors a real call rejects with
+        return Promise.resolve({ data: null, error: err instanceof Error ? err : new Error(String(err)) });
+      }
+    },
+    channel: (name: string) => {
+      const channel: DemoChannel = {
+        topic: name,
+        _listeners: [],
+        on(type, filter, callback) {
+          if (type === 'postgres_changes') channel._listeners.push({ ...filter, callback });
+          return channel;
+        },
+        subscribe(callback?: (status: string) => void) {
+          _channels.add(channel);
+          callback?.('SUBSCRIBED');
+          return channel;
+        },
+        unsubscribe() {
+          _channels.delete(channel);
+          return Promise.resolve('ok');
+        },
+      };
+      return channel;
+    },
+    removeChannel: (channel: DemoChannel) => {
+      _channels.delete(channel);
+      return Promise.resolve('ok');
+    },
     from: (table: string) => ({
       select: buildQuery(table),
-      insert: (rows: any) => {
+      insert: (rows: DemoRow | DemoRow[]) => {
         const arr = Array.isArray(rows) ? rows : [rows];
         const store = mutateStore(table);
         for (const row of arr) {
-          if (!row.id) row.id = `demo-${table}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+          if (!row.id) row.id = newDemoId(table);
           if (!row.created_at) row.created_at = new Date().toISOString();
           store.push(row);
+          demoTriggers[table]?.afterInsert?.(row);
+          emitChange(table, 'INSERT', row, null);
         }
         return Promise.resolve({ data: arr, error: null });
       },
-      update: (updates: any) => {
+      update: (updates: DemoRow) => {
         const chain: any = {
-          _filters: [] as any[],
-          eq(col: string, val: any) { chain._filters.push({ col, val }); return chain; },
-          then(resolve: any) {
+          _filters: [] as DemoFilter[],
+          eq(col: string, val: unknown) { chain._filters.push({ type: 'eq', col, val }); return chain; },
+          in(col: string, vals: unknown[]) { chain._filters.push({ type: 'in', col, vals }); return chain; },
+          is(col: string, val: unknown) { chain._filters.push({ type: 'is', col, val }); return chain; },
+          then(resolve: (result: DemoResult) => void) {
             const store = mutateStore(table);
             for (const row of store) {
-              if (chain._filters.every((f: any) => row[f.col] === f.val)) {
+              if (chain._filters.every((f: DemoFilter) => matchesFilter(row, f))) {
+                const old = { ...row };
                 Object.assign(row, updates);
+                demoTriggers[table]?.beforeUpdate?.(row, old);
+                emitChange(table, 'UPDATE', row, old);
               }
             }
             resolve({ data: null, error: null });
@@ -367,30 +1997,45 @@ function createDemoShim(): SupabaseClient {
       },
       delete: () => {
         const chain: any = {
-          _filters: [] as any[],
-          eq(col: string, val: any) { chain._filters.push({ col, val }); return chain; },
-          then(resolve: any) {
+          _filters: [] as DemoFilter[],
+          eq(col: string, val: unknown) { chain._filters.push({ type: 'eq', col, val }); return chain; },
+          then(resolve: (result: DemoResult) => void) {
             const store = mutateStore(table);
             const remaining = store.filter(row =>
-              !chain._filters.every((f: any) => row[f.col] === f.val)
+              !chain._filters.every((f: DemoFilter) => matchesFilter(row, f))
             );
-            if (table === 'posts') _posts = remaining;
-            else if (table === 'stories') _stories = remaining;
+            _db[table] = remaining;
+            for (const row of store) {
+              if (remaining.includes(row)) continue;
+              emitChange(table, 'DELETE', null, row);
+              demoTriggers[table]?.afterDelete?.(row);
+            }
             resolve({ data: null, error: null });
           },
           [Symbol.toStringTag]: 'Promise',
         };
         return chain;
       },
-      upsert: (rows: any) => {
+      upsert: (rows: DemoRow | DemoRow[], opts?: { onConflict?: string }) => {
         const arr = Array.isArray(rows) ? rows : [rows];
         const store = mutateStore(table);
+        const conflictCols = (opts?.onConflict || 'id').split(',').map((c) => c.trim());
         for (const row of arr) {
-          const idx = store.findIndex((r: any) =>
-            r.id === row.id || (r.story_id === row.story_id && r.user_id === row.user_id)
+          const idx = store.findIndex((r) =>
+            conflictCols.every((col) => row[col] !== undefined && r[col] === row[col])
           );
-          if (idx >= 0) Object.assign(store[idx], row);
-          else { if (!row.id) row.id = `demo-${table}-${Date.now()}`; store.push(row); }
+          if (idx >= 0) {
+            const old = { ...store[idx] };
+            Object.assign(store[idx], row);
+            demoTriggers[table]?.beforeUpdate?.(store[idx], old);
+            emitChange(table, 'UPDATE', store[idx], old);
+          } else {
+            if (!row.id) row.id = newDemoId(table);
+            if (!row.created_at) row.created_at = new Date().toISOString();
+            store.push(row);
+            demoTriggers[table]?.afterInsert?.(row);
+            emitChange(table, 'INSERT', row, null);
+          }
         }
         return Promise.resolve({ data: arr, error: null });
       },
@@ -0,0 +1,184 @@
+import { useState, useCallback } from 'react';
+import { supabase, isDemoMode } from './supabase';
+
+// Public bucket holding every user upload, laid out as
+// `<user id>/<kind>/<file>` so storage policies can check the first folder.
+export const MEDIA_BUCKET = 'media';
+
+// Where the Vite dev server's demo storage plugin (vite.config.ts) accepts
+// and serves uploads when no Supabase project is configured.
+export const DEMO_STORAGE_PATH = '/__demo-storage';
+
+// Originals larger than this are rejected before resizing.
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+export type UploadKind = 'posts' | 'stories' | 'avatars';
+
+// Longest edges and encoder quality per kind. Stories are portrait
+// full-screen, avatars are only ever shown small.
+const RESIZE_PRESETS: Record<UploadKind, { maxWidth: number; maxHeight: number; quality: number }> = {
+  posts: { maxWidth: 1600, maxHeight: 1600, quality: 0.82 },
+  stories: { maxWidth: 1080, maxHeight: 1920, quality: 0.85 },
+  avatars: { maxWidth: 512, maxHeight: 512, quality: 0.85 },
+};
+
+export function validateImage(file: File) {
+  // SVGs can carry scripts and aren't accepted by the bucket
+  if (!file.type.startsWith('image/') || file.type === 'image/svg+xml') {
+    throw new Error('Only photos and GIFs can be uploaded');
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new Error(`Images must be smaller than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+// Scales an image down to fit its preset and re-encodes it. Transparent
+// formats go to WebP (falling back to PNG where the browser can't encode
+// it), everything else to JPEG. GIFs are left alone so animations survive,
+// as is anything the re-encode would make larger, or that the browser
+// can't decode (uploadImage then checks the bucket will take it).
+export async function resizeImage(file: File, kind: UploadKind): Promise<Blob> {
+  if (file.type === 'image/gif') return file;
+
+  const { maxWidth, maxHeight, quality } = RESIZE_PRESETS[kind];
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    return file;
+  }
+  const scale = Math.min(1, maxWidth / bitmap.width, maxHeight / bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const keepsAlpha = file.type === 'image/png' || file.type === 'image/webp';
+  let blob = await canvasToBlob(canvas, keepsAlpha ? 'image/webp' : 'image/jpeg', quality);
+  if (keepsAlpha && blob?.type !== 'image/webp') {
+    blob = await canvasToBlob(canvas, 'image/png', quality);
+  }
+
+  if (!blob || (scale === 1 && blob.size >= file.size)) return file;
+  return blob;
+}
+
+// The types the bucket accepts (20261019001000_create_media_storage.sql)
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+function uploadPath(userId: string, kind: UploadKind, type: string) {
+  return `${userId}/${kind}/${crypto.randomUUID()}.${EXTENSIONS[type] || 'img'}`;
+}
+
+// supabase-js doesn't report upload progress, so the object is sent with
+// XMLHttpRequest straight to the Storage REST endpoint (or the demo
+// plugin), which does.
+function sendWithProgress(
+  url: string,
+  blob: Blob,
+  headers: Record<string, string>,
+  onProgress?: (percent: number) => void
+) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    for (const [name, value] of Object.entries(headers)) xhr.setRequestHeader(name, value);
+    xhr.setRequestHeader('Content-Type', blob.type);
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(Math.round((e.loaded / e.total) * 100));
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(100);
+        resolve();
+      } else {
+        let message = `Upload failed (${xhr.status})`;
+        try {
+          message = JSON.parse(xhr.responseText).message || message;
+        } catch {
+          // Not JSON; keep the status message
+        }
+        reject(new Error(message));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Upload failed. Check your connection.'));
+    xhr.send(blob);
+  });
+}
+
+// Validates, resizes and uploads an image, returning its public URL.
+export async function uploadImage(
+  file: File,
+  kind: UploadKind,
+  userId: string,
+  onProgress?: (percent: number) => void
+): Promise<string> {
+  validateImage(file);
+  const blob = await resizeImage(file, kind);
+  // e.g. a HEIC photo the browser couldn't convert
+  if (!EXTENSIONS[blob.type]) {
+    throw new Error("This image type isn't supported. Try a JPEG, PNG, WebP or GIF.");
+  }
+  const path = uploadPath(userId, kind, blob.type);
+
+  if (isDemoMode) {
+    const url = `${DEMO_STORAGE_PATH}/${path}`;
+    await sendWithProgress(url, blob, {}, onProgress);
+    return url;
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  await sendWithProgress(
+    `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${MEDIA_BUCKET}/${path}`,
+    blob,
+    {
+      apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      'Cache-Control': 'max-age=31536000',
+    },
+    onProgress
+  );
+
+  return supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+// The first image among pasted or dropped items, if any.
+export function imageFromDataTransfer(data: DataTransfer | null): File | null {
+  if (!data) return null;
+  return Array.from(data.files).find((f) => f.type.startsWith('image/')) || null;
+}
+
+// Upload state for one image field: `progress` is null when idle and
+// 0-100 while a file is being resized and sent.
+export function useImageUpload(kind: UploadKind, userId: string | undefined) {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const upload = useCallback(async (file: File) => {
+    if (!userId) return null;
+    setError('');
+    setProgress(0);
+    try {
+      return await uploadImage(file, kind, userId, setProgress);
+    } catch (err) {
+      console.error('Error uploading image:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload image');
+      return null;
+    } finally {
+      setProgress(null);
+    }
+  }, [kind, userId]);
+
+  return { upload, progress, uploading: progress !== null, error };
+}
@@ -0,0 +1,13 @@
+/*
+  # Feed Keyset Pagination
+
+  ## New Index: `idx_posts_created_at_id`
+  The feed pages through `posts` with a keyset cursor on `(created_at, id)`
+  instead of loading the whole table. The composite index matches that sort
+  order so each page is an index range scan.
+  - Replaces `idx_posts_created_at`, which only covered `created_at`
+*/
+
+CREATE INDEX IF NOT EXISTS idx_posts_created_at_id ON posts(created_at DESC, id DESC);
+
+DROP INDEX IF EXISTS idx_posts_created_at;
@@ -0,0 +1,75 @@
+/*
+  # Aggregated Feed Loading
+
+  ## New Function: `get_feed_page`
+  Returns one page of the feed with everything a post card needs, replacing
+  the per-post likes/comments queries the client used to fire on mount.
+  - Keyset pagination: `p_before_created_at` / `p_before_id` return the page
+    after a cursor, `p_after_created_at` / `p_after_id` return posts newer
+    than the top of the feed
+  - Each row carries the author profile (`profiles`), `like_count`,
+    `liked_by_me`, `comment_count` and the first three comments with their
+    authors (`recent_comments`)
+
+  ## Security
+  - SECURITY INVOKER, so the RLS policies on posts, likes and comments still
+    decide what the caller can see
+*/
+
+CREATE OR REPLACE FUNCTION get_feed_page(
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  profiles jsonb,
+  like_count int,
+  liked_by_me boolean,
+  comment_count int,
+  recent_comments jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.created_at,
+    p.updated_at,
+    to_jsonb(author) AS profiles,
+    (SELECT count(*)::int FROM likes l WHERE l.post_id = p.id) AS like_count,
+    EXISTS (
+      SELECT 1 FROM likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()
+    ) AS liked_by_me,
+    (SELECT count(*)::int FROM comments c WHERE c.post_id = p.id) AS comment_count,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(preview) ORDER BY preview.created_at)
+      FROM (
+        SELECT c.*, to_jsonb(commenter) AS profiles
+        FROM comments c
+        JOIN profiles commenter ON commenter.id = c.user_id
+        WHERE c.post_id = p.id
+        ORDER BY c.created_at
+        LIMIT 3
+      ) preview
+    ), '[]'::jsonb) AS recent_comments
+  FROM posts p
+  JOIN profiles author ON author.id = p.user_id
+  WHERE (p_before_created_at IS NULL OR (p.created_at, p.id) < (p_before_created_at, p_before_id))
+    AND (p_after_created_at IS NULL OR (p.created_at, p.id) > (p_after_created_at, p_after_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_feed_page(timestamptz, uuid, timestamptz, uuid, int) TO authenticated;
@@ -0,0 +1,19 @@
+/*
+  # Realtime Feed Updates
+
+  ## Publication
+  Adds `posts`, `likes`, `comments` and `stories` to the `supabase_realtime`
+  publication so clients can subscribe to inserts, updates and deletes.
+
+  ## Old Rows
+  On tables with row level security, update and delete events only carry
+  the old row's primary key, whatever the replica identity. Clients can't
+  tell which post a deleted like or comment belonged to, so they recount
+  the posts they're showing instead.
+
+  ## Security
+  Realtime applies each table's SELECT policies, so subscribers only receive
+  rows they could already query.
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE posts, likes, comments, stories;
@@ -0,0 +1,65 @@
+/*
+  # Post Editing With History
+
+  ## New Table: `post_revisions`
+  Previous versions of edited posts
+  - `id` (uuid, primary key)
+  - `post_id` (uuid, foreign key) - the edited post
+  - `content` (text) - content of the replaced version
+  - `image_url` (text) - image of the replaced version
+  - `created_at` (timestamptz) - when the replaced version was written
+
+  ## New Trigger: `record_post_revision`
+  Before an update that changes `content` or `image_url`, copies the old
+  version into `post_revisions` and stamps `posts.updated_at`. Clients never
+  write revisions directly.
+
+  ## Security
+  - Revisions are readable by anyone who can read the post itself
+*/
+
+CREATE TABLE IF NOT EXISTS post_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid REFERENCES posts(id) ON DELETE CASCADE NOT NULL,
+  content text NOT NULL,
+  image_url text DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of visible posts"
+  ON post_revisions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM posts
+      WHERE posts.id = post_revisions.post_id
+    )
+  );
+
+CREATE OR REPLACE FUNCTION record_post_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.image_url IS DISTINCT FROM OLD.image_url THEN
+    INSERT INTO post_revisions (post_id, content, image_url, created_at)
+    VALUES (OLD.id, OLD.content, OLD.image_url, OLD.updated_at);
+
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_post_revision
+  BEFORE UPDATE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_post_revision();
+
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post_id ON post_revisions(post_id, created_at DESC);
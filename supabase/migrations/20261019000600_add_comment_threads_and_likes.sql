@@ -0,0 +1,187 @@
+/*
+  # Threaded Comments and Comment Likes
+
+  ## Changed Table: `comments`
+  - `parent_id` (uuid, nullable) - the comment being replied to; top-level
+    comments have none. A composite foreign key on (parent_id, post_id)
+    keeps replies on the same post as their parent, and deleting a comment
+    deletes its replies
+  - `updated_at` (timestamptz) - stamped by `touch_comment_updated_at` when
+    the content is edited
+
+  ## New Table: `comment_likes`
+  Likes on individual comments
+  - `id` (uuid, primary key)
+  - `comment_id` (uuid, foreign key) - liked comment
+  - `user_id` (uuid, foreign key) - user who liked
+  - `created_at` (timestamptz) - like timestamp
+  - Unique constraint on (comment_id, user_id)
+
+  ## Changed Function: `get_feed_page`
+  `recent_comments` previews top-level comments only; `comment_count` still
+  counts replies.
+
+  ## Security
+  - Users can edit the content of their own comments. `protect_comment_columns`
+    keeps a client from moving a comment to another post or thread, or
+    changing who wrote it and when
+  - `comment_likes` policies mirror `likes`: anyone can read, users create
+    and delete only their own
+*/
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS parent_id uuid;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+UPDATE comments SET updated_at = created_at;
+
+ALTER TABLE comments ADD CONSTRAINT comments_id_post_id_key UNIQUE (id, post_id);
+ALTER TABLE comments ADD CONSTRAINT comments_parent_id_fkey
+  FOREIGN KEY (parent_id, post_id) REFERENCES comments(id, post_id) ON DELETE CASCADE;
+
+CREATE POLICY "Users can update own comments"
+  ON comments FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION protect_comment_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.post_id := OLD.post_id;
+    NEW.parent_id := OLD.parent_id;
+    NEW.user_id := OLD.user_id;
+    NEW.created_at := OLD.created_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_comment_columns
+  BEFORE UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_comment_columns();
+
+CREATE OR REPLACE FUNCTION touch_comment_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_comment_updated_at
+  BEFORE UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_comment_updated_at();
+
+-- Comment likes
+CREATE TABLE IF NOT EXISTS comment_likes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id uuid REFERENCES comments(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(comment_id, user_id)
+);
+
+ALTER TABLE comment_likes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view comment likes"
+  ON comment_likes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can create comment likes"
+  ON comment_likes FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own comment likes"
+  ON comment_likes FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Feed preview shows top-level comments only
+CREATE OR REPLACE FUNCTION get_feed_page(
+  p_mode text DEFAULT 'everyone',
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  profiles jsonb,
+  like_count int,
+  liked_by_me boolean,
+  comment_count int,
+  recent_comments jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.created_at,
+    p.updated_at,
+    to_jsonb(author) AS profiles,
+    (SELECT count(*)::int FROM likes l WHERE l.post_id = p.id) AS like_count,
+    EXISTS (
+      SELECT 1 FROM likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()
+    ) AS liked_by_me,
+    (SELECT count(*)::int FROM comments c WHERE c.post_id = p.id) AS comment_count,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(preview) ORDER BY preview.created_at)
+      FROM (
+        SELECT c.*, to_jsonb(commenter) AS profiles
+        FROM comments c
+        JOIN profiles commenter ON commenter.id = c.user_id
+        WHERE c.post_id = p.id AND c.parent_id IS NULL
+        ORDER BY c.created_at
+        LIMIT 3
+      ) preview
+    ), '[]'::jsonb) AS recent_comments
+  FROM posts p
+  JOIN profiles author ON author.id = p.user_id
+  WHERE (
+      p_mode = 'everyone'
+      OR p.user_id = auth.uid()
+      OR (p_mode = 'following' AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = auth.uid() AND f.following_id = p.user_id
+      ))
+      OR (p_mode = 'friends' AND EXISTS (
+        SELECT 1 FROM friendships fr
+        WHERE fr.status = 'accepted'
+        AND (
+          (fr.user_id_1 = auth.uid() AND fr.user_id_2 = p.user_id)
+          OR (fr.user_id_2 = auth.uid() AND fr.user_id_1 = p.user_id)
+        )
+      ))
+    )
+    AND (p_before_created_at IS NULL OR (p.created_at, p.id) < (p_before_created_at, p_before_id))
+    AND (p_after_created_at IS NULL OR (p.created_at, p.id) > (p_after_created_at, p_after_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_comment_likes_comment_id ON comment_likes(comment_id);
+CREATE INDEX IF NOT EXISTS idx_comment_likes_user_id ON comment_likes(user_id);
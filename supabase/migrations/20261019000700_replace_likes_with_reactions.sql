@@ -0,0 +1,165 @@
+/*
+  # Emoji Reactions
+
+  ## New Table: `reactions`
+  Replaces `likes` with a typed reaction per user per post
+  - `id` (uuid, primary key)
+  - `post_id` (uuid, foreign key) - post reacted to
+  - `user_id` (uuid, foreign key) - user who reacted
+  - `type` (text) - one of 'like', 'love', 'laugh', 'wow', 'sad', 'angry';
+    widen `reactions_type_check` (and REACTIONS in src/lib/reactions.ts) to
+    offer more
+  - `created_at` (timestamptz) - reaction timestamp
+  - Unique constraint on (post_id, user_id): reacting again changes the type
+
+  ## Data Migration
+  Every existing `likes` row becomes a 'like' reaction with its original
+  timestamp, then `likes` is dropped.
+
+  ## Changed Function: `get_feed_page`
+  `like_count` / `liked_by_me` are replaced by `reaction_count` (total),
+  `reaction_counts` (object of type -> count) and `my_reaction` (the caller's
+  reaction type, or null).
+
+  ## Security
+  - Anyone can read reactions; users create, change and delete only their own
+  - Published to realtime. Update and delete events only carry the
+    reaction's id, so clients recount the posts they're showing
+*/
+
+CREATE TABLE IF NOT EXISTS reactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid REFERENCES posts(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL DEFAULT 'like',
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(post_id, user_id),
+  CONSTRAINT reactions_type_check CHECK (type IN ('like', 'love', 'laugh', 'wow', 'sad', 'angry'))
+);
+
+ALTER TABLE reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reactions"
+  ON reactions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can create reactions"
+  ON reactions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can change own reactions"
+  ON reactions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reactions"
+  ON reactions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Carry existing likes over
+INSERT INTO reactions (post_id, user_id, type, created_at)
+SELECT post_id, user_id, 'like', created_at
+FROM likes
+ON CONFLICT (post_id, user_id) DO NOTHING;
+
+-- The feed function's return type changes, so it has to be recreated
+DROP FUNCTION IF EXISTS get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int);
+
+DROP TABLE IF EXISTS likes;
+
+CREATE OR REPLACE FUNCTION get_feed_page(
+  p_mode text DEFAULT 'everyone',
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  profiles jsonb,
+  reaction_count int,
+  reaction_counts jsonb,
+  my_reaction text,
+  comment_count int,
+  recent_comments jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.created_at,
+    p.updated_at,
+    to_jsonb(author) AS profiles,
+    (SELECT count(*)::int FROM reactions r WHERE r.post_id = p.id) AS reaction_count,
+    COALESCE((
+      SELECT jsonb_object_agg(type, n)
+      FROM (
+        SELECT r.type, count(*) AS n
+        FROM reactions r
+        WHERE r.post_id = p.id
+        GROUP BY r.type
+      ) per_type
+    ), '{}'::jsonb) AS reaction_counts,
+    (
+      SELECT r.type FROM reactions r
+      WHERE r.post_id = p.id AND r.user_id = auth.uid()
+    ) AS my_reaction,
+    (SELECT count(*)::int FROM comments c WHERE c.post_id = p.id) AS comment_count,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(preview) ORDER BY preview.created_at)
+      FROM (
+        SELECT c.*, to_jsonb(commenter) AS profiles
+        FROM comments c
+        JOIN profiles commenter ON commenter.id = c.user_id
+        WHERE c.post_id = p.id AND c.parent_id IS NULL
+        ORDER BY c.created_at
+        LIMIT 3
+      ) preview
+    ), '[]'::jsonb) AS recent_comments
+  FROM posts p
+  JOIN profiles author ON author.id = p.user_id
+  WHERE (
+      p_mode = 'everyone'
+      OR p.user_id = auth.uid()
+      OR (p_mode = 'following' AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = auth.uid() AND f.following_id = p.user_id
+      ))
+      OR (p_mode = 'friends' AND EXISTS (
+        SELECT 1 FROM friendships fr
+        WHERE fr.status = 'accepted'
+        AND (
+          (fr.user_id_1 = auth.uid() AND fr.user_id_2 = p.user_id)
+          OR (fr.user_id_2 = auth.uid() AND fr.user_id_1 = p.user_id)
+        )
+      ))
+    )
+    AND (p_before_created_at IS NULL OR (p.created_at, p.id) < (p_before_created_at, p_before_id))
+    AND (p_after_created_at IS NULL OR (p.created_at, p.id) > (p_after_created_at, p_after_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int) TO authenticated;
+
+-- Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE reactions;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_reactions_post_id ON reactions(post_id);
+CREATE INDEX IF NOT EXISTS idx_reactions_user_id ON reactions(user_id);
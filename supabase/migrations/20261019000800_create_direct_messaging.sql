@@ -0,0 +1,322 @@
+/*
+  # Direct Messaging
+
+  ## New Table: `conversations`
+  One-to-one or small group conversations
+  - `id` (uuid, primary key)
+  - `title` (text) - optional group name
+  - `is_group` (boolean) - false for one-to-one conversations
+  - `direct_key` (text, unique) - "<smaller id>:<larger id>" for one-to-one
+    conversations, so each pair of friends shares a single conversation
+  - `created_by` (uuid, foreign key) - who started it
+  - `created_at` (timestamptz) - creation time
+  - `updated_at` (timestamptz) - time of the latest message
+
+  ## New Table: `conversation_participants`
+  - `conversation_id` (uuid, foreign key)
+  - `user_id` (uuid, foreign key)
+  - `joined_at` (timestamptz)
+  - `last_read_at` (timestamptz) - messages after this are unread
+  - Primary key on (conversation_id, user_id)
+
+  ## New Table: `messages`
+  - `id` (uuid, primary key)
+  - `conversation_id` (uuid, foreign key)
+  - `sender_id` (uuid, foreign key)
+  - `content` (text)
+  - `created_at` (timestamptz)
+
+  ## New Functions
+  - `is_conversation_participant(conversation_id)` - RLS helper; SECURITY
+    DEFINER so policies on `conversation_participants` can use it without
+    recursing into themselves
+  - `are_friends(a, b)` - whether two users are accepted friends. SECURITY
+    DEFINER because friendships are only visible to the two people in
+    them, and so not callable by clients.
+  - `is_friends_with(other)` - `are_friends` for the caller and `other`,
+    for use in policies
+  - `start_direct_conversation(other_user)` - returns the conversation with
+    a friend, creating it on first use
+  - `create_group_conversation(title, member_ids)` - creates a group of up
+    to 10 people, all of them the caller's friends
+  - `mark_conversation_read(conversation_id)` - moves the caller's
+    `last_read_at` in a conversation to now
+  - `get_inbox()` - the caller's conversations with other participants,
+    latest message and unread count, most recent first
+
+  ## Triggers
+  - `touch_conversation_on_message` - bumps `conversations.updated_at` and
+    marks the conversation read for the sender
+
+  ## Security
+  - Conversations, participants and messages are only visible to
+    participants
+  - Participants can only send messages as themselves
+  - Conversations and memberships are only created or changed through the
+    functions above; creating them requires an accepted friendship
+*/
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text DEFAULT '',
+  is_group boolean DEFAULT false NOT NULL,
+  direct_key text UNIQUE,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (is_group OR direct_key IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS conversation_participants (
+  conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  joined_at timestamptz DEFAULT now(),
+  last_read_at timestamptz DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  sender_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  content text NOT NULL CHECK (length(trim(content)) > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_conversation_participant(p_conversation_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = p_conversation_id
+    AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION are_friends(p_user_a uuid, p_user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM friendships
+    WHERE status = 'accepted'
+    AND (
+      (user_id_1 = p_user_a AND user_id_2 = p_user_b)
+      OR (user_id_1 = p_user_b AND user_id_2 = p_user_a)
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION are_friends(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION is_friends_with(p_other uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT are_friends(auth.uid(), p_other);
+$$;
+
+GRANT EXECUTE ON FUNCTION is_friends_with(uuid) TO authenticated;
+
+CREATE POLICY "Participants can view conversations"
+  ON conversations FOR SELECT
+  TO authenticated
+  USING (is_conversation_participant(id));
+
+CREATE POLICY "Participants can view members"
+  ON conversation_participants FOR SELECT
+  TO authenticated
+  USING (is_conversation_participant(conversation_id));
+
+CREATE POLICY "Participants can view messages"
+  ON messages FOR SELECT
+  TO authenticated
+  USING (is_conversation_participant(conversation_id));
+
+CREATE POLICY "Participants can send messages"
+  ON messages FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = sender_id AND is_conversation_participant(conversation_id));
+
+-- Conversation creation
+CREATE OR REPLACE FUNCTION start_direct_conversation(p_other_user uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key text;
+  v_id uuid;
+BEGIN
+  IF NOT are_friends(auth.uid(), p_other_user) THEN
+    RAISE EXCEPTION 'You can only message friends';
+  END IF;
+
+  v_key := least(auth.uid(), p_other_user)::text || ':' || greatest(auth.uid(), p_other_user)::text;
+
+  SELECT id INTO v_id FROM conversations WHERE direct_key = v_key;
+  IF v_id IS NOT NULL THEN
+    RETURN v_id;
+  END IF;
+
+  INSERT INTO conversations (is_group, direct_key, created_by)
+  VALUES (false, v_key, auth.uid())
+  RETURNING id INTO v_id;
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  VALUES (v_id, auth.uid()), (v_id, p_other_user);
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_group_conversation(p_title text, p_member_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_member uuid;
+BEGIN
+  -- The caller is always added, and repeats only count once
+  p_member_ids := ARRAY(
+    SELECT DISTINCT member FROM unnest(p_member_ids) AS member
+    WHERE member IS NOT NULL AND member <> auth.uid()
+  );
+
+  IF coalesce(array_length(p_member_ids, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'A group needs at least two other members';
+  END IF;
+  IF array_length(p_member_ids, 1) > 9 THEN
+    RAISE EXCEPTION 'Groups are limited to 10 members';
+  END IF;
+
+  FOREACH v_member IN ARRAY p_member_ids LOOP
+    IF NOT are_friends(auth.uid(), v_member) THEN
+      RAISE EXCEPTION 'You can only add friends to a group';
+    END IF;
+  END LOOP;
+
+  INSERT INTO conversations (title, is_group, created_by)
+  VALUES (coalesce(trim(p_title), ''), true, auth.uid())
+  RETURNING id INTO v_id;
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  SELECT v_id, member FROM unnest(array_append(p_member_ids, auth.uid())) AS member;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_conversation_read(p_conversation_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE conversation_participants
+  SET last_read_at = now()
+  WHERE conversation_id = p_conversation_id AND user_id = auth.uid();
+$$;
+
+-- Inbox
+CREATE OR REPLACE FUNCTION get_inbox()
+RETURNS TABLE (
+  id uuid,
+  title text,
+  is_group boolean,
+  created_by uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  participants jsonb,
+  last_message jsonb,
+  unread_count int
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.title,
+    c.is_group,
+    c.created_by,
+    c.created_at,
+    c.updated_at,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(pr) ORDER BY pr.username)
+      FROM conversation_participants cp
+      JOIN profiles pr ON pr.id = cp.user_id
+      WHERE cp.conversation_id = c.id AND cp.user_id <> auth.uid()
+    ), '[]'::jsonb) AS participants,
+    (
+      SELECT to_jsonb(m)
+      FROM messages m
+      WHERE m.conversation_id = c.id
+      ORDER BY m.created_at DESC
+      LIMIT 1
+    ) AS last_message,
+    (
+      SELECT count(*)::int
+      FROM messages m
+      WHERE m.conversation_id = c.id
+      AND m.sender_id <> auth.uid()
+      AND m.created_at > me.last_read_at
+    ) AS unread_count
+  FROM conversations c
+  JOIN conversation_participants me
+    ON me.conversation_id = c.id AND me.user_id = auth.uid()
+  ORDER BY c.updated_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_direct_conversation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_group_conversation(text, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_conversation_read(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_inbox() TO authenticated;
+
+-- Keep conversation ordering and the sender's read marker current
+CREATE OR REPLACE FUNCTION touch_conversation_on_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE conversations SET updated_at = NEW.created_at WHERE id = NEW.conversation_id;
+
+  UPDATE conversation_participants
+  SET last_read_at = NEW.created_at
+  WHERE conversation_id = NEW.conversation_id AND user_id = NEW.sender_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_conversation_on_message
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_conversation_on_message();
+
+-- Realtime delivery
+ALTER PUBLICATION supabase_realtime ADD TABLE messages, conversations, conversation_participants;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_user_id ON conversation_participants(user_id);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_id ON messages(conversation_id, created_at);
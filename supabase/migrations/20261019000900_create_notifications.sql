@@ -0,0 +1,238 @@
+/*
+  # Notification Center
+
+  ## New Table: `notifications`
+  One row per event that happened to a user's content or account
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, foreign key) - recipient
+  - `actor_id` (uuid, foreign key) - user who caused it
+  - `type` (text) - 'reaction', 'comment', 'reply', 'follow',
+    'friend_request', 'friend_accept' or 'story_view'
+  - `post_id` (uuid, nullable) - post reacted to or commented on
+  - `comment_id` (uuid, nullable) - the new comment or reply
+  - `story_id` (uuid, nullable) - story viewed
+  - `reaction_type` (text, nullable) - for 'reaction', the current type
+  - `read_at` (timestamptz, nullable) - null while unread
+  - `created_at` (timestamptz) - event time
+
+  ## Triggers
+  Notifications are only written by these SECURITY DEFINER triggers, never
+  by clients, and never for a user's own actions:
+  - `reactions` (which replaced `likes`): insert notifies the post author,
+    a type change updates `reaction_type`, removal deletes the notification
+  - `comments`: notifies the post author, and for replies the author of the
+    parent comment
+  - `follows`: notifies the followed user; unfollowing deletes it
+  - `friendships`: a new request notifies the recipient, acceptance notifies
+    the requester
+  - `story_views`: notifies the story owner on the first view
+
+  Deleting the post, comment or story removes its notifications by cascade.
+
+  ## Security
+  - Users can only see, mark read and delete their own notifications
+  - Views can only be recorded for stories the viewer can see, which keeps
+    'story_view' notifications honest
+  - Published to realtime so the bell updates live
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  actor_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL,
+  post_id uuid REFERENCES posts(id) ON DELETE CASCADE,
+  comment_id uuid REFERENCES comments(id) ON DELETE CASCADE,
+  story_id uuid REFERENCES stories(id) ON DELETE CASCADE,
+  reaction_type text,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT notifications_type_check CHECK (
+    type IN ('reaction', 'comment', 'reply', 'follow', 'friend_request', 'friend_accept', 'story_view')
+  )
+);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark own notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Shared insert that skips self-notifications
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id uuid,
+  p_actor_id uuid,
+  p_type text,
+  p_post_id uuid DEFAULT NULL,
+  p_comment_id uuid DEFAULT NULL,
+  p_story_id uuid DEFAULT NULL,
+  p_reaction_type text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (user_id, actor_id, type, post_id, comment_id, story_id, reaction_type)
+  SELECT p_user_id, p_actor_id, p_type, p_post_id, p_comment_id, p_story_id, p_reaction_type
+  WHERE p_user_id IS NOT NULL AND p_user_id <> p_actor_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_notification(uuid, uuid, text, uuid, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Reactions
+CREATE OR REPLACE FUNCTION notify_reaction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM create_notification(
+      (SELECT user_id FROM posts WHERE id = NEW.post_id),
+      NEW.user_id, 'reaction', NEW.post_id, NULL, NULL, NEW.type
+    );
+  ELSIF TG_OP = 'UPDATE' THEN
+    UPDATE notifications SET reaction_type = NEW.type
+    WHERE type = 'reaction' AND post_id = NEW.post_id AND actor_id = NEW.user_id;
+  ELSE
+    DELETE FROM notifications
+    WHERE type = 'reaction' AND post_id = OLD.post_id AND actor_id = OLD.user_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_reaction
+  AFTER INSERT OR UPDATE OF type OR DELETE ON reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_reaction();
+
+-- Comments and replies
+CREATE OR REPLACE FUNCTION notify_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post_author uuid;
+  v_parent_author uuid;
+BEGIN
+  SELECT user_id INTO v_post_author FROM posts WHERE id = NEW.post_id;
+  PERFORM create_notification(v_post_author, NEW.user_id, 'comment', NEW.post_id, NEW.id);
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO v_parent_author FROM comments WHERE id = NEW.parent_id;
+    -- The post author already heard about it as a comment
+    IF v_parent_author IS DISTINCT FROM v_post_author THEN
+      PERFORM create_notification(v_parent_author, NEW.user_id, 'reply', NEW.post_id, NEW.id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_comment
+  AFTER INSERT ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_comment();
+
+-- Follows
+CREATE OR REPLACE FUNCTION notify_follow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM create_notification(NEW.following_id, NEW.follower_id, 'follow');
+  ELSE
+    DELETE FROM notifications
+    WHERE type = 'follow' AND user_id = OLD.following_id AND actor_id = OLD.follower_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_follow
+  AFTER INSERT OR DELETE ON follows
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_follow();
+
+-- Friend requests and acceptances
+CREATE OR REPLACE FUNCTION notify_friendship()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_other uuid;
+BEGIN
+  v_other := CASE WHEN NEW.user_id_1 = NEW.requested_by THEN NEW.user_id_2 ELSE NEW.user_id_1 END;
+
+  IF TG_OP = 'INSERT' AND NEW.status = 'pending' THEN
+    PERFORM create_notification(v_other, NEW.requested_by, 'friend_request');
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'accepted' AND OLD.status <> 'accepted' THEN
+    PERFORM create_notification(NEW.requested_by, v_other, 'friend_accept');
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_friendship
+  AFTER INSERT OR UPDATE OF status ON friendships
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_friendship();
+
+-- Story views. Only a story the viewer can see can be recorded as viewed,
+-- or anyone could send its owner a notification for any story id.
+DROP POLICY IF EXISTS "Users can record story views" ON story_views;
+
+CREATE POLICY "Users can record story views"
+  ON story_views FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND EXISTS (SELECT 1 FROM stories WHERE stories.id = story_id));
+
+CREATE OR REPLACE FUNCTION notify_story_view()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM create_notification(
+    (SELECT user_id FROM stories WHERE id = NEW.story_id),
+    NEW.user_id, 'story_view', NULL, NULL, NEW.story_id
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_story_view
+  AFTER INSERT ON story_views
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_story_view();
+
+-- Realtime delivery
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
@@ -0,0 +1,59 @@
+/*
+  # Media Storage
+
+  ## New Bucket: `media`
+  Public bucket for images uploaded from the app (post images, story
+  photos and avatars). Objects are stored as
+  `<user id>/<posts|stories|avatars>/<random uuid>.<ext>`; the client resizes
+  and re-encodes images before uploading, so the size limit only has to
+  stop abuse.
+  - Public: objects are served from the public URL without a token
+  - 10 MB per object, image MIME types only
+
+  ## Security (storage.objects)
+  - Anyone can read objects in `media`
+  - Authenticated users can upload, replace and delete only objects whose
+    first path segment is their own user id
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'media',
+  'media',
+  true,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view media"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'media');
+
+CREATE POLICY "Users can upload own media"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'media'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update own media"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'media'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  )
+  WITH CHECK (
+    bucket_id = 'media'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own media"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'media'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,62 @@
+/*
+  # Profile Validation
+
+  ## Changes to `profiles`
+  - Usernames are unique ignoring case (`idx_profiles_username_lower`), so
+    "alice" can't be registered next to "Alice". Creating the index fails if
+    existing usernames already collide; rename those first.
+  - `profiles_username_check`: 3-30 letters, digits or underscores
+  - `profiles_full_name_check`: at most 80 characters
+  - `profiles_bio_check`: at most 160 characters
+  Limits are mirrored in src/lib/profiles.ts.
+
+  ## Existing Rows
+  Rows that break the new checks are fixed up first, so the checks can be
+  validated and every profile can still be updated afterwards:
+  - Usernames get invalid characters replaced with underscores and a suffix
+    from the profile id, which keeps them unique and long enough
+  - Overlong full names and bios are cut to the limit
+
+  ## New Function: `is_username_available(username)`
+  True when no other profile uses the name (case-insensitively). The
+  caller's own current name counts as available, so re-saving or changing
+  only its case passes.
+*/
+
+UPDATE profiles
+SET username = left(regexp_replace(username, '[^A-Za-z0-9_]', '_', 'g'), 21)
+  || '_' || left(replace(id::text, '-', ''), 8)
+WHERE username !~ '^[A-Za-z0-9_]{3,30}$';
+
+UPDATE profiles SET full_name = left(full_name, 80) WHERE char_length(full_name) > 80;
+
+UPDATE profiles SET bio = left(bio, 160) WHERE char_length(bio) > 160;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_username_lower ON profiles (lower(username));
+
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_username_check
+  CHECK (username ~ '^[A-Za-z0-9_]{3,30}$');
+
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_full_name_check
+  CHECK (char_length(full_name) <= 80);
+
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_bio_check
+  CHECK (char_length(bio) <= 160);
+
+CREATE OR REPLACE FUNCTION is_username_available(p_username text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE lower(username) = lower(p_username)
+    AND id IS DISTINCT FROM auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_username_available(text) TO anon, authenticated;
@@ -0,0 +1,156 @@
+/*
+  # Public Profile Pages
+
+  ## Changed Function: `get_feed_page`
+  New trailing `p_author_id` parameter. When set, only that user's posts are
+  returned (pass `p_mode` 'everyone'); this is the profile timeline.
+
+  ## New Functions
+  - `get_profile_stats(user_id)` - post, follower, following and friend
+    counts for any user. SECURITY DEFINER because friendships are only
+    visible to the two people in them.
+  - `get_mutual_friends(user_id)` - profiles who are friends with both the
+    caller and `user_id`, by username. Also SECURITY DEFINER, and only ever
+    reveals the caller's own friends.
+*/
+
+DROP FUNCTION IF EXISTS get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int);
+
+CREATE OR REPLACE FUNCTION get_feed_page(
+  p_mode text DEFAULT 'everyone',
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 10,
+  p_author_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  profiles jsonb,
+  reaction_count int,
+  reaction_counts jsonb,
+  my_reaction text,
+  comment_count int,
+  recent_comments jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.created_at,
+    p.updated_at,
+    to_jsonb(author) AS profiles,
+    (SELECT count(*)::int FROM reactions r WHERE r.post_id = p.id) AS reaction_count,
+    COALESCE((
+      SELECT jsonb_object_agg(type, n)
+      FROM (
+        SELECT r.type, count(*) AS n
+        FROM reactions r
+        WHERE r.post_id = p.id
+        GROUP BY r.type
+      ) per_type
+    ), '{}'::jsonb) AS reaction_counts,
+    (
+      SELECT r.type FROM reactions r
+      WHERE r.post_id = p.id AND r.user_id = auth.uid()
+    ) AS my_reaction,
+    (SELECT count(*)::int FROM comments c WHERE c.post_id = p.id) AS comment_count,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(preview) ORDER BY preview.created_at)
+      FROM (
+        SELECT c.*, to_jsonb(commenter) AS profiles
+        FROM comments c
+        JOIN profiles commenter ON commenter.id = c.user_id
+        WHERE c.post_id = p.id AND c.parent_id IS NULL
+        ORDER BY c.created_at
+        LIMIT 3
+      ) preview
+    ), '[]'::jsonb) AS recent_comments
+  FROM posts p
+  JOIN profiles author ON author.id = p.user_id
+  WHERE (
+      p_mode = 'everyone'
+      OR p.user_id = auth.uid()
+      OR (p_mode = 'following' AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = auth.uid() AND f.following_id = p.user_id
+      ))
+      OR (p_mode = 'friends' AND EXISTS (
+        SELECT 1 FROM friendships fr
+        WHERE fr.status = 'accepted'
+        AND (
+          (fr.user_id_1 = auth.uid() AND fr.user_id_2 = p.user_id)
+          OR (fr.user_id_2 = auth.uid() AND fr.user_id_1 = p.user_id)
+        )
+      ))
+    )
+    AND (p_author_id IS NULL OR p.user_id = p_author_id)
+    AND (p_before_created_at IS NULL OR (p.created_at, p.id) < (p_before_created_at, p_before_id))
+    AND (p_after_created_at IS NULL OR (p.created_at, p.id) > (p_after_created_at, p_after_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int, uuid) TO authenticated;
+
+-- Profile header counts
+CREATE OR REPLACE FUNCTION get_profile_stats(p_user_id uuid)
+RETURNS TABLE (
+  post_count int,
+  follower_count int,
+  following_count int,
+  friend_count int
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT count(*)::int FROM posts WHERE user_id = p_user_id),
+    (SELECT count(*)::int FROM follows WHERE following_id = p_user_id),
+    (SELECT count(*)::int FROM follows WHERE follower_id = p_user_id),
+    (
+      SELECT count(*)::int FROM friendships
+      WHERE status = 'accepted'
+      AND (user_id_1 = p_user_id OR user_id_2 = p_user_id)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION get_mutual_friends(p_user_id uuid)
+RETURNS SETOF profiles
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH my_friends AS (
+    SELECT CASE WHEN user_id_1 = auth.uid() THEN user_id_2 ELSE user_id_1 END AS id
+    FROM friendships
+    WHERE status = 'accepted' AND (user_id_1 = auth.uid() OR user_id_2 = auth.uid())
+  ),
+  their_friends AS (
+    SELECT CASE WHEN user_id_1 = p_user_id THEN user_id_2 ELSE user_id_1 END AS id
+    FROM friendships
+    WHERE status = 'accepted' AND (user_id_1 = p_user_id OR user_id_2 = p_user_id)
+  )
+  SELECT pr.*
+  FROM profiles pr
+  WHERE pr.id IN (SELECT id FROM my_friends)
+  AND pr.id IN (SELECT id FROM their_friends)
+  ORDER BY pr.username;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_profile_stats(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mutual_friends(uuid) TO authenticated;
@@ -0,0 +1,100 @@
+/*
+  # Single Post Lookup
+
+  ## Changed Function: `get_feed_page`
+  New trailing `p_post_id` parameter. When set, only that post is returned
+  (pass `p_mode` 'everyone'), with the same aggregates as a feed row, so a
+  linked post renders exactly like it does in the feed.
+*/
+
+DROP FUNCTION IF EXISTS get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int, uuid);
+
+CREATE OR REPLACE FUNCTION get_feed_page(
+  p_mode text DEFAULT 'everyone',
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 10,
+  p_author_id uuid DEFAULT NULL,
+  p_post_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  profiles jsonb,
+  reaction_count int,
+  reaction_counts jsonb,
+  my_reaction text,
+  comment_count int,
+  recent_comments jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.created_at,
+    p.updated_at,
+    to_jsonb(author) AS profiles,
+    (SELECT count(*)::int FROM reactions r WHERE r.post_id = p.id) AS reaction_count,
+    COALESCE((
+      SELECT jsonb_object_agg(type, n)
+      FROM (
+        SELECT r.type, count(*) AS n
+        FROM reactions r
+        WHERE r.post_id = p.id
+        GROUP BY r.type
+      ) per_type
+    ), '{}'::jsonb) AS reaction_counts,
+    (
+      SELECT r.type FROM reactions r
+      WHERE r.post_id = p.id AND r.user_id = auth.uid()
+    ) AS my_reaction,
+    (SELECT count(*)::int FROM comments c WHERE c.post_id = p.id) AS comment_count,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(preview) ORDER BY preview.created_at)
+      FROM (
+        SELECT c.*, to_jsonb(commenter) AS profiles
+        FROM comments c
+        JOIN profiles commenter ON commenter.id = c.user_id
+        WHERE c.post_id = p.id AND c.parent_id IS NULL
+        ORDER BY c.created_at
+        LIMIT 3
+      ) preview
+    ), '[]'::jsonb) AS recent_comments
+  FROM posts p
+  JOIN profiles author ON author.id = p.user_id
+  WHERE (
+      p_mode = 'everyone'
+      OR p.user_id = auth.uid()
+      OR (p_mode = 'following' AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = auth.uid() AND f.following_id = p.user_id
+      ))
+      OR (p_mode = 'friends' AND EXISTS (
+        SELECT 1 FROM friendships fr
+        WHERE fr.status = 'accepted'
+        AND (
+          (fr.user_id_1 = auth.uid() AND fr.user_id_2 = p.user_id)
+          OR (fr.user_id_2 = auth.uid() AND fr.user_id_1 = p.user_id)
+        )
+      ))
+    )
+    AND (p_author_id IS NULL OR p.user_id = p_author_id)
+    AND (p_post_id IS NULL OR p.id = p_post_id)
+    AND (p_before_created_at IS NULL OR (p.created_at, p.id) < (p_before_created_at, p_before_id))
+    AND (p_after_created_at IS NULL OR (p.created_at, p.id) > (p_after_created_at, p_after_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int, uuid, uuid) TO authenticated;
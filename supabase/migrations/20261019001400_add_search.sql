@@ -0,0 +1,172 @@
+/*
+  # Search
+
+  Full-text and substring search over people and posts.
+
+  ## Indexes
+  - Trigram (`pg_trgm`) GIN indexes on `profiles.username` and
+    `profiles.full_name`, for fast substring matches while typing.
+  - Full-text GIN indexes on `profiles.bio` ('simple' config, no stemming)
+    and `posts.content` ('english' config), plus a trigram index on
+    `posts.content` for partial words.
+
+  These are expression indexes rather than stored tsvector columns, so rows
+  returned by `select('*')` are unchanged. Queries below must use the same
+  expressions to hit them.
+
+  ## New Functions
+  - `like_pattern(text)` - wraps text in `%...%` with LIKE wildcards
+    escaped, so user input only ever matches literally.
+  - `search_profiles(query, limit)` - people whose username or name contains
+    the query, or whose bio matches it as words. Exact and prefix username
+    matches rank first, then by trigram similarity.
+
+  ## Changed Function: `get_feed_page`
+  New trailing `p_query` parameter. When set, only posts whose content
+  matches it (as words, or as a substring) are returned, newest first, so
+  post results page and render exactly like the feed.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS profiles_username_trgm_idx
+  ON profiles USING gin (username extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS profiles_full_name_trgm_idx
+  ON profiles USING gin (full_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS profiles_bio_fts_idx
+  ON profiles USING gin (to_tsvector('simple', COALESCE(bio, '')));
+
+CREATE INDEX IF NOT EXISTS posts_content_fts_idx
+  ON posts USING gin (to_tsvector('english', content));
+CREATE INDEX IF NOT EXISTS posts_content_trgm_idx
+  ON posts USING gin (content extensions.gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION like_pattern(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '%' || replace(replace(replace(p_text, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+$$;
+
+CREATE OR REPLACE FUNCTION search_profiles(p_query text, p_limit int DEFAULT 20)
+RETURNS SETOF profiles
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT pr.*
+  FROM profiles pr
+  WHERE length(trim(p_query)) > 0
+  AND (
+    pr.username ILIKE like_pattern(trim(p_query))
+    OR pr.full_name ILIKE like_pattern(trim(p_query))
+    OR to_tsvector('simple', COALESCE(pr.bio, '')) @@ websearch_to_tsquery('simple', p_query)
+  )
+  ORDER BY
+    lower(pr.username) = lower(trim(p_query)) DESC,
+    starts_with(lower(pr.username), lower(trim(p_query))) DESC,
+    greatest(similarity(pr.username, p_query), similarity(COALESCE(pr.full_name, ''), p_query)) DESC,
+    pr.username
+  LIMIT least(p_limit, 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_profiles(text, int) TO authenticated;
+
+DROP FUNCTION IF EXISTS get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION get_feed_page(
+  p_mode text DEFAULT 'everyone',
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 10,
+  p_author_id uuid DEFAULT NULL,
+  p_post_id uuid DEFAULT NULL,
+  p_query text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  profiles jsonb,
+  reaction_count int,
+  reaction_counts jsonb,
+  my_reaction text,
+  comment_count int,
+  recent_comments jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.created_at,
+    p.updated_at,
+    to_jsonb(author) AS profiles,
+    (SELECT count(*)::int FROM reactions r WHERE r.post_id = p.id) AS reaction_count,
+    COALESCE((
+      SELECT jsonb_object_agg(type, n)
+      FROM (
+        SELECT r.type, count(*) AS n
+        FROM reactions r
+        WHERE r.post_id = p.id
+        GROUP BY r.type
+      ) per_type
+    ), '{}'::jsonb) AS reaction_counts,
+    (
+      SELECT r.type FROM reactions r
+      WHERE r.post_id = p.id AND r.user_id = auth.uid()
+    ) AS my_reaction,
+    (SELECT count(*)::int FROM comments c WHERE c.post_id = p.id) AS comment_count,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(preview) ORDER BY preview.created_at)
+      FROM (
+        SELECT c.*, to_jsonb(commenter) AS profiles
+        FROM comments c
+        JOIN profiles commenter ON commenter.id = c.user_id
+        WHERE c.post_id = p.id AND c.parent_id IS NULL
+        ORDER BY c.created_at
+        LIMIT 3
+      ) preview
+    ), '[]'::jsonb) AS recent_comments
+  FROM posts p
+  JOIN profiles author ON author.id = p.user_id
+  WHERE (
+      p_mode = 'everyone'
+      OR p.user_id = auth.uid()
+      OR (p_mode = 'following' AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = auth.uid() AND f.following_id = p.user_id
+      ))
+      OR (p_mode = 'friends' AND EXISTS (
+        SELECT 1 FROM friendships fr
+        WHERE fr.status = 'accepted'
+        AND (
+          (fr.user_id_1 = auth.uid() AND fr.user_id_2 = p.user_id)
+          OR (fr.user_id_2 = auth.uid() AND fr.user_id_1 = p.user_id)
+        )
+      ))
+    )
+    AND (p_author_id IS NULL OR p.user_id = p_author_id)
+    AND (p_post_id IS NULL OR p.id = p_post_id)
+    AND (
+      p_query IS NULL
+      OR to_tsvector('english', p.content) @@ websearch_to_tsquery('english', p_query)
+      OR p.content ILIKE like_pattern(trim(p_query))
+    )
+    AND (p_before_created_at IS NULL OR (p.created_at, p.id) < (p_before_created_at, p_before_id))
+    AND (p_after_created_at IS NULL OR (p.created_at, p.id) > (p_after_created_at, p_after_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int, uuid, uuid, text) TO authenticated;
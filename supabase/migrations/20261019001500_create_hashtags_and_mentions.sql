@@ -0,0 +1,304 @@
+/*
+  # Hashtags and Mentions
+
+  `#tags` and `@username` mentions are parsed out of post and comment text
+  by triggers whenever it's written, so the client never maintains these
+  tables. The patterns match `src/lib/richText.ts`: a tag or mention must
+  start the text or follow a character that isn't a letter, digit or `_`
+  (so e-mail addresses aren't mentions).
+
+  ## New Tables
+  - `hashtags` - one row per distinct tag, stored lowercase
+  - `post_hashtags` - which posts use which tags
+    - `post_id`, `hashtag_id` (composite primary key)
+  - `mentions` - users mentioned in a post or comment
+    - `id` (uuid, primary key)
+    - `post_id` (uuid) - the post, or the post the comment is on
+    - `comment_id` (uuid, nullable) - set for mentions in comments
+    - `mentioned_user_id` (uuid) - who was mentioned
+    - `author_id` (uuid) - who wrote the text
+    - `created_at` (timestamptz)
+
+  Mentions only resolve to existing usernames (case-insensitively). Editing
+  a post or comment re-syncs its tags and mentions; deleting it removes
+  them by cascade.
+
+  ## New Functions
+  - `extract_hashtags(text)` / `extract_mentions(text)` - distinct
+    lowercase tags / usernames in a piece of text
+  - `get_trending_hashtags(hours, limit)` - tags used on the most posts
+    created in the last `hours`
+
+  ## Changed Function: `get_feed_page`
+  New trailing `p_hashtag` parameter. When set, only posts tagged with it
+  are returned; this is the tag feed.
+
+  ## Security
+  - All three tables are readable by authenticated users
+  - No write policies: only the SECURITY DEFINER triggers write them
+*/
+
+CREATE TABLE IF NOT EXISTS hashtags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tag text UNIQUE NOT NULL CHECK (tag = lower(tag)),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS post_hashtags (
+  post_id uuid REFERENCES posts(id) ON DELETE CASCADE NOT NULL,
+  hashtag_id uuid REFERENCES hashtags(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (post_id, hashtag_id)
+);
+
+CREATE INDEX IF NOT EXISTS post_hashtags_hashtag_id_idx ON post_hashtags (hashtag_id);
+
+CREATE TABLE IF NOT EXISTS mentions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid REFERENCES posts(id) ON DELETE CASCADE NOT NULL,
+  comment_id uuid REFERENCES comments(id) ON DELETE CASCADE,
+  mentioned_user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  author_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS mentions_mentioned_user_id_idx ON mentions (mentioned_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS mentions_post_id_idx ON mentions (post_id);
+
+ALTER TABLE hashtags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE post_hashtags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Hashtags are viewable by authenticated users"
+  ON hashtags FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Post hashtags are viewable by authenticated users"
+  ON post_hashtags FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Mentions are viewable by authenticated users"
+  ON mentions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION extract_hashtags(p_text text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[2])), '{}')
+  FROM regexp_matches(p_text, '(^|[^A-Za-z0-9_])#([A-Za-z0-9_]{1,50})', 'g') AS m;
+$$;
+
+CREATE OR REPLACE FUNCTION extract_mentions(p_text text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[2])), '{}')
+  FROM regexp_matches(p_text, '(^|[^A-Za-z0-9_])@([A-Za-z0-9_]{3,30})', 'g') AS m;
+$$;
+
+-- Posts: tags and mentions
+CREATE OR REPLACE FUNCTION sync_post_tags()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tags text[] := extract_hashtags(NEW.content);
+BEGIN
+  DELETE FROM post_hashtags WHERE post_id = NEW.id;
+
+  INSERT INTO hashtags (tag)
+  SELECT unnest(v_tags)
+  ON CONFLICT (tag) DO NOTHING;
+
+  INSERT INTO post_hashtags (post_id, hashtag_id)
+  SELECT NEW.id, h.id FROM hashtags h WHERE h.tag = ANY (v_tags);
+
+  DELETE FROM mentions WHERE post_id = NEW.id AND comment_id IS NULL;
+
+  INSERT INTO mentions (post_id, mentioned_user_id, author_id)
+  SELECT NEW.id, pr.id, NEW.user_id
+  FROM profiles pr
+  WHERE lower(pr.username) = ANY (extract_mentions(NEW.content));
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_post_tags
+  AFTER INSERT OR UPDATE OF content ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_post_tags();
+
+-- Comments: mentions only
+CREATE OR REPLACE FUNCTION sync_comment_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM mentions WHERE comment_id = NEW.id;
+
+  INSERT INTO mentions (post_id, comment_id, mentioned_user_id, author_id)
+  SELECT NEW.post_id, NEW.id, pr.id, NEW.user_id
+  FROM profiles pr
+  WHERE lower(pr.username) = ANY (extract_mentions(NEW.content));
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_comment_mentions
+  AFTER INSERT OR UPDATE OF content ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_comment_mentions();
+
+-- Index the posts that existed before this migration
+INSERT INTO hashtags (tag)
+SELECT DISTINCT unnest(extract_hashtags(content)) FROM posts
+ON CONFLICT (tag) DO NOTHING;
+
+INSERT INTO post_hashtags (post_id, hashtag_id)
+SELECT p.id, h.id
+FROM posts p
+JOIN hashtags h ON h.tag = ANY (extract_hashtags(p.content))
+ON CONFLICT DO NOTHING;
+
+INSERT INTO mentions (post_id, mentioned_user_id, author_id, created_at)
+SELECT p.id, pr.id, p.user_id, p.created_at
+FROM posts p
+JOIN profiles pr ON lower(pr.username) = ANY (extract_mentions(p.content));
+
+INSERT INTO mentions (post_id, comment_id, mentioned_user_id, author_id, created_at)
+SELECT c.post_id, c.id, pr.id, c.user_id, c.created_at
+FROM comments c
+JOIN profiles pr ON lower(pr.username) = ANY (extract_mentions(c.content));
+
+CREATE OR REPLACE FUNCTION get_trending_hashtags(p_hours int DEFAULT 24, p_limit int DEFAULT 10)
+RETURNS TABLE (tag text, post_count int)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT h.tag, count(*)::int AS post_count
+  FROM post_hashtags ph
+  JOIN hashtags h ON h.id = ph.hashtag_id
+  JOIN posts p ON p.id = ph.post_id
+  WHERE p.created_at > now() - make_interval(hours => p_hours)
+  GROUP BY h.tag
+  ORDER BY count(*) DESC, max(p.created_at) DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_trending_hashtags(int, int) TO authenticated;
+
+DROP FUNCTION IF EXISTS get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int, uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION get_feed_page(
+  p_mode text DEFAULT 'everyone',
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 10,
+  p_author_id uuid DEFAULT NULL,
+  p_post_id uuid DEFAULT NULL,
+  p_query text DEFAULT NULL,
+  p_hashtag text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  profiles jsonb,
+  reaction_count int,
+  reaction_counts jsonb,
+  my_reaction text,
+  comment_count int,
+  recent_comments jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.created_at,
+    p.updated_at,
+    to_jsonb(author) AS profiles,
+    (SELECT count(*)::int FROM reactions r WHERE r.post_id = p.id) AS reaction_count,
+    COALESCE((
+      SELECT jsonb_object_agg(type, n)
+      FROM (
+        SELECT r.type, count(*) AS n
+        FROM reactions r
+        WHERE r.post_id = p.id
+        GROUP BY r.type
+      ) per_type
+    ), '{}'::jsonb) AS reaction_counts,
+    (
+      SELECT r.type FROM reactions r
+      WHERE r.post_id = p.id AND r.user_id = auth.uid()
+    ) AS my_reaction,
+    (SELECT count(*)::int FROM comments c WHERE c.post_id = p.id) AS comment_count,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(preview) ORDER BY preview.created_at)
+      FROM (
+        SELECT c.*, to_jsonb(commenter) AS profiles
+        FROM comments c
+        JOIN profiles commenter ON commenter.id = c.user_id
+        WHERE c.post_id = p.id AND c.parent_id IS NULL
+        ORDER BY c.created_at
+        LIMIT 3
+      ) preview
+    ), '[]'::jsonb) AS recent_comments
+  FROM posts p
+  JOIN profiles author ON author.id = p.user_id
+  WHERE (
+      p_mode = 'everyone'
+      OR p.user_id = auth.uid()
+      OR (p_mode = 'following' AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = auth.uid() AND f.following_id = p.user_id
+      ))
+      OR (p_mode = 'friends' AND EXISTS (
+        SELECT 1 FROM friendships fr
+        WHERE fr.status = 'accepted'
+        AND (
+          (fr.user_id_1 = auth.uid() AND fr.user_id_2 = p.user_id)
+          OR (fr.user_id_2 = auth.uid() AND fr.user_id_1 = p.user_id)
+        )
+      ))
+    )
+    AND (p_author_id IS NULL OR p.user_id = p_author_id)
+    AND (p_post_id IS NULL OR p.id = p_post_id)
+    AND (
+      p_query IS NULL
+      OR to_tsvector('english', p.content) @@ websearch_to_tsquery('english', p_query)
+      OR p.content ILIKE like_pattern(trim(p_query))
+    )
+    AND (p_hashtag IS NULL OR EXISTS (
+      SELECT 1 FROM post_hashtags ph
+      JOIN hashtags h ON h.id = ph.hashtag_id
+      WHERE ph.post_id = p.id AND h.tag = lower(p_hashtag)
+    ))
+    AND (p_before_created_at IS NULL OR (p.created_at, p.id) < (p_before_created_at, p_before_id))
+    AND (p_after_created_at IS NULL OR (p.created_at, p.id) > (p_after_created_at, p_after_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int, uuid, uuid, text, text) TO authenticated;
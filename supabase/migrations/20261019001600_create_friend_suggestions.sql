@@ -0,0 +1,139 @@
+/*
+  # Friend Suggestions
+
+  ## New Table: `suggestion_dismissals`
+  People a user never wants suggested again
+  - `user_id` (uuid, foreign key) - who dismissed the suggestion
+  - `dismissed_user_id` (uuid, foreign key) - who was dismissed
+  - `created_at` (timestamptz)
+
+  ## New Function: `get_friend_suggestions(limit)`
+  "People you may know" for the caller. Everyone except the caller, their
+  friends, anyone with a pending request in either direction and anyone
+  dismissed is a candidate, ranked by:
+  - mutual accepted friendships (weight 3)
+  - interactions: reactions and comments either of them left on the
+    other's posts (weight 2)
+  - whether the candidate follows the caller (weight 2)
+  - accounts both of them follow (weight 1)
+  Ties, including candidates with no signal at all, fall back to newest
+  profiles first, so new users still see someone. SECURITY DEFINER because
+  other people's friendships aren't visible to the caller; only counts are
+  returned.
+
+  ## Security
+  - Users can view, add and remove only their own dismissals
+*/
+
+CREATE TABLE IF NOT EXISTS suggestion_dismissals (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  dismissed_user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, dismissed_user_id)
+);
+
+ALTER TABLE suggestion_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own dismissals"
+  ON suggestion_dismissals FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can dismiss suggestions"
+  ON suggestion_dismissals FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can undo own dismissals"
+  ON suggestion_dismissals FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION get_friend_suggestions(p_limit int DEFAULT 20)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  bio text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  mutual_friend_count int,
+  shared_follow_count int,
+  interaction_count int,
+  follows_you boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH friend_edges AS (
+    SELECT user_id_1 AS a, user_id_2 AS b FROM friendships WHERE status = 'accepted'
+    UNION ALL
+    SELECT user_id_2, user_id_1 FROM friendships WHERE status = 'accepted'
+  ),
+  excluded AS (
+    SELECT auth.uid() AS id
+    UNION
+    SELECT CASE WHEN user_id_1 = auth.uid() THEN user_id_2 ELSE user_id_1 END
+    FROM friendships
+    WHERE status IN ('accepted', 'pending')
+    AND (user_id_1 = auth.uid() OR user_id_2 = auth.uid())
+    UNION
+    SELECT dismissed_user_id FROM suggestion_dismissals WHERE user_id = auth.uid()
+  ),
+  mutuals AS (
+    SELECT fe.a AS id, count(*)::int AS n
+    FROM friend_edges fe
+    WHERE fe.b IN (SELECT b FROM friend_edges WHERE a = auth.uid())
+    GROUP BY fe.a
+  ),
+  shared_follows AS (
+    SELECT f.follower_id AS id, count(*)::int AS n
+    FROM follows f
+    WHERE f.following_id IN (SELECT following_id FROM follows WHERE follower_id = auth.uid())
+    GROUP BY f.follower_id
+  ),
+  interactions AS (
+    SELECT other AS id, count(*)::int AS n
+    FROM (
+      SELECT r.user_id AS other FROM reactions r JOIN posts p ON p.id = r.post_id WHERE p.user_id = auth.uid()
+      UNION ALL
+      SELECT p.user_id FROM reactions r JOIN posts p ON p.id = r.post_id WHERE r.user_id = auth.uid()
+      UNION ALL
+      SELECT c.user_id FROM comments c JOIN posts p ON p.id = c.post_id WHERE p.user_id = auth.uid()
+      UNION ALL
+      SELECT p.user_id FROM comments c JOIN posts p ON p.id = c.post_id WHERE c.user_id = auth.uid()
+    ) i
+    GROUP BY other
+  ),
+  candidates AS (
+    SELECT
+      pr.*,
+      COALESCE(m.n, 0) AS mutual_friend_count,
+      COALESCE(sf.n, 0) AS shared_follow_count,
+      COALESCE(i.n, 0) AS interaction_count,
+      EXISTS (
+        SELECT 1 FROM follows f WHERE f.follower_id = pr.id AND f.following_id = auth.uid()
+      ) AS follows_you
+    FROM profiles pr
+    LEFT JOIN mutuals m ON m.id = pr.id
+    LEFT JOIN shared_follows sf ON sf.id = pr.id
+    LEFT JOIN interactions i ON i.id = pr.id
+    WHERE pr.id NOT IN (SELECT id FROM excluded WHERE id IS NOT NULL)
+  )
+  SELECT
+    c.id, c.username, c.full_name, c.avatar_url, c.bio, c.created_at, c.updated_at,
+    c.mutual_friend_count, c.shared_follow_count, c.interaction_count, c.follows_you
+  FROM candidates c
+  ORDER BY
+    3 * c.mutual_friend_count
+      + 2 * c.interaction_count
+      + CASE WHEN c.follows_you THEN 2 ELSE 0 END
+      + c.shared_follow_count DESC,
+    c.created_at DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_friend_suggestions(int) TO authenticated;
@@ -0,0 +1,213 @@
+/*
+  # Friendship Lifecycle
+
+  Friendships become a small state machine, changed only through RPCs:
+
+    (none) --request--> pending --accept--> accepted --unfriend--> (none)
+                          |  \--decline--> rejected --request--> pending
+                          \--cancel--> (none)
+
+  - `request_friendship(other)`: sends a request. If `other` already sent
+    one to the caller, it's accepted instead. After a decline the declined
+    requester must wait 7 days before asking again; the person who declined
+    can send their own request at any time.
+  - `cancel_friend_request(other)`: the requester withdraws a pending request
+  - `respond_to_friend_request(other, accept)`: the recipient accepts or
+    declines. Declining keeps the row as 'rejected' (for the cooldown)
+    instead of deleting it.
+  - `unfriend(other)`: either friend ends an accepted friendship
+
+  All four are SECURITY DEFINER and raise a descriptive error for a
+  transition that isn't allowed from the current state.
+
+  ## Changes to `friendships`
+  - One row per pair of users, in either direction: duplicates are cleaned
+    up (keeping accepted, then pending, then the newest) and a unique index
+    on the unordered pair prevents new ones.
+  - `user_id_1` is always the latest requester and `user_id_2` the
+    recipient, matching `requested_by`.
+  - The direct insert and update policies are dropped; there never was a
+    delete policy.
+
+  ## Changed Trigger: `notify_friendship`
+  A request that revives a declined friendship notifies the recipient like a
+  new one, and cancelling a request removes its notification.
+*/
+
+-- One row per unordered pair
+DELETE FROM friendships f
+USING friendships keep
+WHERE least(f.user_id_1, f.user_id_2) = least(keep.user_id_1, keep.user_id_2)
+AND greatest(f.user_id_1, f.user_id_2) = greatest(keep.user_id_1, keep.user_id_2)
+AND f.id <> keep.id
+AND (
+  CASE keep.status WHEN 'accepted' THEN 0 WHEN 'pending' THEN 1 ELSE 2 END,
+  -extract(epoch FROM keep.updated_at),
+  keep.id::text
+) < (
+  CASE f.status WHEN 'accepted' THEN 0 WHEN 'pending' THEN 1 ELSE 2 END,
+  -extract(epoch FROM f.updated_at),
+  f.id::text
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS friendships_pair_key
+  ON friendships (least(user_id_1, user_id_2), greatest(user_id_1, user_id_2));
+
+UPDATE friendships
+SET user_id_1 = requested_by, user_id_2 = user_id_1
+WHERE user_id_2 = requested_by;
+
+DROP POLICY IF EXISTS "Users can create friend requests" ON friendships;
+DROP POLICY IF EXISTS "Users can update friendship status" ON friendships;
+
+-- The caller's friendship row with `p_other`, locked for the transition
+CREATE OR REPLACE FUNCTION friendship_with(p_other uuid)
+RETURNS friendships
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM friendships
+  WHERE least(user_id_1, user_id_2) = least(auth.uid(), p_other)
+  AND greatest(user_id_1, user_id_2) = greatest(auth.uid(), p_other)
+  FOR UPDATE;
+$$;
+
+REVOKE EXECUTE ON FUNCTION friendship_with(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION request_friendship(p_other uuid)
+RETURNS friendships
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row friendships := friendship_with(p_other);
+BEGIN
+  IF p_other = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t send a friend request to yourself';
+  END IF;
+
+  IF v_row.id IS NULL THEN
+    INSERT INTO friendships (user_id_1, user_id_2, requested_by, status)
+    VALUES (auth.uid(), p_other, auth.uid(), 'pending')
+    RETURNING * INTO v_row;
+    RETURN v_row;
+  END IF;
+
+  CASE v_row.status
+    WHEN 'accepted' THEN
+      RAISE EXCEPTION 'You are already friends';
+    WHEN 'pending' THEN
+      IF v_row.requested_by = auth.uid() THEN
+        RAISE EXCEPTION 'Friend request already sent';
+      END IF;
+      -- They asked first: asking back accepts
+      UPDATE friendships SET status = 'accepted', updated_at = now()
+      WHERE id = v_row.id
+      RETURNING * INTO v_row;
+    ELSE
+      IF v_row.requested_by = auth.uid() AND v_row.updated_at > now() - interval '7 days' THEN
+        RAISE EXCEPTION 'Your request was declined. You can ask again after %',
+          to_char(v_row.updated_at + interval '7 days', 'Mon DD');
+      END IF;
+      UPDATE friendships
+      SET user_id_1 = auth.uid(), user_id_2 = p_other, requested_by = auth.uid(),
+          status = 'pending', updated_at = now()
+      WHERE id = v_row.id
+      RETURNING * INTO v_row;
+  END CASE;
+
+  RETURN v_row;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_friend_request(p_other uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row friendships := friendship_with(p_other);
+BEGIN
+  IF v_row.status IS DISTINCT FROM 'pending' OR v_row.requested_by <> auth.uid() THEN
+    RAISE EXCEPTION 'There is no pending request to cancel';
+  END IF;
+  DELETE FROM friendships WHERE id = v_row.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION respond_to_friend_request(p_other uuid, p_accept boolean)
+RETURNS friendships
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row friendships := friendship_with(p_other);
+BEGIN
+  IF v_row.status IS DISTINCT FROM 'pending' OR v_row.requested_by <> p_other THEN
+    RAISE EXCEPTION 'There is no pending request from this user';
+  END IF;
+
+  UPDATE friendships
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'rejected' END, updated_at = now()
+  WHERE id = v_row.id
+  RETURNING * INTO v_row;
+  RETURN v_row;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unfriend(p_other uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row friendships := friendship_with(p_other);
+BEGIN
+  IF v_row.status IS DISTINCT FROM 'accepted' THEN
+    RAISE EXCEPTION 'You are not friends with this user';
+  END IF;
+  DELETE FROM friendships WHERE id = v_row.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION request_friendship(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_friend_request(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_to_friend_request(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION unfriend(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION notify_friendship()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'pending' THEN
+      DELETE FROM notifications
+      WHERE type = 'friend_request' AND user_id = OLD.user_id_2 AND actor_id = OLD.requested_by;
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'pending' AND (TG_OP = 'INSERT' OR OLD.status <> 'pending') THEN
+    PERFORM create_notification(NEW.user_id_2, NEW.requested_by, 'friend_request');
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'accepted' AND OLD.status <> 'accepted' THEN
+    PERFORM create_notification(NEW.requested_by, NEW.user_id_2, 'friend_accept');
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_friendship ON friendships;
+
+CREATE TRIGGER notify_friendship
+  AFTER INSERT OR UPDATE OF status OR DELETE ON friendships
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_friendship();
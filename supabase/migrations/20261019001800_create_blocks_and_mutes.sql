@@ -0,0 +1,506 @@
+/*
+  # Blocks and Mutes
+
+  ## New Table: `blocks`
+  - `blocker_id` (uuid, foreign key) - who blocked
+  - `blocked_id` (uuid, foreign key) - who was blocked
+  - `created_at` (timestamptz)
+
+  A block hides the two users from each other completely: profiles, posts,
+  comments and stories are filtered out by row level security in both
+  directions, and neither can follow, friend, comment on or react to the
+  other.
+
+  ## New Table: `mutes`
+  - `user_id` (uuid, foreign key) - who muted
+  - `muted_user_id` (uuid, foreign key) - who was muted
+  - `created_at` (timestamptz)
+
+  A mute only affects what the muting user sees: the muted user's posts
+  are left out of feeds, search and tag pages (but not their own profile)
+  and the client leaves their stories out of the stories bar. The muted
+  user can't tell.
+
+  ## New Functions
+  - `is_blocked_between(a, b)`: whether either user has blocked the other.
+    SECURITY DEFINER so the blocked side can be checked too, since blocks
+    are only visible to the blocker. Not callable by clients, who would
+    otherwise learn about blocks between anyone.
+  - `is_blocked_with(other)`: `is_blocked_between` for the caller and
+    `other`, for use in policies
+  - `block_user(other)`: blocks `other` and removes follows, the friendship
+    (or request) and notifications between the two, in both directions
+  - `get_blocked_users()`: the caller's blocked users with when they were
+    blocked. Their profiles are otherwise hidden from the caller.
+
+  ## Changed Functions
+  - `request_friendship` refuses when either user has blocked the other
+  - `get_friend_suggestions` never suggests blocked users or blockers
+  - `get_feed_page` leaves out posts by muted users unless listing one
+    author or looking up a single post
+
+  ## Security
+  - Users can view and remove (unblock) their own blocks; blocking goes
+    through `block_user`
+  - Users can view, add and remove their own mutes
+  - The select policies on `profiles`, `posts`, `comments` and `stories`
+    and the insert policies on `follows`, `comments`, `reactions` and
+    `comment_likes` now exclude blocked pairs
+  - Nobody can send a message to a conversation they share with someone
+    they've blocked or been blocked by, including conversations started
+    before the block
+*/
+
+CREATE TABLE IF NOT EXISTS blocks (
+  blocker_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  blocked_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS blocks_blocked_id_idx ON blocks (blocked_id);
+
+CREATE TABLE IF NOT EXISTS mutes (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  muted_user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, muted_user_id),
+  CHECK (user_id <> muted_user_id)
+);
+
+ALTER TABLE blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mutes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own blocks"
+  ON blocks FOR SELECT
+  TO authenticated
+  USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock"
+  ON blocks FOR DELETE
+  TO authenticated
+  USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can view own mutes"
+  ON mutes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mute"
+  ON mutes FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unmute"
+  ON mutes FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION is_blocked_between(p_user_a uuid, p_user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM blocks
+    WHERE (blocker_id = p_user_a AND blocked_id = p_user_b)
+    OR (blocker_id = p_user_b AND blocked_id = p_user_a)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_blocked_between(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- What the policies use: the caller can only ask about blocks they're part of
+CREATE OR REPLACE FUNCTION is_blocked_with(p_other uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_blocked_between(auth.uid(), p_other);
+$$;
+
+GRANT EXECUTE ON FUNCTION is_blocked_with(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION block_user(p_other uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_other = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t block yourself';
+  END IF;
+
+  INSERT INTO blocks (blocker_id, blocked_id)
+  VALUES (auth.uid(), p_other)
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM follows
+  WHERE (follower_id = auth.uid() AND following_id = p_other)
+  OR (follower_id = p_other AND following_id = auth.uid());
+
+  DELETE FROM friendships
+  WHERE least(user_id_1, user_id_2) = least(auth.uid(), p_other)
+  AND greatest(user_id_1, user_id_2) = greatest(auth.uid(), p_other);
+
+  DELETE FROM notifications
+  WHERE (user_id = auth.uid() AND actor_id = p_other)
+  OR (user_id = p_other AND actor_id = auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION block_user(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_blocked_users()
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  bio text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  blocked_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT pr.id, pr.username, pr.full_name, pr.avatar_url, pr.bio, pr.created_at, pr.updated_at, b.created_at
+  FROM blocks b
+  JOIN profiles pr ON pr.id = b.blocked_id
+  WHERE b.blocker_id = auth.uid()
+  ORDER BY b.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_blocked_users() TO authenticated;
+
+-- Blocked pairs can't see each other
+DROP POLICY IF EXISTS "Anyone can view profiles" ON profiles;
+
+CREATE POLICY "Anyone can view profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (NOT is_blocked_with(id));
+
+DROP POLICY IF EXISTS "Anyone can view posts" ON posts;
+
+CREATE POLICY "Anyone can view posts"
+  ON posts FOR SELECT
+  TO authenticated
+  USING (NOT is_blocked_with(user_id));
+
+DROP POLICY IF EXISTS "Anyone can view comments" ON comments;
+
+CREATE POLICY "Anyone can view comments"
+  ON comments FOR SELECT
+  TO authenticated
+  USING (NOT is_blocked_with(user_id));
+
+DROP POLICY IF EXISTS "Anyone can view non-expired stories" ON stories;
+
+CREATE POLICY "Anyone can view non-expired stories"
+  ON stories FOR SELECT
+  TO authenticated
+  USING (expires_at > now() AND NOT is_blocked_with(user_id));
+
+-- ...or interact. Comments and reactions need a post the caller can see,
+-- which rules out a blocked author's posts.
+DROP POLICY IF EXISTS "Users can create follows" ON follows;
+
+CREATE POLICY "Users can create follows"
+  ON follows FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = follower_id AND NOT is_blocked_with(following_id));
+
+DROP POLICY IF EXISTS "Users can create comments" ON comments;
+
+CREATE POLICY "Users can create comments"
+  ON comments FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND EXISTS (SELECT 1 FROM posts WHERE posts.id = post_id));
+
+DROP POLICY IF EXISTS "Users can create reactions" ON reactions;
+
+CREATE POLICY "Users can create reactions"
+  ON reactions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND EXISTS (SELECT 1 FROM posts WHERE posts.id = post_id));
+
+DROP POLICY IF EXISTS "Users can create comment likes" ON comment_likes;
+
+CREATE POLICY "Users can create comment likes"
+  ON comment_likes FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND EXISTS (SELECT 1 FROM comments WHERE comments.id = comment_id));
+
+-- Conversations from before the block stay readable, but neither side can
+-- write to one they share
+DROP POLICY IF EXISTS "Participants can send messages" ON messages;
+
+CREATE POLICY "Participants can send messages"
+  ON messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND is_conversation_participant(conversation_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM conversation_participants
+      WHERE conversation_participants.conversation_id = messages.conversation_id
+      AND conversation_participants.user_id <> auth.uid()
+      AND is_blocked_with(conversation_participants.user_id)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION request_friendship(p_other uuid)
+RETURNS friendships
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row friendships := friendship_with(p_other);
+BEGIN
+  IF p_other = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t send a friend request to yourself';
+  END IF;
+
+  IF is_blocked_with(p_other) THEN
+    RAISE EXCEPTION 'You can''t send a friend request to this user';
+  END IF;
+
+  IF v_row.id IS NULL THEN
+    INSERT INTO friendships (user_id_1, user_id_2, requested_by, status)
+    VALUES (auth.uid(), p_other, auth.uid(), 'pending')
+    RETURNING * INTO v_row;
+    RETURN v_row;
+  END IF;
+
+  CASE v_row.status
+    WHEN 'accepted' THEN
+      RAISE EXCEPTION 'You are already friends';
+    WHEN 'pending' THEN
+      IF v_row.requested_by = auth.uid() THEN
+        RAISE EXCEPTION 'Friend request already sent';
+      END IF;
+      -- They asked first: asking back accepts
+      UPDATE friendships SET status = 'accepted', updated_at = now()
+      WHERE id = v_row.id
+      RETURNING * INTO v_row;
+    ELSE
+      IF v_row.requested_by = auth.uid() AND v_row.updated_at > now() - interval '7 days' THEN
+        RAISE EXCEPTION 'Your request was declined. You can ask again after %',
+          to_char(v_row.updated_at + interval '7 days', 'Mon DD');
+      END IF;
+      UPDATE friendships
+      SET user_id_1 = auth.uid(), user_id_2 = p_other, requested_by = auth.uid(),
+          status = 'pending', updated_at = now()
+      WHERE id = v_row.id
+      RETURNING * INTO v_row;
+  END CASE;
+
+  RETURN v_row;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_friend_suggestions(p_limit int DEFAULT 20)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  bio text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  mutual_friend_count int,
+  shared_follow_count int,
+  interaction_count int,
+  follows_you boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH friend_edges AS (
+    SELECT user_id_1 AS a, user_id_2 AS b FROM friendships WHERE status = 'accepted'
+    UNION ALL
+    SELECT user_id_2, user_id_1 FROM friendships WHERE status = 'accepted'
+  ),
+  excluded AS (
+    SELECT auth.uid() AS id
+    UNION
+    SELECT CASE WHEN user_id_1 = auth.uid() THEN user_id_2 ELSE user_id_1 END
+    FROM friendships
+    WHERE status IN ('accepted', 'pending')
+    AND (user_id_1 = auth.uid() OR user_id_2 = auth.uid())
+    UNION
+    SELECT dismissed_user_id FROM suggestion_dismissals WHERE user_id = auth.uid()
+    UNION
+    SELECT blocked_id FROM blocks WHERE blocker_id = auth.uid()
+    UNION
+    SELECT blocker_id FROM blocks WHERE blocked_id = auth.uid()
+  ),
+  mutuals AS (
+    SELECT fe.a AS id, count(*)::int AS n
+    FROM friend_edges fe
+    WHERE fe.b IN (SELECT b FROM friend_edges WHERE a = auth.uid())
+    GROUP BY fe.a
+  ),
+  shared_follows AS (
+    SELECT f.follower_id AS id, count(*)::int AS n
+    FROM follows f
+    WHERE f.following_id IN (SELECT following_id FROM follows WHERE follower_id = auth.uid())
+    GROUP BY f.follower_id
+  ),
+  interactions AS (
+    SELECT other AS id, count(*)::int AS n
+    FROM (
+      SELECT r.user_id AS other FROM reactions r JOIN posts p ON p.id = r.post_id WHERE p.user_id = auth.uid()
+      UNION ALL
+      SELECT p.user_id FROM reactions r JOIN posts p ON p.id = r.post_id WHERE r.user_id = auth.uid()
+      UNION ALL
+      SELECT c.user_id FROM comments c JOIN posts p ON p.id = c.post_id WHERE p.user_id = auth.uid()
+      UNION ALL
+      SELECT p.user_id FROM comments c JOIN posts p ON p.id = c.post_id WHERE c.user_id = auth.uid()
+    ) i
+    GROUP BY other
+  ),
+  candidates AS (
+    SELECT
+      pr.*,
+      COALESCE(m.n, 0) AS mutual_friend_count,
+      COALESCE(sf.n, 0) AS shared_follow_count,
+      COALESCE(i.n, 0) AS interaction_count,
+      EXISTS (
+        SELECT 1 FROM follows f WHERE f.follower_id = pr.id AND f.following_id = auth.uid()
+      ) AS follows_you
+    FROM profiles pr
+    LEFT JOIN mutuals m ON m.id = pr.id
+    LEFT JOIN shared_follows sf ON sf.id = pr.id
+    LEFT JOIN interactions i ON i.id = pr.id
+    WHERE pr.id NOT IN (SELECT id FROM excluded WHERE id IS NOT NULL)
+  )
+  SELECT
+    c.id, c.username, c.full_name, c.avatar_url, c.bio, c.created_at, c.updated_at,
+    c.mutual_friend_count, c.shared_follow_count, c.interaction_count, c.follows_you
+  FROM candidates c
+  ORDER BY
+    3 * c.mutual_friend_count
+      + 2 * c.interaction_count
+      + CASE WHEN c.follows_you THEN 2 ELSE 0 END
+      + c.shared_follow_count DESC,
+    c.created_at DESC
+  LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION get_feed_page(
+  p_mode text DEFAULT 'everyone',
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 10,
+  p_author_id uuid DEFAULT NULL,
+  p_post_id uuid DEFAULT NULL,
+  p_query text DEFAULT NULL,
+  p_hashtag text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  profiles jsonb,
+  reaction_count int,
+  reaction_counts jsonb,
+  my_reaction text,
+  comment_count int,
+  recent_comments jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.created_at,
+    p.updated_at,
+    to_jsonb(author) AS profiles,
+    (SELECT count(*)::int FROM reactions r WHERE r.post_id = p.id) AS reaction_count,
+    COALESCE((
+      SELECT jsonb_object_agg(type, n)
+      FROM (
+        SELECT r.type, count(*) AS n
+        FROM reactions r
+        WHERE r.post_id = p.id
+        GROUP BY r.type
+      ) per_type
+    ), '{}'::jsonb) AS reaction_counts,
+    (
+      SELECT r.type FROM reactions r
+      WHERE r.post_id = p.id AND r.user_id = auth.uid()
+    ) AS my_reaction,
+    (SELECT count(*)::int FROM comments c WHERE c.post_id = p.id) AS comment_count,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(preview) ORDER BY preview.created_at)
+      FROM (
+        SELECT c.*, to_jsonb(commenter) AS profiles
+        FROM comments c
+        JOIN profiles commenter ON commenter.id = c.user_id
+        WHERE c.post_id = p.id AND c.parent_id IS NULL
+        ORDER BY c.created_at
+        LIMIT 3
+      ) preview
+    ), '[]'::jsonb) AS recent_comments
+  FROM posts p
+  JOIN profiles author ON author.id = p.user_id
+  WHERE (
+      p_mode = 'everyone'
+      OR p.user_id = auth.uid()
+      OR (p_mode = 'following' AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = auth.uid() AND f.following_id = p.user_id
+      ))
+      OR (p_mode = 'friends' AND EXISTS (
+        SELECT 1 FROM friendships fr
+        WHERE fr.status = 'accepted'
+        AND (
+          (fr.user_id_1 = auth.uid() AND fr.user_id_2 = p.user_id)
+          OR (fr.user_id_2 = auth.uid() AND fr.user_id_1 = p.user_id)
+        )
+      ))
+    )
+    AND (p_author_id IS NULL OR p.user_id = p_author_id)
+    AND (p_post_id IS NULL OR p.id = p_post_id)
+    AND (
+      p_query IS NULL
+      OR to_tsvector('english', p.content) @@ websearch_to_tsquery('english', p_query)
+      OR p.content ILIKE like_pattern(trim(p_query))
+    )
+    AND (p_hashtag IS NULL OR EXISTS (
+      SELECT 1 FROM post_hashtags ph
+      JOIN hashtags h ON h.id = ph.hashtag_id
+      WHERE ph.post_id = p.id AND h.tag = lower(p_hashtag)
+    ))
+    AND (p_author_id IS NOT NULL OR p_post_id IS NOT NULL OR NOT EXISTS (
+      SELECT 1 FROM mutes m
+      WHERE m.user_id = auth.uid() AND m.muted_user_id = p.user_id
+    ))
+    AND (p_before_created_at IS NULL OR (p.created_at, p.id) < (p_before_created_at, p_before_id))
+    AND (p_after_created_at IS NULL OR (p.created_at, p.id) > (p_after_created_at, p_after_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
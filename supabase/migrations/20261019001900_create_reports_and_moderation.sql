@@ -0,0 +1,631 @@
+/*
+  # Reports and Moderation
+
+  ## Changes to `profiles`
+  - `role` (text) - 'user', 'moderator' or 'admin'. Roles are granted
+    directly in the database; there is no self-service way to change one.
+  - `suspended_until` (timestamptz, nullable) - a suspended account can
+    still sign in and browse, but can't post, comment, react, follow, send
+    friend requests, post stories or send messages until then. 'infinity'
+    means indefinitely.
+  - `suspension_reason` (text, nullable) - shown to the suspended user
+
+  ## Changes to `posts`, `comments` and `stories`
+  - `hidden_at` (timestamptz, nullable) - set when a moderator hides the
+    row. Hidden rows are left out of every select, including the author's,
+    but are kept so the decision can be reversed.
+
+  Clients can't write any of these columns: a trigger keeps their previous
+  values for writes that don't come from the SECURITY DEFINER moderation
+  functions below.
+
+  ## New Table: `reports`
+  - `reporter_id` (uuid, foreign key) - who reported
+  - `target_type` (text) - 'post', 'comment', 'story' or 'profile'
+  - `target_id` (uuid) - the reported row
+  - `target_user_id` (uuid, foreign key) - whose content it is
+  - `reason` (text) - one of a fixed set of reasons
+  - `details` (text) - optional free text from the reporter
+  - `snapshot_content`, `snapshot_image_url` (text) - the content as it was
+    when reported, so the report still makes sense after an edit or removal
+  - `status` (text) - 'open', 'resolved' (acted on) or 'dismissed'
+  - `resolved_by` (uuid, foreign key), `resolved_at` (timestamptz)
+  A reporter can have one open report per target.
+
+  ## New Table: `moderation_actions`
+  The audit log: every hide, unhide, remove, suspend, unsuspend and dismiss,
+  with the moderator, the target and their note. Rows are only ever
+  inserted, by the moderation functions.
+
+  ## New Functions
+  - `is_moderator(user)`: whether the user (the caller by default) is a
+    moderator or admin
+  - `report_content(type, id, reason, details)`: files a report and returns
+    its id. Only content the reporter can see can be reported, and not
+    their own.
+  - `can_view_report_target(type, id)`: whether the caller can see a
+    report target, for `report_content`. Not callable by clients.
+  - `moderate_content(type, id, action, note)`: hides, unhides or removes a
+    post, comment or story. Hiding or removing resolves its open reports.
+  - `suspend_user(user, days, reason)` / `unsuspend_user(user, note)`:
+    suspends for `days` (NULL for indefinitely) or lifts a suspension.
+    Suspending resolves open reports about the profile. Only admins can
+    suspend moderators.
+  - `dismiss_report(report, note)`: closes a report without acting on it
+  - `get_moderation_queue(status)`: reports with the reporter, the reported
+    user and the target's current state
+  - `get_moderation_log(limit)`: the newest entries of the audit log
+  The moderation functions raise for anyone who isn't a moderator; the two
+  readers return nothing.
+
+  ## Changed Functions
+  - `get_profile_stats` leaves hidden posts out of the post count
+
+  ## Security
+  - Reporters can view their own reports; moderators can view all reports
+    and the audit log. Neither table has write policies.
+  - A suspended user can't create posts, comments, reactions, comment
+    likes, stories or messages, follow anyone or send friend requests
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'moderator', 'admin')),
+  ADD COLUMN IF NOT EXISTS suspended_until timestamptz,
+  ADD COLUMN IF NOT EXISTS suspension_reason text;
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+
+CREATE OR REPLACE FUNCTION is_moderator(p_user_id uuid DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles WHERE id = p_user_id AND role IN ('moderator', 'admin')
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_moderator(uuid) TO authenticated;
+
+-- Moderation columns only change inside the SECURITY DEFINER functions,
+-- which run as the table owner rather than as `authenticated`
+CREATE OR REPLACE FUNCTION protect_profile_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.role := 'user';
+      NEW.suspended_until := NULL;
+      NEW.suspension_reason := NULL;
+    ELSE
+      NEW.role := OLD.role;
+      NEW.suspended_until := OLD.suspended_until;
+      NEW.suspension_reason := OLD.suspension_reason;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_moderation
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_moderation();
+
+CREATE OR REPLACE FUNCTION protect_hidden_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.hidden_at := CASE WHEN TG_OP = 'UPDATE' THEN OLD.hidden_at END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_hidden_at
+  BEFORE INSERT OR UPDATE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_hidden_at();
+
+CREATE TRIGGER protect_hidden_at
+  BEFORE INSERT OR UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_hidden_at();
+
+CREATE TRIGGER protect_hidden_at
+  BEFORE INSERT OR UPDATE ON stories
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_hidden_at();
+
+-- Suspended users can read but not write
+CREATE OR REPLACE FUNCTION reject_suspended_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_until timestamptz;
+BEGIN
+  SELECT suspended_until INTO v_until FROM profiles WHERE id = auth.uid();
+  IF v_until > now() THEN
+    IF v_until = 'infinity' THEN
+      RAISE EXCEPTION 'Your account is suspended';
+    END IF;
+    RAISE EXCEPTION 'Your account is suspended until %', to_char(v_until, 'Mon DD, YYYY');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_suspended_user
+  BEFORE INSERT ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_suspended_user();
+
+CREATE TRIGGER reject_suspended_user
+  BEFORE INSERT ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_suspended_user();
+
+-- Changing a reaction is an upsert, so updates count too
+CREATE TRIGGER reject_suspended_user
+  BEFORE INSERT OR UPDATE ON reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_suspended_user();
+
+CREATE TRIGGER reject_suspended_user
+  BEFORE INSERT ON comment_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_suspended_user();
+
+CREATE TRIGGER reject_suspended_user
+  BEFORE INSERT ON stories
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_suspended_user();
+
+CREATE TRIGGER reject_suspended_user
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_suspended_user();
+
+CREATE TRIGGER reject_suspended_user
+  BEFORE INSERT ON follows
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_suspended_user();
+
+CREATE TRIGGER reject_suspended_user
+  BEFORE INSERT ON friendships
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_suspended_user();
+
+-- Hidden content disappears for everyone
+DROP POLICY IF EXISTS "Anyone can view posts" ON posts;
+
+CREATE POLICY "Anyone can view posts"
+  ON posts FOR SELECT
+  TO authenticated
+  USING (hidden_at IS NULL AND NOT is_blocked_with(user_id));
+
+DROP POLICY IF EXISTS "Anyone can view comments" ON comments;
+
+CREATE POLICY "Anyone can view comments"
+  ON comments FOR SELECT
+  TO authenticated
+  USING (hidden_at IS NULL AND NOT is_blocked_with(user_id));
+
+DROP POLICY IF EXISTS "Anyone can view non-expired stories" ON stories;
+
+CREATE POLICY "Anyone can view non-expired stories"
+  ON stories FOR SELECT
+  TO authenticated
+  USING (expires_at > now() AND hidden_at IS NULL AND NOT is_blocked_with(user_id));
+
+-- Only count the posts the caller can see
+CREATE OR REPLACE FUNCTION get_profile_stats(p_user_id uuid)
+RETURNS TABLE (
+  post_count int,
+  follower_count int,
+  following_count int,
+  friend_count int
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT count(*)::int FROM posts
+      WHERE user_id = p_user_id AND hidden_at IS NULL
+    ),
+    (SELECT count(*)::int FROM follows WHERE following_id = p_user_id),
+    (SELECT count(*)::int FROM follows WHERE follower_id = p_user_id),
+    (
+      SELECT count(*)::int FROM friendships
+      WHERE status = 'accepted'
+      AND (user_id_1 = p_user_id OR user_id_2 = p_user_id)
+    );
+$$;
+
+CREATE TABLE IF NOT EXISTS reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  target_type text NOT NULL CHECK (target_type IN ('post', 'comment', 'story', 'profile')),
+  target_id uuid NOT NULL,
+  target_user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate', 'violence', 'nudity', 'misinformation', 'other')),
+  details text NOT NULL DEFAULT '' CHECK (length(details) <= 1000),
+  snapshot_content text NOT NULL DEFAULT '',
+  snapshot_image_url text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS reports_open_target_key
+  ON reports (reporter_id, target_type, target_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS reports_status_created_at_idx ON reports (status, created_at);
+CREATE INDEX IF NOT EXISTS reports_target_idx ON reports (target_type, target_id);
+
+CREATE TABLE IF NOT EXISTS moderation_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  moderator_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN ('hide', 'unhide', 'remove', 'suspend', 'unsuspend', 'dismiss')),
+  target_type text NOT NULL CHECK (target_type IN ('post', 'comment', 'story', 'profile')),
+  target_id uuid NOT NULL,
+  target_user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  report_id uuid REFERENCES reports(id) ON DELETE SET NULL,
+  note text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS moderation_actions_created_at_idx ON moderation_actions (created_at DESC);
+
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reporters and moderators can view reports"
+  ON reports FOR SELECT
+  TO authenticated
+  USING (auth.uid() = reporter_id OR is_moderator());
+
+CREATE POLICY "Moderators can view the moderation log"
+  ON moderation_actions FOR SELECT
+  TO authenticated
+  USING (is_moderator());
+
+-- Mirrors the select policies on the reported tables. report_content reads
+-- them as the table owner, so without this it would let anyone snapshot a
+-- row they can't see. Later migrations that narrow those policies redefine
+-- it to match.
+CREATE OR REPLACE FUNCTION can_view_report_target(p_target_type text, p_target_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_target_type
+    WHEN 'post' THEN EXISTS (
+      SELECT 1 FROM posts
+      WHERE id = p_target_id AND hidden_at IS NULL AND NOT is_blocked_with(user_id)
+    )
+    WHEN 'comment' THEN EXISTS (
+      SELECT 1 FROM comments
+      WHERE id = p_target_id AND hidden_at IS NULL AND NOT is_blocked_with(user_id)
+    )
+    WHEN 'story' THEN EXISTS (
+      SELECT 1 FROM stories
+      WHERE id = p_target_id AND expires_at > now() AND hidden_at IS NULL
+        AND NOT is_blocked_with(user_id)
+    )
+    WHEN 'profile' THEN EXISTS (
+      SELECT 1 FROM profiles WHERE id = p_target_id AND NOT is_blocked_with(id)
+    )
+    ELSE false
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION can_view_report_target(text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION report_content(
+  p_target_type text,
+  p_target_id uuid,
+  p_reason text,
+  p_details text DEFAULT ''
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner uuid;
+  v_content text;
+  v_image_url text;
+  v_id uuid;
+BEGIN
+  IF p_target_type NOT IN ('post', 'comment', 'story', 'profile') THEN
+    RAISE EXCEPTION 'Unknown report target';
+  END IF;
+  IF NOT can_view_report_target(p_target_type, p_target_id) THEN
+    RAISE EXCEPTION 'This content no longer exists';
+  END IF;
+
+  CASE p_target_type
+    WHEN 'post' THEN
+      SELECT user_id, content, image_url INTO v_owner, v_content, v_image_url
+      FROM posts WHERE id = p_target_id;
+    WHEN 'comment' THEN
+      SELECT user_id, content INTO v_owner, v_content
+      FROM comments WHERE id = p_target_id;
+    WHEN 'story' THEN
+      SELECT user_id, caption, image_url INTO v_owner, v_content, v_image_url
+      FROM stories WHERE id = p_target_id;
+    WHEN 'profile' THEN
+      SELECT id, concat_ws(E'\n', username, full_name, bio), avatar_url INTO v_owner, v_content, v_image_url
+      FROM profiles WHERE id = p_target_id;
+  END CASE;
+
+  IF v_owner = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t report your own content';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM reports
+    WHERE reporter_id = auth.uid() AND target_type = p_target_type AND target_id = p_target_id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You''ve already reported this';
+  END IF;
+
+  INSERT INTO reports (
+    reporter_id, target_type, target_id, target_user_id, reason, details, snapshot_content, snapshot_image_url
+  )
+  VALUES (
+    auth.uid(), p_target_type, p_target_id, v_owner, p_reason, trim(COALESCE(p_details, '')),
+    COALESCE(v_content, ''), NULLIF(v_image_url, '')
+  )
+  RETURNING id INTO v_id;
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION moderate_content(
+  p_target_type text,
+  p_target_id uuid,
+  p_action text,
+  p_note text DEFAULT ''
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table text := CASE p_target_type
+    WHEN 'post' THEN 'posts'
+    WHEN 'comment' THEN 'comments'
+    WHEN 'story' THEN 'stories'
+  END;
+  v_owner uuid;
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can do this';
+  END IF;
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Only posts, comments and stories can be hidden or removed';
+  END IF;
+  IF p_action NOT IN ('hide', 'unhide', 'remove') THEN
+    RAISE EXCEPTION 'Unknown moderation action';
+  END IF;
+
+  EXECUTE format('SELECT user_id FROM %I WHERE id = $1 FOR UPDATE', v_table)
+  INTO v_owner
+  USING p_target_id;
+  IF v_owner IS NULL THEN
+    RAISE EXCEPTION 'This content no longer exists';
+  END IF;
+
+  IF p_action = 'remove' THEN
+    EXECUTE format('DELETE FROM %I WHERE id = $1', v_table) USING p_target_id;
+  ELSE
+    EXECUTE format('UPDATE %I SET hidden_at = $2 WHERE id = $1', v_table)
+    USING p_target_id, CASE WHEN p_action = 'hide' THEN now() END;
+  END IF;
+
+  IF p_action <> 'unhide' THEN
+    UPDATE reports
+    SET status = 'resolved', resolved_by = auth.uid(), resolved_at = now()
+    WHERE target_type = p_target_type AND target_id = p_target_id AND status = 'open';
+  END IF;
+
+  INSERT INTO moderation_actions (moderator_id, action, target_type, target_id, target_user_id, note)
+  VALUES (auth.uid(), p_action, p_target_type, p_target_id, v_owner, trim(COALESCE(p_note, '')));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION suspend_user(p_user_id uuid, p_days int DEFAULT NULL, p_reason text DEFAULT '')
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can do this';
+  END IF;
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t suspend yourself';
+  END IF;
+  IF is_moderator(p_user_id) AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can suspend moderators';
+  END IF;
+  IF p_days IS NOT NULL AND p_days < 1 THEN
+    RAISE EXCEPTION 'A suspension lasts at least a day';
+  END IF;
+
+  UPDATE profiles
+  SET suspended_until = CASE WHEN p_days IS NULL THEN 'infinity' ELSE now() + make_interval(days => p_days) END,
+      suspension_reason = NULLIF(trim(COALESCE(p_reason, '')), '')
+  WHERE id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This user no longer exists';
+  END IF;
+
+  UPDATE reports
+  SET status = 'resolved', resolved_by = auth.uid(), resolved_at = now()
+  WHERE target_type = 'profile' AND target_id = p_user_id AND status = 'open';
+
+  INSERT INTO moderation_actions (moderator_id, action, target_type, target_id, target_user_id, note)
+  VALUES (auth.uid(), 'suspend', 'profile', p_user_id, p_user_id, trim(COALESCE(p_reason, '')));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unsuspend_user(p_user_id uuid, p_note text DEFAULT '')
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can do this';
+  END IF;
+
+  UPDATE profiles
+  SET suspended_until = NULL, suspension_reason = NULL
+  WHERE id = p_user_id AND suspended_until IS NOT NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This user isn''t suspended';
+  END IF;
+
+  INSERT INTO moderation_actions (moderator_id, action, target_type, target_id, target_user_id, note)
+  VALUES (auth.uid(), 'unsuspend', 'profile', p_user_id, p_user_id, trim(COALESCE(p_note, '')));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION dismiss_report(p_report_id uuid, p_note text DEFAULT '')
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row reports;
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can do this';
+  END IF;
+
+  UPDATE reports
+  SET status = 'dismissed', resolved_by = auth.uid(), resolved_at = now()
+  WHERE id = p_report_id AND status = 'open'
+  RETURNING * INTO v_row;
+  IF v_row.id IS NULL THEN
+    RAISE EXCEPTION 'This report has already been handled';
+  END IF;
+
+  INSERT INTO moderation_actions (moderator_id, action, target_type, target_id, target_user_id, report_id, note)
+  VALUES (auth.uid(), 'dismiss', v_row.target_type, v_row.target_id, v_row.target_user_id, v_row.id, trim(COALESCE(p_note, '')));
+END;
+$$;
+
+-- Open reports come oldest first, like a queue; closed ones newest first
+CREATE OR REPLACE FUNCTION get_moderation_queue(p_status text DEFAULT 'open')
+RETURNS TABLE (
+  id uuid,
+  target_type text,
+  target_id uuid,
+  reason text,
+  details text,
+  snapshot_content text,
+  snapshot_image_url text,
+  status text,
+  created_at timestamptz,
+  resolved_at timestamptz,
+  reporter jsonb,
+  target_user jsonb,
+  target_exists boolean,
+  target_hidden_at timestamptz,
+  target_post_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id, r.target_type, r.target_id, r.reason, r.details, r.snapshot_content, r.snapshot_image_url,
+    r.status, r.created_at, r.resolved_at,
+    to_jsonb(reporter),
+    to_jsonb(target_user),
+    t.id IS NOT NULL,
+    t.hidden_at,
+    t.post_id
+  FROM reports r
+  JOIN profiles reporter ON reporter.id = r.reporter_id
+  JOIN profiles target_user ON target_user.id = r.target_user_id
+  LEFT JOIN LATERAL (
+    SELECT posts.id, posts.hidden_at, posts.id AS post_id
+    FROM posts WHERE r.target_type = 'post' AND posts.id = r.target_id
+    UNION ALL
+    SELECT comments.id, comments.hidden_at, comments.post_id
+    FROM comments WHERE r.target_type = 'comment' AND comments.id = r.target_id
+    UNION ALL
+    SELECT stories.id, stories.hidden_at, NULL
+    FROM stories WHERE r.target_type = 'story' AND stories.id = r.target_id
+    UNION ALL
+    SELECT profiles.id, NULL, NULL
+    FROM profiles WHERE r.target_type = 'profile' AND profiles.id = r.target_id
+  ) t ON true
+  WHERE is_moderator() AND r.status = p_status
+  ORDER BY
+    CASE WHEN p_status = 'open' THEN r.created_at END ASC,
+    r.resolved_at DESC
+  LIMIT 100;
+$$;
+
+CREATE OR REPLACE FUNCTION get_moderation_log(p_limit int DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  action text,
+  target_type text,
+  target_id uuid,
+  note text,
+  created_at timestamptz,
+  moderator jsonb,
+  target_user jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.id, a.action, a.target_type, a.target_id, a.note, a.created_at,
+    to_jsonb(moderator),
+    to_jsonb(target_user)
+  FROM moderation_actions a
+  LEFT JOIN profiles moderator ON moderator.id = a.moderator_id
+  LEFT JOIN profiles target_user ON target_user.id = a.target_user_id
+  WHERE is_moderator()
+  ORDER BY a.created_at DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION report_content(text, uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_content(text, uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION suspend_user(uuid, int, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION unsuspend_user(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION dismiss_report(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_moderation_queue(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_moderation_log(int) TO authenticated;
@@ -0,0 +1,471 @@
+/*
+  # Private Accounts
+
+  ## Changed Table: `profiles`
+  - `is_private` (boolean, default false) - when set, new followers have to
+    be approved and only approved followers and friends see the account's
+    posts, stories and follow lists
+
+  ## Changed Table: `follows`
+  - `status` (text) - 'pending' while a follow of a private account waits
+    for approval, 'accepted' otherwise. Existing follows are accepted.
+
+  A BEFORE INSERT trigger picks the status from the followed profile, so
+  clients insert follows exactly as before. Making an account public again
+  accepts every pending request.
+
+  ## New Functions
+  - `can_view_content_of(owner)`: whether the caller may see `owner`'s
+    posts, stories and follows: they are the owner, the account is public,
+    or they are an accepted follower or a friend. SECURITY DEFINER because
+    friendships are only visible to the two people in them.
+  - `respond_to_follow_request(follower, accept)`: the followed user
+    accepts or declines (deletes) a pending follow
+
+  ## Changed Functions
+  - `notify_follow` sends 'follow_request' for a pending follow, and on
+    approval replaces it with 'follow' for the owner and 'follow_accept'
+    for the follower
+  - `get_profile_stats`, `get_friend_suggestions` and the 'following' mode
+    of `get_feed_page` only count accepted follows
+  - `get_profile_stats` only counts a private account's posts for people
+    who can see them
+  - `can_view_report_target` follows the new `posts`, `comments` and
+    `stories` policies, so private content can't be reported by people who
+    can't see it
+
+  ## Security
+  - The select policies on `posts` and `stories` also require
+    `can_view_content_of(user_id)`
+  - Comments are only visible on posts the caller can see
+  - Follows are visible to the two people in them, and otherwise only
+    accepted follows between accounts the caller can view
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS is_private boolean NOT NULL DEFAULT false;
+
+ALTER TABLE follows ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'accepted'
+  CHECK (status IN ('pending', 'accepted'));
+
+CREATE INDEX IF NOT EXISTS follows_pending_idx ON follows (following_id) WHERE status = 'pending';
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (
+  type IN (
+    'reaction', 'comment', 'reply', 'follow', 'follow_request', 'follow_accept',
+    'friend_request', 'friend_accept', 'story_view'
+  )
+);
+
+-- Follows of a private account start out pending, whatever the client sent
+CREATE OR REPLACE FUNCTION set_follow_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.status := CASE
+    WHEN EXISTS (SELECT 1 FROM profiles WHERE id = NEW.following_id AND is_private) THEN 'pending'
+    ELSE 'accepted'
+  END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_follow_status
+  BEFORE INSERT ON follows
+  FOR EACH ROW
+  EXECUTE FUNCTION set_follow_status();
+
+-- Going public lets everyone who asked in
+CREATE OR REPLACE FUNCTION accept_pending_follows()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_private AND NOT NEW.is_private THEN
+    UPDATE follows SET status = 'accepted'
+    WHERE following_id = NEW.id AND status = 'pending';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER accept_pending_follows
+  AFTER UPDATE OF is_private ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION accept_pending_follows();
+
+CREATE OR REPLACE FUNCTION notify_follow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM create_notification(
+      NEW.following_id,
+      NEW.follower_id,
+      CASE WHEN NEW.status = 'pending' THEN 'follow_request' ELSE 'follow' END
+    );
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.status = 'accepted' AND OLD.status = 'pending' THEN
+      DELETE FROM notifications
+      WHERE type = 'follow_request' AND user_id = NEW.following_id AND actor_id = NEW.follower_id;
+      PERFORM create_notification(NEW.following_id, NEW.follower_id, 'follow');
+      PERFORM create_notification(NEW.follower_id, NEW.following_id, 'follow_accept');
+    END IF;
+  ELSE
+    DELETE FROM notifications
+    WHERE type IN ('follow', 'follow_request')
+    AND user_id = OLD.following_id AND actor_id = OLD.follower_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_follow ON follows;
+
+CREATE TRIGGER notify_follow
+  AFTER INSERT OR UPDATE OF status OR DELETE ON follows
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_follow();
+
+CREATE OR REPLACE FUNCTION can_view_content_of(p_owner uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_owner = auth.uid()
+  OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_owner AND is_private)
+  OR EXISTS (
+    SELECT 1 FROM follows
+    WHERE follower_id = auth.uid() AND following_id = p_owner AND status = 'accepted'
+  )
+  OR is_friends_with(p_owner);
+$$;
+
+CREATE OR REPLACE FUNCTION respond_to_follow_request(p_follower uuid, p_accept boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_accept THEN
+    UPDATE follows SET status = 'accepted'
+    WHERE follower_id = p_follower AND following_id = auth.uid() AND status = 'pending';
+  ELSE
+    DELETE FROM follows
+    WHERE follower_id = p_follower AND following_id = auth.uid() AND status = 'pending';
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is no follow request from this user';
+  END IF;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Anyone can view posts" ON posts;
+
+CREATE POLICY "Anyone can view posts"
+  ON posts FOR SELECT
+  TO authenticated
+  USING (
+    hidden_at IS NULL
+    AND NOT is_blocked_with(user_id)
+    AND can_view_content_of(user_id)
+  );
+
+DROP POLICY IF EXISTS "Anyone can view non-expired stories" ON stories;
+
+CREATE POLICY "Anyone can view non-expired stories"
+  ON stories FOR SELECT
+  TO authenticated
+  USING (
+    expires_at > now()
+    AND hidden_at IS NULL
+    AND NOT is_blocked_with(user_id)
+    AND can_view_content_of(user_id)
+  );
+
+DROP POLICY IF EXISTS "Anyone can view comments" ON comments;
+
+CREATE POLICY "Anyone can view comments"
+  ON comments FOR SELECT
+  TO authenticated
+  USING (
+    hidden_at IS NULL
+    AND NOT is_blocked_with(user_id)
+    AND EXISTS (SELECT 1 FROM posts WHERE posts.id = post_id)
+  );
+
+CREATE OR REPLACE FUNCTION can_view_report_target(p_target_type text, p_target_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_target_type
+    WHEN 'post' THEN EXISTS (
+      SELECT 1 FROM posts
+      WHERE id = p_target_id AND hidden_at IS NULL AND NOT is_blocked_with(user_id)
+        AND can_view_content_of(user_id)
+    )
+    WHEN 'comment' THEN EXISTS (
+      SELECT 1 FROM comments
+      WHERE id = p_target_id AND hidden_at IS NULL AND NOT is_blocked_with(user_id)
+        AND can_view_report_target('post', post_id)
+    )
+    WHEN 'story' THEN EXISTS (
+      SELECT 1 FROM stories
+      WHERE id = p_target_id AND expires_at > now() AND hidden_at IS NULL
+        AND NOT is_blocked_with(user_id) AND can_view_content_of(user_id)
+    )
+    WHEN 'profile' THEN EXISTS (
+      SELECT 1 FROM profiles WHERE id = p_target_id AND NOT is_blocked_with(id)
+    )
+    ELSE false
+  END;
+$$;
+
+DROP POLICY IF EXISTS "Anyone can view follows" ON follows;
+
+CREATE POLICY "Anyone can view follows"
+  ON follows FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (follower_id, following_id)
+    OR (status = 'accepted' AND can_view_content_of(follower_id) AND can_view_content_of(following_id))
+  );
+
+CREATE OR REPLACE FUNCTION get_profile_stats(p_user_id uuid)
+RETURNS TABLE (
+  post_count int,
+  follower_count int,
+  following_count int,
+  friend_count int
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT count(*)::int FROM posts
+      WHERE user_id = p_user_id AND hidden_at IS NULL AND can_view_content_of(user_id)
+    ),
+    (SELECT count(*)::int FROM follows WHERE following_id = p_user_id AND status = 'accepted'),
+    (SELECT count(*)::int FROM follows WHERE follower_id = p_user_id AND status = 'accepted'),
+    (
+      SELECT count(*)::int FROM friendships
+      WHERE status = 'accepted'
+      AND (user_id_1 = p_user_id OR user_id_2 = p_user_id)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION get_friend_suggestions(p_limit int DEFAULT 20)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  bio text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  mutual_friend_count int,
+  shared_follow_count int,
+  interaction_count int,
+  follows_you boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH friend_edges AS (
+    SELECT user_id_1 AS a, user_id_2 AS b FROM friendships WHERE status = 'accepted'
+    UNION ALL
+    SELECT user_id_2, user_id_1 FROM friendships WHERE status = 'accepted'
+  ),
+  excluded AS (
+    SELECT auth.uid() AS id
+    UNION
+    SELECT CASE WHEN user_id_1 = auth.uid() THEN user_id_2 ELSE user_id_1 END
+    FROM friendships
+    WHERE status IN ('accepted', 'pending')
+    AND (user_id_1 = auth.uid() OR user_id_2 = auth.uid())
+    UNION
+    SELECT dismissed_user_id FROM suggestion_dismissals WHERE user_id = auth.uid()
+    UNION
+    SELECT blocked_id FROM blocks WHERE blocker_id = auth.uid()
+    UNION
+    SELECT blocker_id FROM blocks WHERE blocked_id = auth.uid()
+  ),
+  mutuals AS (
+    SELECT fe.a AS id, count(*)::int AS n
+    FROM friend_edges fe
+    WHERE fe.b IN (SELECT b FROM friend_edges WHERE a = auth.uid())
+    GROUP BY fe.a
+  ),
+  shared_follows AS (
+    SELECT f.follower_id AS id, count(*)::int AS n
+    FROM follows f
+    WHERE f.status = 'accepted'
+    AND f.following_id IN (SELECT following_id FROM follows WHERE follower_id = auth.uid() AND status = 'accepted')
+    GROUP BY f.follower_id
+  ),
+  interactions AS (
+    SELECT other AS id, count(*)::int AS n
+    FROM (
+      SELECT r.user_id AS other FROM reactions r JOIN posts p ON p.id = r.post_id WHERE p.user_id = auth.uid()
+      UNION ALL
+      SELECT p.user_id FROM reactions r JOIN posts p ON p.id = r.post_id WHERE r.user_id = auth.uid()
+      UNION ALL
+      SELECT c.user_id FROM comments c JOIN posts p ON p.id = c.post_id WHERE p.user_id = auth.uid()
+      UNION ALL
+      SELECT p.user_id FROM comments c JOIN posts p ON p.id = c.post_id WHERE c.user_id = auth.uid()
+    ) i
+    GROUP BY other
+  ),
+  candidates AS (
+    SELECT
+      pr.*,
+      COALESCE(m.n, 0) AS mutual_friend_count,
+      COALESCE(sf.n, 0) AS shared_follow_count,
+      COALESCE(i.n, 0) AS interaction_count,
+      EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = pr.id AND f.following_id = auth.uid() AND f.status = 'accepted'
+      ) AS follows_you
+    FROM profiles pr
+    LEFT JOIN mutuals m ON m.id = pr.id
+    LEFT JOIN shared_follows sf ON sf.id = pr.id
+    LEFT JOIN interactions i ON i.id = pr.id
+    WHERE pr.id NOT IN (SELECT id FROM excluded WHERE id IS NOT NULL)
+  )
+  SELECT
+    c.id, c.username, c.full_name, c.avatar_url, c.bio, c.created_at, c.updated_at,
+    c.mutual_friend_count, c.shared_follow_count, c.interaction_count, c.follows_you
+  FROM candidates c
+  ORDER BY
+    3 * c.mutual_friend_count
+      + 2 * c.interaction_count
+      + CASE WHEN c.follows_you THEN 2 ELSE 0 END
+      + c.shared_follow_count DESC,
+    c.created_at DESC
+  LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION get_feed_page(
+  p_mode text DEFAULT 'everyone',
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 10,
+  p_author_id uuid DEFAULT NULL,
+  p_post_id uuid DEFAULT NULL,
+  p_query text DEFAULT NULL,
+  p_hashtag text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  profiles jsonb,
+  reaction_count int,
+  reaction_counts jsonb,
+  my_reaction text,
+  comment_count int,
+  recent_comments jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.created_at,
+    p.updated_at,
+    to_jsonb(author) AS profiles,
+    (SELECT count(*)::int FROM reactions r WHERE r.post_id = p.id) AS reaction_count,
+    COALESCE((
+      SELECT jsonb_object_agg(type, n)
+      FROM (
+        SELECT r.type, count(*) AS n
+        FROM reactions r
+        WHERE r.post_id = p.id
+        GROUP BY r.type
+      ) per_type
+    ), '{}'::jsonb) AS reaction_counts,
+    (
+      SELECT r.type FROM reactions r
+      WHERE r.post_id = p.id AND r.user_id = auth.uid()
+    ) AS my_reaction,
+    (SELECT count(*)::int FROM comments c WHERE c.post_id = p.id) AS comment_count,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(preview) ORDER BY preview.created_at)
+      FROM (
+        SELECT c.*, to_jsonb(commenter) AS profiles
+        FROM comments c
+        JOIN profiles commenter ON commenter.id = c.user_id
+        WHERE c.post_id = p.id AND c.parent_id IS NULL
+        ORDER BY c.created_at
+        LIMIT 3
+      ) preview
+    ), '[]'::jsonb) AS recent_comments
+  FROM posts p
+  JOIN profiles author ON author.id = p.user_id
+  WHERE (
+      p_mode = 'everyone'
+      OR p.user_id = auth.uid()
+      OR (p_mode = 'following' AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = auth.uid() AND f.following_id = p.user_id AND f.status = 'accepted'
+      ))
+      OR (p_mode = 'friends' AND EXISTS (
+        SELECT 1 FROM friendships fr
+        WHERE fr.status = 'accepted'
+        AND (
+          (fr.user_id_1 = auth.uid() AND fr.user_id_2 = p.user_id)
+          OR (fr.user_id_2 = auth.uid() AND fr.user_id_1 = p.user_id)
+        )
+      ))
+    )
+    AND (p_author_id IS NULL OR p.user_id = p_author_id)
+    AND (p_post_id IS NULL OR p.id = p_post_id)
+    AND (
+      p_query IS NULL
+      OR to_tsvector('english', p.content) @@ websearch_to_tsquery('english', p_query)
+      OR p.content ILIKE like_pattern(trim(p_query))
+    )
+    AND (p_hashtag IS NULL OR EXISTS (
+      SELECT 1 FROM post_hashtags ph
+      JOIN hashtags h ON h.id = ph.hashtag_id
+      WHERE ph.post_id = p.id AND h.tag = lower(p_hashtag)
+    ))
+    AND (p_author_id IS NOT NULL OR p_post_id IS NOT NULL OR NOT EXISTS (
+      SELECT 1 FROM mutes m
+      WHERE m.user_id = auth.uid() AND m.muted_user_id = p.user_id
+    ))
+    AND (p_before_created_at IS NULL OR (p.created_at, p.id) < (p_before_created_at, p_before_id))
+    AND (p_after_created_at IS NULL OR (p.created_at, p.id) > (p_after_created_at, p_after_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,302 @@
+/*
+  # Post Audiences
+
+  ## Changed Table: `posts`
+  - `visibility` (text, default 'public') - who can see the post:
+    - 'public': anyone who can see the author's posts at all
+    - 'followers': the author's accepted followers
+    - 'friends': the author's accepted friends
+    - 'only_me': just the author
+    - 'custom': the friends listed in `post_audience_members`
+
+  ## New Table: `post_audience_members`
+  - `post_id` (uuid, foreign key) - a 'custom' post
+  - `user_id` (uuid, foreign key) - a friend of the author who can see it
+  - `created_at` (timestamptz)
+
+  ## New Functions
+  - `can_view_post(post_id, owner, visibility)`: whether the caller is in
+    the post's audience. The author always is. SECURITY DEFINER because
+    friendships and audience lists are only visible to the people in them.
+
+  ## Changed Functions
+  - `get_feed_page` also returns `visibility`, so the author can see who a
+    post was shared with
+  - `get_profile_stats` only counts the posts the caller is in the
+    audience of
+  - `can_view_report_target` follows the new `posts` policy
+
+  ## Security
+  - The select policy on `posts` also requires `can_view_post`, which in
+    turn limits who can see its comments, comment or react, since those
+    need a visible post
+  - Reactions, hashtags and mentions are only visible on posts the caller
+    can see, and comment likes on comments they can see, so none of them
+    gives away a post outside its audience
+  - Authors manage the audience lists of their own posts, and can only add
+    their friends
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS visibility text NOT NULL DEFAULT 'public'
+  CHECK (visibility IN ('public', 'followers', 'friends', 'only_me', 'custom'));
+
+CREATE TABLE IF NOT EXISTS post_audience_members (
+  post_id uuid REFERENCES posts(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (post_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS post_audience_members_user_id_idx ON post_audience_members (user_id);
+
+ALTER TABLE post_audience_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors can view their post audiences"
+  ON post_audience_members FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM posts WHERE posts.id = post_id AND posts.user_id = auth.uid()));
+
+CREATE POLICY "Authors can add friends to their post audiences"
+  ON post_audience_members FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM posts WHERE posts.id = post_id AND posts.user_id = auth.uid())
+    AND is_friends_with(user_id)
+  );
+
+CREATE POLICY "Authors can remove people from their post audiences"
+  ON post_audience_members FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM posts WHERE posts.id = post_id AND posts.user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION can_view_post(p_post_id uuid, p_owner uuid, p_visibility text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_owner = auth.uid() OR CASE p_visibility
+    WHEN 'public' THEN true
+    WHEN 'followers' THEN EXISTS (
+      SELECT 1 FROM follows
+      WHERE follower_id = auth.uid() AND following_id = p_owner AND status = 'accepted'
+    )
+    WHEN 'friends' THEN is_friends_with(p_owner)
+    WHEN 'custom' THEN EXISTS (
+      SELECT 1 FROM post_audience_members
+      WHERE post_id = p_post_id AND user_id = auth.uid()
+    )
+    ELSE false
+  END;
+$$;
+
+DROP POLICY IF EXISTS "Anyone can view posts" ON posts;
+
+CREATE POLICY "Anyone can view posts"
+  ON posts FOR SELECT
+  TO authenticated
+  USING (
+    hidden_at IS NULL
+    AND NOT is_blocked_with(user_id)
+    AND can_view_content_of(user_id)
+    AND can_view_post(id, user_id, visibility)
+  );
+
+CREATE OR REPLACE FUNCTION get_profile_stats(p_user_id uuid)
+RETURNS TABLE (
+  post_count int,
+  follower_count int,
+  following_count int,
+  friend_count int
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT count(*)::int FROM posts
+      WHERE user_id = p_user_id AND hidden_at IS NULL
+      AND can_view_content_of(user_id) AND can_view_post(id, user_id, visibility)
+    ),
+    (SELECT count(*)::int FROM follows WHERE following_id = p_user_id AND status = 'accepted'),
+    (SELECT count(*)::int FROM follows WHERE follower_id = p_user_id AND status = 'accepted'),
+    (
+      SELECT count(*)::int FROM friendships
+      WHERE status = 'accepted'
+      AND (user_id_1 = p_user_id OR user_id_2 = p_user_id)
+    );
+$$;
+
+DROP POLICY IF EXISTS "Anyone can view reactions" ON reactions;
+
+CREATE POLICY "Anyone can view reactions"
+  ON reactions FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM posts WHERE posts.id = post_id));
+
+DROP POLICY IF EXISTS "Anyone can view comment likes" ON comment_likes;
+
+CREATE POLICY "Anyone can view comment likes"
+  ON comment_likes FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM comments WHERE comments.id = comment_id));
+
+DROP POLICY IF EXISTS "Post hashtags are viewable by authenticated users" ON post_hashtags;
+
+CREATE POLICY "Post hashtags are viewable by authenticated users"
+  ON post_hashtags FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM posts WHERE posts.id = post_id));
+
+DROP POLICY IF EXISTS "Mentions are viewable by authenticated users" ON mentions;
+
+CREATE POLICY "Mentions are viewable by authenticated users"
+  ON mentions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM posts WHERE posts.id = post_id)
+    AND (comment_id IS NULL OR EXISTS (SELECT 1 FROM comments WHERE comments.id = comment_id))
+  );
+
+CREATE OR REPLACE FUNCTION can_view_report_target(p_target_type text, p_target_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_target_type
+    WHEN 'post' THEN EXISTS (
+      SELECT 1 FROM posts
+      WHERE id = p_target_id AND hidden_at IS NULL AND NOT is_blocked_with(user_id)
+        AND can_view_content_of(user_id) AND can_view_post(id, user_id, visibility)
+    )
+    WHEN 'comment' THEN EXISTS (
+      SELECT 1 FROM comments
+      WHERE id = p_target_id AND hidden_at IS NULL AND NOT is_blocked_with(user_id)
+        AND can_view_report_target('post', post_id)
+    )
+    WHEN 'story' THEN EXISTS (
+      SELECT 1 FROM stories
+      WHERE id = p_target_id AND expires_at > now() AND hidden_at IS NULL
+        AND NOT is_blocked_with(user_id) AND can_view_content_of(user_id)
+    )
+    WHEN 'profile' THEN EXISTS (
+      SELECT 1 FROM profiles WHERE id = p_target_id AND NOT is_blocked_with(id)
+    )
+    ELSE false
+  END;
+$$;
+
+DROP FUNCTION IF EXISTS get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int, uuid, uuid, text, text);
+
+CREATE OR REPLACE FUNCTION get_feed_page(
+  p_mode text DEFAULT 'everyone',
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 10,
+  p_author_id uuid DEFAULT NULL,
+  p_post_id uuid DEFAULT NULL,
+  p_query text DEFAULT NULL,
+  p_hashtag text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  visibility text,
+  profiles jsonb,
+  reaction_count int,
+  reaction_counts jsonb,
+  my_reaction text,
+  comment_count int,
+  recent_comments jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.created_at,
+    p.updated_at,
+    p.visibility,
+    to_jsonb(author) AS profiles,
+    (SELECT count(*)::int FROM reactions r WHERE r.post_id = p.id) AS reaction_count,
+    COALESCE((
+      SELECT jsonb_object_agg(type, n)
+      FROM (
+        SELECT r.type, count(*) AS n
+        FROM reactions r
+        WHERE r.post_id = p.id
+        GROUP BY r.type
+      ) per_type
+    ), '{}'::jsonb) AS reaction_counts,
+    (
+      SELECT r.type FROM reactions r
+      WHERE r.post_id = p.id AND r.user_id = auth.uid()
+    ) AS my_reaction,
+    (SELECT count(*)::int FROM comments c WHERE c.post_id = p.id) AS comment_count,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(preview) ORDER BY preview.created_at)
+      FROM (
+        SELECT c.*, to_jsonb(commenter) AS profiles
+        FROM comments c
+        JOIN profiles commenter ON commenter.id = c.user_id
+        WHERE c.post_id = p.id AND c.parent_id IS NULL
+        ORDER BY c.created_at
+        LIMIT 3
+      ) preview
+    ), '[]'::jsonb) AS recent_comments
+  FROM posts p
+  JOIN profiles author ON author.id = p.user_id
+  WHERE (
+      p_mode = 'everyone'
+      OR p.user_id = auth.uid()
+      OR (p_mode = 'following' AND EXISTS (
+        SELECT 1 FROM follows f
+        WHERE f.follower_id = auth.uid() AND f.following_id = p.user_id AND f.status = 'accepted'
+      ))
+      OR (p_mode = 'friends' AND EXISTS (
+        SELECT 1 FROM friendships fr
+        WHERE fr.status = 'accepted'
+        AND (
+          (fr.user_id_1 = auth.uid() AND fr.user_id_2 = p.user_id)
+          OR (fr.user_id_2 = auth.uid() AND fr.user_id_1 = p.user_id)
+        )
+      ))
+    )
+    AND (p_author_id IS NULL OR p.user_id = p_author_id)
+    AND (p_post_id IS NULL OR p.id = p_post_id)
+    AND (
+      p_query IS NULL
+      OR to_tsvector('english', p.content) @@ websearch_to_tsquery('english', p_query)
+      OR p.content ILIKE like_pattern(trim(p_query))
+    )
+    AND (p_hashtag IS NULL OR EXISTS (
+      SELECT 1 FROM post_hashtags ph
+      JOIN hashtags h ON h.id = ph.hashtag_id
+      WHERE ph.post_id = p.id AND h.tag = lower(p_hashtag)
+    ))
+    AND (p_author_id IS NOT NULL OR p_post_id IS NOT NULL OR NOT EXISTS (
+      SELECT 1 FROM mutes m
+      WHERE m.user_id = auth.uid() AND m.muted_user_id = p.user_id
+    ))
+    AND (p_before_created_at IS NULL OR (p.created_at, p.id) < (p_before_created_at, p_before_id))
+    AND (p_after_created_at IS NULL OR (p.created_at, p.id) > (p_after_created_at, p_after_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_feed_page(text, timestamptz, uuid, timestamptz, uuid, int, uuid, uuid, text, text) TO authenticated;
@@ -0,0 +1,120 @@
+/*
+  # Story Audiences and Close Friends
+
+  ## New Table: `close_friends`
+  - `user_id` (uuid, foreign key) - whose list it is
+  - `friend_id` (uuid, foreign key) - a friend on the list
+  - `created_at` (timestamptz)
+
+  ## Changed Table: `stories`
+  - `audience` (text, default 'everyone') - who can see the story:
+    - 'everyone': anyone who can see the author's stories at all
+    - 'friends': the author's accepted friends
+    - 'close_friends': friends on the author's close friends list
+
+  Someone who stops being a friend drops out of 'close_friends' stories
+  too, without having to be removed from the list.
+
+  ## New Functions
+  - `can_view_story(owner, audience)`: whether the caller is in a story's
+    audience. The author always is. SECURITY DEFINER because friendships
+    and close friends lists are only visible to their owners.
+
+  ## Changed Functions
+  - `can_view_report_target` follows the new `stories` policy
+
+  ## Security
+  - Users can view and edit their own close friends list, and can only add
+    their friends to it
+  - The select policy on `stories` also requires `can_view_story`
+*/
+
+CREATE TABLE IF NOT EXISTS close_friends (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  friend_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, friend_id),
+  CHECK (user_id <> friend_id)
+);
+
+ALTER TABLE close_friends ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own close friends"
+  ON close_friends FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add friends to own close friends"
+  ON close_friends FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND is_friends_with(friend_id));
+
+CREATE POLICY "Users can remove own close friends"
+  ON close_friends FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS audience text NOT NULL DEFAULT 'everyone'
+  CHECK (audience IN ('everyone', 'friends', 'close_friends'));
+
+CREATE OR REPLACE FUNCTION can_view_story(p_owner uuid, p_audience text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_owner = auth.uid() OR CASE p_audience
+    WHEN 'everyone' THEN true
+    WHEN 'friends' THEN is_friends_with(p_owner)
+    WHEN 'close_friends' THEN is_friends_with(p_owner) AND EXISTS (
+      SELECT 1 FROM close_friends
+      WHERE user_id = p_owner AND friend_id = auth.uid()
+    )
+    ELSE false
+  END;
+$$;
+
+DROP POLICY IF EXISTS "Anyone can view non-expired stories" ON stories;
+
+CREATE POLICY "Anyone can view non-expired stories"
+  ON stories FOR SELECT
+  TO authenticated
+  USING (
+    expires_at > now()
+    AND hidden_at IS NULL
+    AND NOT is_blocked_with(user_id)
+    AND can_view_content_of(user_id)
+    AND can_view_story(user_id, audience)
+  );
+
+CREATE OR REPLACE FUNCTION can_view_report_target(p_target_type text, p_target_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_target_type
+    WHEN 'post' THEN EXISTS (
+      SELECT 1 FROM posts
+      WHERE id = p_target_id AND hidden_at IS NULL AND NOT is_blocked_with(user_id)
+        AND can_view_content_of(user_id) AND can_view_post(id, user_id, visibility)
+    )
+    WHEN 'comment' THEN EXISTS (
+      SELECT 1 FROM comments
+      WHERE id = p_target_id AND hidden_at IS NULL AND NOT is_blocked_with(user_id)
+        AND can_view_report_target('post', post_id)
+    )
+    WHEN 'story' THEN EXISTS (
+      SELECT 1 FROM stories
+      WHERE id = p_target_id AND expires_at > now() AND hidden_at IS NULL
+        AND NOT is_blocked_with(user_id) AND can_view_content_of(user_id)
+        AND can_view_story(user_id, audience)
+    )
+    WHEN 'profile' THEN EXISTS (
+      SELECT 1 FROM profiles WHERE id = p_target_id AND NOT is_blocked_with(id)
+    )
+    ELSE false
+  END;
+$$;
@@ -0,0 +1,83 @@
+/*
+  # Story Replies
+
+  ## New Table: `story_replies`
+  - `id` (uuid, primary key)
+  - `story_id` (uuid, foreign key) - the story being replied to
+  - `user_id` (uuid, foreign key) - who replied
+  - `content` (text) - the reply, or the emoji for a quick reaction
+  - `is_reaction` (boolean) - whether it's a one-tap emoji reaction
+  - `created_at` (timestamptz)
+
+  ## Notifications
+  - New type 'story_reply', sent to the story's owner for replies and
+    quick reactions alike
+
+  ## Security
+  - A reply is only visible to the person who sent it and the story's owner
+  - Users can reply to stories they can see, but not to their own
+  - Suspended users can't reply
+*/
+
+CREATE TABLE IF NOT EXISTS story_replies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id uuid REFERENCES stories(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  content text NOT NULL CHECK (char_length(content) BETWEEN 1 AND 500),
+  is_reaction boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS story_replies_story_id_idx ON story_replies (story_id, created_at DESC);
+
+ALTER TABLE story_replies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Senders and story owners can view story replies"
+  ON story_replies FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM stories WHERE stories.id = story_id AND stories.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can reply to stories they can see"
+  ON story_replies FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM stories WHERE stories.id = story_id AND stories.user_id <> auth.uid())
+  );
+
+CREATE TRIGGER reject_suspended_user
+  BEFORE INSERT ON story_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_suspended_user();
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (
+  type IN (
+    'reaction', 'comment', 'reply', 'follow', 'follow_request', 'follow_accept',
+    'friend_request', 'friend_accept', 'story_view', 'story_reply'
+  )
+);
+
+CREATE OR REPLACE FUNCTION notify_story_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM create_notification(
+    (SELECT user_id FROM stories WHERE id = NEW.story_id),
+    NEW.user_id, 'story_reply', NULL, NULL, NEW.story_id
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_story_reply
+  AFTER INSERT ON story_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_story_reply();
@@ -0,0 +1,153 @@
+/*
+  # Story Highlights and Archive
+
+  ## New Table: `story_highlights`
+  A named collection of a user's stories, shown on their profile
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, foreign key) - whose highlight it is
+  - `title` (text) - shown under the cover, up to 30 characters
+  - `cover_url` (text, nullable) - cover image; without one the first
+    story stands in
+  - `created_at` (timestamptz)
+
+  ## New Table: `story_highlight_items`
+  - `highlight_id` (uuid, foreign key)
+  - `story_id` (uuid, foreign key) - one of the owner's stories
+  - `added_at` (timestamptz)
+
+  ## New Functions
+  - `is_story_highlighted(story_id)`: whether a story is in any highlight.
+    SECURITY DEFINER so the stories policy doesn't depend on the highlight
+    policies.
+
+  ## Changed Functions
+  - `can_view_report_target` follows the new `stories` policy, so stories
+    in a highlight can be reported after they expire
+
+  ## Security
+  - Highlights are visible to anyone who can see the owner's content;
+    only the owner can create, edit or delete them, and only with their
+    own stories
+  - The select policy on `stories` no longer hides expired stories from
+    their owner (the archive), nor from the audience of a highlighted
+    story. Expired stories keep their audience; a highlight doesn't widen
+    who can see them.
+*/
+
+CREATE TABLE IF NOT EXISTS story_highlights (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL CHECK (char_length(title) BETWEEN 1 AND 30),
+  cover_url text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS story_highlights_user_id_idx ON story_highlights (user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS story_highlight_items (
+  highlight_id uuid REFERENCES story_highlights(id) ON DELETE CASCADE NOT NULL,
+  story_id uuid REFERENCES stories(id) ON DELETE CASCADE NOT NULL,
+  added_at timestamptz DEFAULT now(),
+  PRIMARY KEY (highlight_id, story_id)
+);
+
+CREATE INDEX IF NOT EXISTS story_highlight_items_story_id_idx ON story_highlight_items (story_id);
+
+ALTER TABLE story_highlights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE story_highlight_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view highlights of content they can see"
+  ON story_highlights FOR SELECT
+  TO authenticated
+  USING (NOT is_blocked_with(user_id) AND can_view_content_of(user_id));
+
+CREATE POLICY "Users can create own highlights"
+  ON story_highlights FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own highlights"
+  ON story_highlights FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own highlights"
+  ON story_highlights FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Anyone can view items of visible highlights"
+  ON story_highlight_items FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM story_highlights WHERE story_highlights.id = highlight_id));
+
+CREATE POLICY "Users can add own stories to own highlights"
+  ON story_highlight_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM story_highlights WHERE story_highlights.id = highlight_id AND story_highlights.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM stories WHERE stories.id = story_id AND stories.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can remove stories from own highlights"
+  ON story_highlight_items FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM story_highlights WHERE story_highlights.id = highlight_id AND story_highlights.user_id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION is_story_highlighted(p_story_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM story_highlight_items WHERE story_id = p_story_id);
+$$;
+
+DROP POLICY IF EXISTS "Anyone can view non-expired stories" ON stories;
+
+CREATE POLICY "Anyone can view active or highlighted stories"
+  ON stories FOR SELECT
+  TO authenticated
+  USING (
+    (expires_at > now() OR user_id = auth.uid() OR is_story_highlighted(id))
+    AND hidden_at IS NULL
+    AND NOT is_blocked_with(user_id)
+    AND can_view_content_of(user_id)
+    AND can_view_story(user_id, audience)
+  );
+
+CREATE OR REPLACE FUNCTION can_view_report_target(p_target_type text, p_target_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_target_type
+    WHEN 'post' THEN EXISTS (
+      SELECT 1 FROM posts
+      WHERE id = p_target_id AND hidden_at IS NULL AND NOT is_blocked_with(user_id)
+        AND can_view_content_of(user_id) AND can_view_post(id, user_id, visibility)
+    )
+    WHEN 'comment' THEN EXISTS (
+      SELECT 1 FROM comments
+      WHERE id = p_target_id AND hidden_at IS NULL AND NOT is_blocked_with(user_id)
+        AND can_view_report_target('post', post_id)
+    )
+    WHEN 'story' THEN EXISTS (
+      SELECT 1 FROM stories
+      WHERE id = p_target_id
+        AND (expires_at > now() OR user_id = auth.uid() OR is_story_highlighted(id)) AND hidden_at IS NULL
+        AND NOT is_blocked_with(user_id) AND can_view_content_of(user_id)
+        AND can_view_story(user_id, audience)
+    )
+    WHEN 'profile' THEN EXISTS (
+      SELECT 1 FROM profiles WHERE id = p_target_id AND NOT is_blocked_with(id)
+    )
+    ELSE false
+  END;
+$$;
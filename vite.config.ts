@@ -1,9 +1,72 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Connect, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createReadStream, existsSync, mkdirSync, createWriteStream } from 'node:fs';
+import { dirname, extname, resolve, sep } from 'node:path';
+
+// Must match DEMO_STORAGE_PATH in src/lib/uploads.ts.
+const DEMO_STORAGE_PATH = '/__demo-storage';
+const DEMO_UPLOADS_DIR = resolve(__dirname, '.demo-uploads');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+// Stand-in for Supabase Storage in demo mode: POST stores the request body
+// under .demo-uploads/, GET serves it back.
+const demoStorage: Connect.NextHandleFunction = (req, res, next) => {
+  if (!req.url?.startsWith(`${DEMO_STORAGE_PATH}/`)) return next();
+
+  const relative = decodeURIComponent(req.url.slice(DEMO_STORAGE_PATH.length + 1).split('?')[0]);
+  const file = resolve(DEMO_UPLOADS_DIR, relative);
+  if (!file.startsWith(DEMO_UPLOADS_DIR + sep)) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ message: 'Invalid path' }));
+    return;
+  }
+
+  if (req.method === 'POST') {
+    mkdirSync(dirname(file), { recursive: true });
+    const out = createWriteStream(file);
+    req.pipe(out);
+    out.on('finish', () => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ Key: relative }));
+    });
+    out.on('error', (err) => {
+      res.statusCode = 500;
+      res.end(JSON.stringify({ message: err.message }));
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && existsSync(file)) {
+    res.setHeader('Content-Type', CONTENT_TYPES[extname(file)] || 'application/octet-stream');
+    createReadStream(file).pipe(res);
+    return;
+  }
+
+  res.statusCode = 404;
+  res.end(JSON.stringify({ message: 'Not found' }));
+};
+
+function demoStoragePlugin(): Plugin {
+  return {
+    name: 'demo-storage',
+    configureServer(server) {
+      server.middlewares.use(demoStorage);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(demoStorage);
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), demoStoragePlugin()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },